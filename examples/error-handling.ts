@@ -13,6 +13,7 @@ import {
   ZiptaxValidationError,
   ZiptaxNetworkError,
   ZiptaxRateLimitError,
+  ZiptaxRetryError,
 } from '../src';
 
 async function main() {
@@ -75,14 +76,14 @@ async function main() {
     }
   }
 
-  // Example 4: Handling network errors
+  // Example 4: Handling network errors (retried before giving up)
   try {
     await client.getSalesTaxByAddress({
       address: '200 Spectrum Center Drive',
     });
   } catch (error) {
-    if (error instanceof ZiptaxNetworkError) {
-      console.error('Network Error:', error.message);
+    if (error instanceof ZiptaxRetryError && error.lastError instanceof ZiptaxNetworkError) {
+      console.error(`Network Error after ${error.attempts} attempts:`, error.lastError.message);
       console.error('Please check your internet connection');
     }
   }
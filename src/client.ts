@@ -2,7 +2,40 @@
  * Main ZipTax API client
  */
 
-import { HTTPClient } from './utils/http';
+import { HTTPClient, RequestOptions } from './utils/http';
+import { CircuitState } from './utils/circuit-breaker';
+import { createCacheKey, LookupOptions, ResponseCache } from './utils/cache';
+import { BatchOptions, BatchResult, mapWithConcurrency, runBatch } from './utils/batch';
+import { diffRates, RateDiff } from './utils/diff';
+import { buildRateHistory, listMonths, RateHistory, RateHistoryOptions } from './utils/history';
+import { mapConcurrentUnordered, settleLookup, StreamOptions } from './utils/stream';
+import { Middleware } from './utils/middleware';
+import {
+  CalculateCartOptions,
+  CalculateCartsOptions,
+  CartBackend,
+  CartBackendOption,
+  normalizeCartResponse,
+  NormalizedCartResponse,
+} from './utils/cart';
+import { CartShadowOptions, compareCartResults } from './utils/shadow';
+import { prepareCartRequest, TypedCalculateCartRequest, TypedCartItem } from './utils/lines';
+import {
+  getLineRates,
+  reconcileTaxInclusiveCart,
+  TaxInclusiveCartOptions,
+  TaxInclusiveCartResult,
+  toNetPrices,
+} from './utils/inclusive';
+import {
+  chunkCartItem,
+  ChunkedCartOptions,
+  ChunkedCartResponse,
+  MAX_CART_LINE_ITEMS,
+  mergeCartChunks,
+} from './utils/chunk';
+import { RateMonitor, RateMonitorOptions } from './utils/monitor';
+import { REDACTED } from './utils/logger';
 import { ZiptaxConfigurationError, ZiptaxValidationError } from './exceptions';
 import {
   validateApiKey,
@@ -10,6 +43,7 @@ import {
   validateMaxLength,
   validatePattern,
   validateProductQuery,
+  validateCartLineItem,
   parseAddressString,
 } from './utils/validation';
 import {
@@ -19,6 +53,11 @@ import {
   GetSalesTaxByGeoLocationParams,
   GetRatesByPostalCodeParams,
   GetAccountMetricsParams,
+  GetRateHistoryParams,
+  CompareRatesParams,
+  HistoricalLocationParams,
+  LookupInput,
+  LookupResult,
 } from './config';
 import {
   V60Response,
@@ -38,16 +77,29 @@ import {
   ProductCodeRecommendationResponse,
 } from './models';
 
+/**
+ * Configuration keys that have no default value
+ */
+type OptionalConfigKeys =
+  | 'retryOptions'
+  | 'taxCloudConnectionId'
+  | 'taxCloudAPIKey'
+  | 'transport'
+  | 'middleware'
+  | 'logger'
+  | 'circuitBreaker'
+  | 'rateLimit'
+  | 'cache';
+
 /**
  * ZipTax API client
  */
 export class ZiptaxClient {
   private readonly httpClient: HTTPClient;
   private readonly taxCloudHttpClient?: HTTPClient;
-  private readonly config: Required<
-    Omit<ZiptaxConfig, 'retryOptions' | 'taxCloudConnectionId' | 'taxCloudAPIKey'>
-  > &
-    Pick<ZiptaxConfig, 'retryOptions' | 'taxCloudConnectionId' | 'taxCloudAPIKey'>;
+  private readonly responseCache?: ResponseCache;
+  private readonly config: Required<Omit<ZiptaxConfig, OptionalConfigKeys>> &
+    Pick<ZiptaxConfig, OptionalConfigKeys>;
 
   /**
    * Create a new ZipTax client instance
@@ -63,33 +115,89 @@ export class ZiptaxClient {
       ...config,
     };
 
+    // Options shared by the ZipTax and TaxCloud HTTP clients
+    const sharedOptions = {
+      timeout: this.config.timeout,
+      retryOptions: this.config.retryOptions,
+      enableLogging: this.config.enableLogging,
+      logger: this.config.logger,
+      logLevel: this.config.logLevel,
+      redact: this.config.redact,
+      transport: this.config.transport,
+      middleware: this.config.middleware,
+      circuitBreaker: this.config.circuitBreaker,
+    };
+
     // Initialize ZipTax HTTP client
     this.httpClient = new HTTPClient({
+      ...sharedOptions,
       baseURL: this.config.baseURL,
       apiKey: this.config.apiKey,
-      timeout: this.config.timeout,
-      retryOptions: this.config.retryOptions,
-      enableLogging: this.config.enableLogging,
+      name: 'ziptax',
+      rateLimit: this.config.rateLimit?.ziptax,
     });
 
+    // Initialize the response cache for rate lookups if enabled
+    if (config.cache) {
+      this.responseCache = new ResponseCache(config.cache === true ? {} : config.cache);
+    }
+
     // Initialize TaxCloud HTTP client if credentials are provided
     if (config.taxCloudConnectionId && config.taxCloudAPIKey) {
       this.taxCloudHttpClient = new HTTPClient({
+        ...sharedOptions,
         baseURL: 'https://api.v3.taxcloud.com',
         apiKey: config.taxCloudAPIKey,
-        timeout: this.config.timeout,
-        retryOptions: this.config.retryOptions,
-        enableLogging: this.config.enableLogging,
+        name: 'taxcloud',
+        rateLimit: this.config.rateLimit?.taxcloud,
       });
     }
   }
 
+  /**
+   * Register a middleware for requests to both the ZipTax and TaxCloud backends.
+   * Middleware registered here run after any passed in the client configuration.
+   *
+   * @param middleware - Middleware hooks to register
+   * @returns The client, for chaining
+   *
+   * @example
+   * ```typescript
+   * client.use({
+   *   onRequest: (request) => ({
+   *     ...request,
+   *     headers: { ...request.headers, 'X-Request-Id': randomUUID() },
+   *   }),
+   * });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.httpClient.use(middleware);
+    this.taxCloudHttpClient?.use(middleware);
+    return this;
+  }
+
+  /**
+   * Get the circuit breaker state for a backend
+   * @param backend - Backend to check (default: 'ziptax')
+   * @returns The circuit state, or undefined when no circuit breaker is configured
+   *   (or TaxCloud credentials are missing)
+   */
+  getCircuitState(backend: 'ziptax' | 'taxcloud' = 'ziptax'): CircuitState | undefined {
+    const httpClient = backend === 'taxcloud' ? this.taxCloudHttpClient : this.httpClient;
+    return httpClient?.getCircuitState();
+  }
+
   /**
    * Get sales and use tax rate details from an address input
    * @param params - Query parameters
+   * @param options - Per-call request options (signal, timeout, retryOptions, headers, cache)
    * @returns V60Response with tax rate details
    */
-  async getSalesTaxByAddress(params: GetSalesTaxByAddressParams): Promise<V60Response> {
+  async getSalesTaxByAddress(
+    params: GetSalesTaxByAddressParams,
+    options?: LookupOptions
+  ): Promise<V60Response> {
     // Validate required parameters
     validateRequired(params.address, 'address');
     validateMaxLength(params.address, 100, 'address');
@@ -104,23 +212,55 @@ export class ZiptaxClient {
     }
 
     // Make API request
-    return this.httpClient.get<V60Response>('/request/v60/', {
-      params: {
-        address: params.address,
-        taxabilityCode: params.taxabilityCode,
-        countryCode: params.countryCode || 'USA',
-        historical: params.historical,
-        format: params.format || 'json',
-      },
-    });
+    return this.lookup<V60Response>(this.addressLookupParams(params), options);
+  }
+
+  /**
+   * Get sales and use tax rate details for many addresses at once.
+   *
+   * Lookups run with bounded concurrency and use the same validation, retry and
+   * caching behaviour as getSalesTaxByAddress. Identical inputs are looked up
+   * once. A failed lookup is reported in its own result and does not fail the batch.
+   *
+   * @param paramsList - Query parameters for each address
+   * @param options - Concurrency, progress callback and per-call request options
+   * @returns One result per input, in input order
+   *
+   * @example
+   * ```typescript
+   * const results = await client.getSalesTaxByAddresses(addresses, {
+   *   concurrency: 10,
+   *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`),
+   * });
+   * for (const result of results) {
+   *   if (result.status === 'rejected') console.error(result.params.address, result.error);
+   * }
+   * ```
+   */
+  async getSalesTaxByAddresses(
+    paramsList: GetSalesTaxByAddressParams[],
+    options?: BatchOptions
+  ): Promise<BatchResult<GetSalesTaxByAddressParams, V60Response>[]> {
+    const { concurrency, onProgress, ...lookupOptions } = options ?? {};
+
+    return runBatch(
+      paramsList,
+      (params) => createCacheKey('/request/v60/', this.addressLookupParams(params)),
+      (params) => this.getSalesTaxByAddress(params, lookupOptions),
+      { concurrency, onProgress }
+    );
   }
 
   /**
    * Get sales and use tax rate details from a geolocation input
    * @param params - Query parameters
+   * @param options - Per-call request options (signal, timeout, retryOptions, headers, cache)
    * @returns V60Response with tax rate details
    */
-  async getSalesTaxByGeoLocation(params: GetSalesTaxByGeoLocationParams): Promise<V60Response> {
+  async getSalesTaxByGeoLocation(
+    params: GetSalesTaxByGeoLocationParams,
+    options?: LookupOptions
+  ): Promise<V60Response> {
     // Validate required parameters
     validateRequired(params.lat, 'lat');
     validateRequired(params.lng, 'lng');
@@ -133,44 +273,202 @@ export class ZiptaxClient {
     }
 
     // Make API request
-    return this.httpClient.get<V60Response>('/request/v60/', {
-      params: {
+    return this.lookup<V60Response>(
+      {
         lat: params.lat,
         lng: params.lng,
         countryCode: params.countryCode || 'USA',
         historical: params.historical,
         format: params.format || 'json',
       },
-    });
+      options
+    );
   }
 
   /**
    * Get sales and use tax rate details from a postal code input
    * @param params - Query parameters
+   * @param options - Per-call request options (signal, timeout, retryOptions, headers, cache)
    * @returns V60PostalCodeResponse with tax rate details
    */
-  async getRatesByPostalCode(params: GetRatesByPostalCodeParams): Promise<V60PostalCodeResponse> {
+  async getRatesByPostalCode(
+    params: GetRatesByPostalCodeParams,
+    options?: LookupOptions
+  ): Promise<V60PostalCodeResponse> {
     // Validate required parameters
     validateRequired(params.postalcode, 'postalcode');
     validateMaxLength(params.postalcode, 5, 'postalcode');
     validatePattern(params.postalcode, /^[0-9]{5}$/, 'postalcode', '5-digit format');
 
     // Make API request
-    return this.httpClient.get<V60PostalCodeResponse>('/request/v60/', {
-      params: {
+    return this.lookup<V60PostalCodeResponse>(
+      {
         postalcode: params.postalcode,
         format: params.format || 'json',
       },
-    });
+      options
+    );
+  }
+
+  /**
+   * Look up rates for every input in a (possibly async) iterable, yielding
+   * results as they finish.
+   *
+   * Each input may be an address, a geolocation or a postal code, and is looked
+   * up with getSalesTaxByAddress, getSalesTaxByGeoLocation or getRatesByPostalCode.
+   * Inputs are read from the source only as concurrency slots free up, so large
+   * sources are never loaded into memory. Failed lookups are yielded as rejected
+   * results. Results arrive in completion order; use `index` to match them to inputs.
+   *
+   * @param inputs - Lookup inputs
+   * @param options - Concurrency and per-call request options
+   *
+   * @example
+   * ```typescript
+   * for await (const result of client.lookupAll(readCustomers())) {
+   *   if (result.status === 'fulfilled') save(result.params, result.value);
+   * }
+   * ```
+   */
+  async *lookupAll<P extends LookupInput>(
+    inputs: AsyncIterable<P> | Iterable<P>,
+    options?: StreamOptions
+  ): AsyncGenerator<LookupResult<P>> {
+    const { concurrency, ...lookupOptions } = options ?? {};
+    yield* mapConcurrentUnordered(inputs, concurrency ?? 5, (params, index) =>
+      settleLookup(this, params, index, lookupOptions)
+    );
+  }
+
+  /**
+   * Get the rate history for one location across a range of months.
+   *
+   * Looks up every month from `from` to `to` (inclusive) using the `historical`
+   * parameter, with bounded concurrency, and collapses consecutive months with
+   * identical rates into effective-date ranges.
+   *
+   * @param params - Address or lat/lng, and the month range
+   * @param options - Concurrency and per-call request options
+   * @returns Monthly series in chronological order and effective-date ranges
+   *
+   * @example
+   * ```typescript
+   * const history = await client.getRateHistory({
+   *   address: '200 Spectrum Center Drive, Irvine, CA 92618',
+   *   from: '202301',
+   *   to: '202412',
+   * });
+   * for (const range of history.ranges) {
+   *   console.log(`${range.from}-${range.to}: ${range.salesTaxRate}`);
+   * }
+   * ```
+   */
+  async getRateHistory(
+    params: GetRateHistoryParams,
+    options?: RateHistoryOptions
+  ): Promise<RateHistory> {
+    const months = listMonths(params.from, params.to);
+    const { concurrency, ...lookupOptions } = options ?? {};
+
+    const responses = await mapWithConcurrency(months, concurrency ?? 5, (historical) =>
+      this.getHistoricalRates(params, historical, lookupOptions)
+    );
+
+    return buildRateHistory(months, responses);
+  }
+
+  /**
+   * Compare the rates for one location in two months.
+   *
+   * Looks up both months using the `historical` parameter and reports added,
+   * removed and changed jurisdiction rates, tax summary rates, and changes to
+   * service/shipping taxability and sourcing rules.
+   *
+   * @param params - Address or lat/lng, and the two months to compare
+   * @param options - Per-call request options, applied to both lookups
+   * @returns Differences from the `from` month to the `to` month
+   *
+   * @example
+   * ```typescript
+   * const diff = await client.compareRates({
+   *   address: '200 Spectrum Center Drive, Irvine, CA 92618',
+   *   from: '202301',
+   *   to: '202401',
+   * });
+   * for (const change of diff.baseRates.changed) {
+   *   console.log(`${change.jurName}: ${change.before.rate} -> ${change.after.rate}`);
+   * }
+   * ```
+   */
+  async compareRates(params: CompareRatesParams, options?: LookupOptions): Promise<RateDiff> {
+    const [before, after] = await Promise.all([
+      this.getHistoricalRates(params, params.from, options),
+      this.getHistoricalRates(params, params.to, options),
+    ]);
+    return diffRates(before, after);
+  }
+
+  /**
+   * Create a monitor that re-checks a watched set of addresses or postal codes,
+   * on demand with check() or on a schedule with start(), and emits an event
+   * whenever a jurisdiction rate, taxability flag or sourcing rule changes.
+   *
+   * @param options - Locations, snapshot store, schedule and listeners
+   * @returns A RateMonitor using this client for lookups
+   *
+   * @example
+   * ```typescript
+   * const monitor = client.createRateMonitor({
+   *   locations: [
+   *     { address: '200 Spectrum Center Drive, Irvine, CA 92618' },
+   *     { postalcode: '92694' },
+   *   ],
+   *   store: new JsonFileSnapshotStore('./rate-snapshots.json'),
+   *   onChange: (event) => console.warn(event.id, event.changes),
+   * });
+   * await monitor.check();
+   * ```
+   */
+  createRateMonitor(options?: RateMonitorOptions): RateMonitor {
+    return new RateMonitor(this, options);
+  }
+
+  /**
+   * Look up an address or geolocation for one historical month
+   */
+  private getHistoricalRates(
+    location: HistoricalLocationParams,
+    historical: string,
+    options?: LookupOptions
+  ): Promise<V60Response> {
+    return 'address' in location
+      ? this.getSalesTaxByAddress(
+          {
+            address: location.address,
+            taxabilityCode: location.taxabilityCode,
+            countryCode: location.countryCode,
+            historical,
+          },
+          options
+        )
+      : this.getSalesTaxByGeoLocation(
+          { lat: location.lat, lng: location.lng, countryCode: location.countryCode, historical },
+          options
+        );
   }
 
   /**
    * Get account metrics related to sales and use tax
    * @param params - Query parameters (optional)
+   * @param options - Per-call request options (signal, timeout, retryOptions, headers)
    * @returns V60AccountMetrics with account usage information
    */
-  async getAccountMetrics(params?: GetAccountMetricsParams): Promise<V60AccountMetrics> {
+  async getAccountMetrics(
+    params?: GetAccountMetricsParams,
+    options?: RequestOptions
+  ): Promise<V60AccountMetrics> {
     return this.httpClient.get<V60AccountMetrics>('/account/v60/metrics', {
+      ...options,
       params: params?.format ? { format: params.format } : undefined,
     });
   }
@@ -186,6 +484,7 @@ export class ZiptaxClient {
    *
    * @param query - Natural language product description
    *   (e.g., "baked goods sold in plastic packaging")
+   * @param options - Per-call request options (signal, timeout, retryOptions, headers)
    * @returns ProductCodeSearchResponse with ranked search results
    *
    * @example
@@ -198,12 +497,15 @@ export class ZiptaxClient {
    * }
    * ```
    */
-  async searchProductCodes(query: string): Promise<ProductCodeSearchResponse> {
+  async searchProductCodes(
+    query: string,
+    options?: RequestOptions
+  ): Promise<ProductCodeSearchResponse> {
     validateProductQuery(query);
 
     const reqBody: ProductCodeSearchRequest = { query };
 
-    return this.httpClient.post<ProductCodeSearchResponse>('/search/tic', reqBody);
+    return this.httpClient.post<ProductCodeSearchResponse>('/search/tic', reqBody, options);
   }
 
   /**
@@ -218,6 +520,7 @@ export class ZiptaxClient {
    *
    * @param query - Natural language product description
    *   (e.g., "baked goods sold in plastic packaging")
+   * @param options - Per-call request options (signal, timeout, retryOptions, headers)
    * @returns ProductCodeRecommendationResponse with AI-powered recommendation
    *
    * @example
@@ -231,50 +534,327 @@ export class ZiptaxClient {
    * }
    * ```
    */
-  async recommendProductCode(query: string): Promise<ProductCodeRecommendationResponse> {
+  async recommendProductCode(
+    query: string,
+    options?: RequestOptions
+  ): Promise<ProductCodeRecommendationResponse> {
     validateProductQuery(query);
 
     const reqBody: ProductCodeSearchRequest = { query };
 
     return this.httpClient.post<ProductCodeRecommendationResponse>(
       '/search/tic/recommend',
-      reqBody
+      reqBody,
+      options
     );
   }
 
   /**
    * Calculate sales tax for a shopping cart.
    *
-   * Routes to TaxCloud API when TaxCloud credentials are configured,
-   * otherwise routes to ZipTax API. The input contract (CalculateCartRequest)
-   * is the same regardless of which backend is used.
+   * By default ('auto'), routes to TaxCloud API when TaxCloud credentials are
+   * configured, otherwise routes to ZipTax API. Pass `backend: 'ziptax'` or
+   * `backend: 'taxcloud'` to choose the backend for a single call; the return
+   * type then narrows to that backend's response. The input contract
+   * (CalculateCartRequest) is the same regardless of which backend is used.
+   *
+   * Line items may have a `kind` ('product', 'shipping', 'handling' or
+   * 'discount'). Shipping and handling lines without a taxabilityCode get the
+   * TIC for their kind, and discount lines are allocated to the product lines
+   * pro rata before the cart is sent (see prepareCartRequest). The backend
+   * response only has the discounted prices: use calculateCartNormalized to
+   * get the allocation with the result, in `discounts` on each cart.
+   *
+   * With `pricesIncludeTax: true`, line prices are treated as tax-inclusive:
+   * the cart is sent at net prices backed out with the backend's rates, and
+   * the net and gross amounts of every line are returned with a
+   * reconciliation against the shelf prices. Line rates depend on each line's
+   * TIC, so they are found by first sending the cart at gross prices: unless
+   * nothing is taxed, this makes at least two backend calls. The cart ids of
+   * the earlier calls are returned in `discardedCartIds`.
+   *
+   * With the `shadow` option, the request is also sent to the other backend in
+   * the background, and lines whose rate or amount differ by more than the
+   * tolerance are reported through `onDifference`. The shadow call never
+   * affects the returned result: its failures are reported through `onError`.
    *
    * @param request - Cart with line items, addresses, and currency
-   * @returns CalculateCartResponse (ZipTax) or TaxCloudCalculateCartResponse (TaxCloud)
+   * @param options - Backend selection, tax-inclusive pricing, shadow mode and per-call request options (signal, timeout, retryOptions, headers)
+   * @returns CalculateCartResponse (ZipTax) or TaxCloudCalculateCartResponse (TaxCloud), or a TaxInclusiveCartResult with `pricesIncludeTax`
+   * @throws ZiptaxConfigurationError if `backend: 'taxcloud'` is requested without TaxCloud credentials
+   *
+   * @example
+   * ```typescript
+   * // Product page quote, always from ZipTax
+   * const quote = await client.calculateCart(request, { backend: 'ziptax' });
+   * // Checkout cart, always from TaxCloud
+   * const cart = await client.calculateCart(request, { backend: 'taxcloud' });
+   * console.log(cart.connectionId);
+   * ```
    */
+  calculateCart(
+    request: TypedCalculateCartRequest,
+    options: TaxInclusiveCartOptions
+  ): Promise<TaxInclusiveCartResult>;
+  calculateCart(
+    request: TypedCalculateCartRequest,
+    options: CalculateCartOptions & { backend: 'ziptax' }
+  ): Promise<CalculateCartResponse>;
+  calculateCart(
+    request: TypedCalculateCartRequest,
+    options: CalculateCartOptions & { backend: 'taxcloud' }
+  ): Promise<TaxCloudCalculateCartResponse>;
+  calculateCart(
+    request: TypedCalculateCartRequest,
+    options?: CalculateCartOptions
+  ): Promise<CalculateCartResponse | TaxCloudCalculateCartResponse>;
   async calculateCart(
-    request: CalculateCartRequest
-  ): Promise<CalculateCartResponse | TaxCloudCalculateCartResponse> {
+    request: TypedCalculateCartRequest,
+    options?: CalculateCartOptions | TaxInclusiveCartOptions
+  ): Promise<CalculateCartResponse | TaxCloudCalculateCartResponse | TaxInclusiveCartResult> {
+    const {
+      backend = 'auto',
+      shadow,
+      lineKindTics,
+      pricesIncludeTax,
+      maxIterations,
+      ...requestOptions
+    }: Partial<TaxInclusiveCartOptions> = options ?? {};
+    const target = this.resolveCartBackend(backend);
+    const callOptions = options && requestOptions;
+    const cartRequest = prepareCartRequest(request, lineKindTics).request;
+
     // Validate cart structure
-    this.validateCartRequest(request);
+    this.validateCartRequest(cartRequest);
 
-    // Route to TaxCloud if configured
-    if (this.taxCloudHttpClient && this.config.taxCloudConnectionId) {
-      return this.calculateCartTaxCloud(request);
+    if (pricesIncludeTax) {
+      return this.calculateCartTaxInclusive(
+        target,
+        cartRequest,
+        requestOptions,
+        maxIterations,
+        shadow
+      );
+    }
+
+    const primary = this.sendCart(target, cartRequest, callOptions);
+    if (shadow) {
+      this.shadowCart(target, cartRequest, callOptions, shadow, primary);
     }
+    return primary;
+  }
+
+  /**
+   * Calculate sales tax for many shopping carts, e.g. one cart per seller in a
+   * marketplace checkout.
+   *
+   * Each cart is sent as its own calculateCart request, with bounded
+   * concurrency, to the backend selected by the `backend` option. A cart that
+   * fails validation or calculation is reported in its own result and does not
+   * fail the others.
+   *
+   * @param carts - Carts to calculate
+   * @param options - Concurrency, progress callback, backend selection and per-call request options
+   * @returns One result per cart, in input order
+   * @throws ZiptaxConfigurationError if `backend: 'taxcloud'` is requested without TaxCloud credentials
+   *
+   * @example
+   * ```typescript
+   * const results = await client.calculateCarts(cartsBySeller, { concurrency: 3 });
+   * for (const result of results) {
+   *   if (result.status === 'rejected') console.error(result.params.customerId, result.error);
+   * }
+   * ```
+   */
+  calculateCarts(
+    carts: TypedCartItem[],
+    options: CalculateCartsOptions & { backend: 'ziptax' }
+  ): Promise<BatchResult<TypedCartItem, CalculateCartResponse>[]>;
+  calculateCarts(
+    carts: TypedCartItem[],
+    options: CalculateCartsOptions & { backend: 'taxcloud' }
+  ): Promise<BatchResult<TypedCartItem, TaxCloudCalculateCartResponse>[]>;
+  calculateCarts(
+    carts: TypedCartItem[],
+    options?: CalculateCartsOptions
+  ): Promise<BatchResult<TypedCartItem, CalculateCartResponse | TaxCloudCalculateCartResponse>[]>;
+  async calculateCarts(
+    carts: TypedCartItem[],
+    options?: CalculateCartsOptions
+  ): Promise<BatchResult<TypedCartItem, CalculateCartResponse | TaxCloudCalculateCartResponse>[]> {
+    const { concurrency, onProgress, ...cartOptions } = options ?? {};
+    // Fail fast on a misconfigured backend rather than once per cart
+    this.resolveCartBackend(cartOptions.backend ?? 'auto');
+
+    return runBatch(
+      carts,
+      // Every cart is calculated, even if two are identical
+      (_cart, index) => String(index),
+      (cart) => this.calculateCart({ items: [cart] }, cartOptions),
+      { concurrency, onProgress }
+    );
+  }
+
+  /**
+   * Calculate sales tax for a cart of any size by splitting it into chunks of
+   * at most 250 line items.
+   *
+   * The cart is validated before any chunk is sent, then each chunk is calculated as its
+   * own backend cart with bounded concurrency. The chunk results are merged
+   * back into one cart with the line items in their original order, and
+   * TaxCloud line indexes renumbered accordingly. The call fails if any chunk
+   * fails.
+   *
+   * Each chunk is a separate cart on the backend, so every chunk's cartId is
+   * returned in `chunks` (e.g. to create one order per chunk).
+   *
+   * @param request - Cart with any number of line items, addresses, and currency
+   * @param options - Chunk size, concurrency, backend selection and per-call request options
+   * @returns The merged result and every chunk's cartId
+   *
+   * @example
+   * ```typescript
+   * const { response, chunks } = await client.calculateCartInChunks(largeOrderRequest);
+   * console.log(`${response.items[0].lineItems.length} lines in ${chunks.length} carts`);
+   * for (const chunk of chunks) {
+   *   console.log(chunk.cartId, chunk.itemIds.length);
+   * }
+   * ```
+   */
+  calculateCartInChunks(
+    request: TypedCalculateCartRequest,
+    options: ChunkedCartOptions & { backend: 'ziptax' }
+  ): Promise<ChunkedCartResponse<CalculateCartResponse>>;
+  calculateCartInChunks(
+    request: TypedCalculateCartRequest,
+    options: ChunkedCartOptions & { backend: 'taxcloud' }
+  ): Promise<ChunkedCartResponse<TaxCloudCalculateCartResponse>>;
+  calculateCartInChunks(
+    request: TypedCalculateCartRequest,
+    options?: ChunkedCartOptions
+  ): Promise<ChunkedCartResponse>;
+  async calculateCartInChunks(
+    request: TypedCalculateCartRequest,
+    options?: ChunkedCartOptions
+  ): Promise<ChunkedCartResponse> {
+    const {
+      chunkSize,
+      concurrency = 5,
+      shadow,
+      backend: backendOption = 'auto',
+      lineKindTics,
+      ...requestOptions
+    } = options ?? {};
+    const backend = this.resolveCartBackend(backendOption);
+
+    // Allocate discounts across the whole cart before splitting it
+    const cartRequest = prepareCartRequest(request, lineKindTics).request;
+    this.validateCartRequest(cartRequest, Number.POSITIVE_INFINITY);
+    const chunkRequests = chunkCartItem(cartRequest.items[0], chunkSize).map(
+      (cart): CalculateCartRequest => ({ items: [cart] })
+    );
+
+    const calculateChunks = async (
+      chunkBackend: CartBackend,
+      chunkOptions: RequestOptions | undefined
+    ): Promise<ChunkedCartResponse> =>
+      mergeCartChunks(
+        await mapWithConcurrency(chunkRequests, concurrency, (chunkRequest) =>
+          this.calculateCart(chunkRequest, { ...chunkOptions, backend: chunkBackend })
+        )
+      );
 
-    // Default: route to ZipTax API
-    return this.httpClient.post<CalculateCartResponse>('/calculate/cart', request);
+    const result = calculateChunks(backend, requestOptions);
+    if (shadow) {
+      // Shadow the whole cart once, rather than each chunk
+      this.shadowCart(
+        backend,
+        cartRequest,
+        requestOptions,
+        shadow,
+        result.then(({ response }) => response),
+        async (shadowBackend, shadowOptions) =>
+          (await calculateChunks(shadowBackend, shadowOptions)).response
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Calculate sales tax for a shopping cart and return the result in one shape
+   * regardless of the backend used.
+   *
+   * The backend is chosen as in calculateCart. ZipTax responses are completed with
+   * the request's currency and TICs, parsed structured addresses, and the time
+   * of the calculation as the transaction date. The allocation of discount
+   * lines to product lines is returned in `discounts` on each cart.
+   *
+   * @param request - Cart with line items, addresses, and currency
+   * @param options - Backend selection and per-call request options (signal, timeout, retryOptions, headers)
+   * @returns Normalized cart result, with the backend's response in `raw`
+   *
+   * @example
+   * ```typescript
+   * const result = await client.calculateCartNormalized(request);
+   * for (const line of result.items[0].lineItems) {
+   *   console.log(`${line.index} ${line.itemId} (TIC ${line.tic}): ${line.tax.amount}`);
+   * }
+   * ```
+   */
+  async calculateCartNormalized(
+    request: TypedCalculateCartRequest,
+    options?: CalculateCartOptions
+  ): Promise<NormalizedCartResponse> {
+    const transactionDate = new Date().toISOString();
+    const { request: cartRequest, discounts } = prepareCartRequest(request, options?.lineKindTics);
+    const response = await this.calculateCart(cartRequest, options);
+    return normalizeCartResponse(response, { request: cartRequest, transactionDate, discounts });
+  }
+
+  /**
+   * Build the v60 query parameters for an address lookup, with defaults applied
+   */
+  private addressLookupParams(params: GetSalesTaxByAddressParams): Record<string, unknown> {
+    return {
+      address: params.address,
+      taxabilityCode: params.taxabilityCode,
+      countryCode: params.countryCode || 'USA',
+      historical: params.historical,
+      format: params.format || 'json',
+    };
+  }
+
+  /**
+   * Make a v60 rate lookup, served from the response cache when enabled
+   */
+  private lookup<T>(params: Record<string, unknown>, options?: LookupOptions): Promise<T> {
+    const { cache: mode, ...requestOptions } = options ?? {};
+    const load = (background: boolean): Promise<T> =>
+      this.httpClient.get<T>('/request/v60/', {
+        // Background refreshes outlive the call, so they must not be cancelled with it
+        ...(background ? { ...requestOptions, signal: undefined } : requestOptions),
+        params,
+      });
+
+    if (!this.responseCache) {
+      return load(false);
+    }
+    return this.responseCache.fetch(createCacheKey('/request/v60/', params), load, mode);
   }
 
   /**
    * Validate the cart request structure
    */
-  private validateCartRequest(request: CalculateCartRequest): void {
+  private validateCartRequest(
+    request: CalculateCartRequest,
+    maxLineItems = MAX_CART_LINE_ITEMS
+  ): void {
     validateRequired(request.items, 'items');
 
     if (!Array.isArray(request.items) || request.items.length !== 1) {
-      throw new ZiptaxValidationError('items array must contain exactly 1 cart element');
+      throw new ZiptaxValidationError(
+        'items array must contain exactly 1 cart element; use calculateCarts for many carts'
+      );
     }
 
     const cart = request.items[0];
@@ -296,28 +876,162 @@ export class ZiptaxClient {
       throw new ZiptaxValidationError('lineItems must contain at least 1 item');
     }
 
-    if (cart.lineItems.length > 250) {
-      throw new ZiptaxValidationError('lineItems must not exceed 250 items');
+    if (cart.lineItems.length > maxLineItems) {
+      throw new ZiptaxValidationError(
+        `lineItems must not exceed ${MAX_CART_LINE_ITEMS} items; use calculateCartInChunks for larger carts`
+      );
     }
 
     for (const item of cart.lineItems) {
-      validateRequired(item.itemId, 'lineItems[].itemId');
+      validateCartLineItem(item);
+    }
+  }
 
-      if (typeof item.price !== 'number' || !Number.isFinite(item.price) || item.price <= 0) {
-        throw new ZiptaxValidationError(
-          'lineItems[].price must be a finite positive number greater than 0'
-        );
-      }
-
-      if (
-        typeof item.quantity !== 'number' ||
-        !Number.isFinite(item.quantity) ||
-        item.quantity <= 0
-      ) {
-        throw new ZiptaxValidationError(
-          'lineItems[].quantity must be a finite positive number greater than 0'
-        );
-      }
+  /**
+   * Calculate a validated cart whose prices include tax.
+   *
+   * The cart is first sent at its gross prices to find each line's rate, then
+   * at the net prices backed out with those rates. If the net prices change
+   * the rates, the net prices are recomputed and sent again, up to
+   * maxIterations calls in total. Only the final cart is shadowed, and the
+   * cart ids of the earlier calls are returned as discarded.
+   */
+  private async calculateCartTaxInclusive(
+    backend: CartBackend,
+    request: CalculateCartRequest,
+    options: RequestOptions,
+    maxIterations = 3,
+    shadow?: CartShadowOptions
+  ): Promise<TaxInclusiveCartResult> {
+    if (!Number.isInteger(maxIterations) || maxIterations < 2) {
+      throw new ZiptaxValidationError('maxIterations must be an integer of at least 2');
+    }
+    const lineCount = request.items[0].lineItems.length;
+
+    let sent = request;
+    let response = await this.sendCart(backend, sent, options);
+    let rates = getLineRates(response, lineCount);
+    let iterations = 1;
+    // Tax-free lines need no net prices, so gross prices are final if nothing is taxed
+    let converged = rates.every((rate) => rate === 0);
+
+    const discardedCartIds: string[] = [];
+    while (!converged && iterations < maxIterations) {
+      discardedCartIds.push(response.items[0]?.cartId ?? '');
+      sent = toNetPrices(request, rates);
+      response = await this.sendCart(backend, sent, options);
+      iterations++;
+
+      const netRates = getLineRates(response, lineCount);
+      converged = netRates.every((rate, i) => rate === rates[i]);
+      rates = netRates;
+    }
+
+    if (shadow) {
+      this.shadowCart(backend, sent, options, shadow, Promise.resolve(response));
+    }
+    return reconcileTaxInclusiveCart(
+      request,
+      sent,
+      response,
+      iterations,
+      converged,
+      discardedCartIds
+    );
+  }
+
+  /**
+   * Send a validated cart to a backend
+   */
+  private sendCart(
+    backend: CartBackend,
+    request: CalculateCartRequest,
+    options?: RequestOptions
+  ): Promise<CalculateCartResponse | TaxCloudCalculateCartResponse> {
+    if (backend === 'taxcloud') {
+      return this.calculateCartTaxCloud(request, options);
+    }
+    return this.httpClient.post<CalculateCartResponse>('/calculate/cart', request, options);
+  }
+
+  /**
+   * Send a cart to the backend other than the primary one in the background,
+   * and report where its result differs from the primary result. Nothing is
+   * reported if the primary call fails. `send` replaces sendCart, e.g. to
+   * send the cart in chunks, and is given the same request options.
+   */
+  private shadowCart(
+    primaryBackend: CartBackend,
+    request: CalculateCartRequest,
+    options: RequestOptions | undefined,
+    shadowOptions: CartShadowOptions,
+    primary: Promise<CalculateCartResponse | TaxCloudCalculateCartResponse>,
+    send?: (
+      backend: CartBackend,
+      options: RequestOptions | undefined
+    ) => Promise<CalculateCartResponse | TaxCloudCalculateCartResponse>
+  ): void {
+    const shadowBackend: CartBackend = primaryBackend === 'ziptax' ? 'taxcloud' : 'ziptax';
+    const transactionDate = new Date().toISOString();
+    const shadow = (async (): Promise<CalculateCartResponse | TaxCloudCalculateCartResponse> => {
+      const backend = this.resolveCartBackend(shadowBackend);
+      return send ? send(backend, options) : this.sendCart(backend, request, options);
+    })();
+
+    void Promise.allSettled([primary, shadow])
+      .then(([primaryResult, shadowResult]) => {
+        if (primaryResult.status === 'rejected') {
+          return;
+        }
+        if (shadowResult.status === 'rejected') {
+          const reason: unknown = shadowResult.reason;
+          shadowOptions.onError?.({
+            primaryBackend,
+            shadowBackend,
+            request,
+            error: reason instanceof Error ? reason : new Error(String(reason)),
+          });
+          return;
+        }
+
+        const normalizedPrimary = normalizeCartResponse(primaryResult.value, {
+          request,
+          transactionDate,
+        });
+        const normalizedShadow = normalizeCartResponse(shadowResult.value, {
+          request,
+          transactionDate,
+        });
+        const comparison = compareCartResults(normalizedPrimary, normalizedShadow, shadowOptions);
+        if (comparison.differences.length > 0 || comparison.unmatchedItemIds.length > 0) {
+          shadowOptions.onDifference?.({
+            primaryBackend,
+            shadowBackend,
+            request,
+            primary: normalizedPrimary,
+            shadow: normalizedShadow,
+            ...comparison,
+          });
+        }
+      })
+      // Errors thrown by the callbacks must not surface as unhandled rejections
+      .catch(() => undefined);
+  }
+
+  /**
+   * Resolve the backend a cart is calculated with
+   */
+  private resolveCartBackend(backend: CartBackendOption): CartBackend {
+    switch (backend) {
+      case 'ziptax':
+        return 'ziptax';
+      case 'taxcloud':
+        this.verifyTaxCloudCredentials();
+        return 'taxcloud';
+      case 'auto':
+        return this.taxCloudHttpClient && this.config.taxCloudConnectionId ? 'taxcloud' : 'ziptax';
+      default:
+        throw new ZiptaxValidationError("backend must be 'ziptax', 'taxcloud' or 'auto'");
     }
   }
 
@@ -327,13 +1041,18 @@ export class ZiptaxClient {
    * maps taxabilityCode to tic, and adds 0-based index to line items.
    */
   private async calculateCartTaxCloud(
-    request: CalculateCartRequest
+    request: CalculateCartRequest,
+    options?: RequestOptions
   ): Promise<TaxCloudCalculateCartResponse> {
     const transformedBody = this.transformCartForTaxCloud(request);
     const connectionId = this.config.taxCloudConnectionId!;
     const path = `/tax/connections/${connectionId}/carts`;
 
-    return this.taxCloudHttpClient!.post<TaxCloudCalculateCartResponse>(path, transformedBody);
+    return this.taxCloudHttpClient!.post<TaxCloudCalculateCartResponse>(
+      path,
+      transformedBody,
+      options
+    );
   }
 
   /**
@@ -384,9 +1103,10 @@ export class ZiptaxClient {
   /**
    * Create a new TaxCloud order
    * @param request - Order creation request
+   * @param options - Per-call request options (signal, timeout, retryOptions, headers)
    * @returns OrderResponse with created order details
    */
-  async createOrder(request: CreateOrderRequest): Promise<OrderResponse> {
+  async createOrder(request: CreateOrderRequest, options?: RequestOptions): Promise<OrderResponse> {
     this.verifyTaxCloudCredentials();
 
     // Validate required fields
@@ -398,15 +1118,16 @@ export class ZiptaxClient {
     const connectionId = this.config.taxCloudConnectionId!;
     const path = `/tax/connections/${connectionId}/orders`;
 
-    return this.taxCloudHttpClient!.post<OrderResponse>(path, request);
+    return this.taxCloudHttpClient!.post<OrderResponse>(path, request, options);
   }
 
   /**
    * Get an existing TaxCloud order by ID
    * @param orderId - Unique order identifier
+   * @param options - Per-call request options (signal, timeout, retryOptions, headers)
    * @returns OrderResponse with order details
    */
-  async getOrder(orderId: string): Promise<OrderResponse> {
+  async getOrder(orderId: string, options?: RequestOptions): Promise<OrderResponse> {
     this.verifyTaxCloudCredentials();
 
     // Validate required fields
@@ -415,16 +1136,21 @@ export class ZiptaxClient {
     const connectionId = this.config.taxCloudConnectionId!;
     const path = `/tax/connections/${connectionId}/orders/${orderId}`;
 
-    return this.taxCloudHttpClient!.get<OrderResponse>(path);
+    return this.taxCloudHttpClient!.get<OrderResponse>(path, options);
   }
 
   /**
    * Update an existing TaxCloud order
    * @param orderId - Unique order identifier
    * @param request - Order update request
+   * @param options - Per-call request options (signal, timeout, retryOptions, headers)
    * @returns OrderResponse with updated order details
    */
-  async updateOrder(orderId: string, request: UpdateOrderRequest): Promise<OrderResponse> {
+  async updateOrder(
+    orderId: string,
+    request: UpdateOrderRequest,
+    options?: RequestOptions
+  ): Promise<OrderResponse> {
     this.verifyTaxCloudCredentials();
 
     // Validate required fields
@@ -434,18 +1160,20 @@ export class ZiptaxClient {
     const connectionId = this.config.taxCloudConnectionId!;
     const path = `/tax/connections/${connectionId}/orders/${orderId}`;
 
-    return this.taxCloudHttpClient!.patch<OrderResponse>(path, request);
+    return this.taxCloudHttpClient!.patch<OrderResponse>(path, request, options);
   }
 
   /**
    * Refund a TaxCloud order
    * @param orderId - Unique order identifier
    * @param request - Refund request with items to refund
+   * @param options - Per-call request options (signal, timeout, retryOptions, headers)
    * @returns Array of RefundTransactionResponse
    */
   async refundOrder(
     orderId: string,
-    request?: RefundTransactionRequest
+    request?: RefundTransactionRequest,
+    options?: RequestOptions
   ): Promise<RefundTransactionResponse[]> {
     this.verifyTaxCloudCredentials();
 
@@ -456,7 +1184,7 @@ export class ZiptaxClient {
     const path = `/tax/connections/${connectionId}/orders/refunds/${orderId}`;
 
     // Empty or omitted items means full refund per TaxCloud API spec
-    return this.taxCloudHttpClient!.post<RefundTransactionResponse[]>(path, request || {});
+    return this.taxCloudHttpClient!.post<RefundTransactionResponse[]>(path, request || {}, options);
   }
 
   /**
@@ -465,9 +1193,13 @@ export class ZiptaxClient {
    * credentials) into a finalized order for tax filing.
    *
    * @param request - Cart-to-order request containing cartId and orderId
+   * @param options - Per-call request options (signal, timeout, retryOptions, headers)
    * @returns OrderResponse with created order details
    */
-  async createOrderFromCart(request: CreateOrderFromCartRequest): Promise<OrderResponse> {
+  async createOrderFromCart(
+    request: CreateOrderFromCartRequest,
+    options?: RequestOptions
+  ): Promise<OrderResponse> {
     this.verifyTaxCloudCredentials();
 
     // Validate required fields
@@ -477,21 +1209,32 @@ export class ZiptaxClient {
     const connectionId = this.config.taxCloudConnectionId!;
     const path = `/tax/connections/${connectionId}/carts/orders`;
 
-    return this.taxCloudHttpClient!.post<OrderResponse>(path, request);
+    return this.taxCloudHttpClient!.post<OrderResponse>(path, request, options);
   }
 
   /**
-   * Get the current configuration
+   * Get the current configuration.
+   * API keys are redacted unless the client was created with redact: false.
    */
   getConfig(): Readonly<ZiptaxConfig> {
+    const secret = (value?: string): string | undefined =>
+      value && this.config.redact ? REDACTED : value;
+
     return {
-      apiKey: this.config.apiKey,
+      apiKey: secret(this.config.apiKey)!,
       baseURL: this.config.baseURL,
       timeout: this.config.timeout,
       retryOptions: this.config.retryOptions,
       enableLogging: this.config.enableLogging,
+      logger: this.config.logger,
+      logLevel: this.config.logLevel,
+      redact: this.config.redact,
+      transport: this.config.transport,
+      circuitBreaker: this.config.circuitBreaker,
+      rateLimit: this.config.rateLimit,
+      cache: this.config.cache,
       taxCloudConnectionId: this.config.taxCloudConnectionId,
-      taxCloudAPIKey: this.config.taxCloudAPIKey,
+      taxCloudAPIKey: secret(this.config.taxCloudAPIKey),
     };
   }
 }
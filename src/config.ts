@@ -3,6 +3,14 @@
  */
 
 import { RetryOptions } from './utils/retry';
+import { TransportOption } from './utils/transport';
+import { Middleware } from './utils/middleware';
+import { Logger, LogLevel } from './utils/logger';
+import { CircuitBreakerOptions } from './utils/circuit-breaker';
+import { RateLimitConfig } from './utils/rate-limiter';
+import { CacheOptions } from './utils/cache';
+import { BatchResult } from './utils/batch';
+import { V60PostalCodeResponse, V60Response } from './models';
 
 /**
  * Configuration options for ZipTax client
@@ -16,8 +24,43 @@ export interface ZiptaxConfig {
   timeout?: number;
   /** Retry configuration */
   retryOptions?: RetryOptions;
-  /** Enable request/response logging (default: false) */
+  /** Enable request/response logging to the console (default: false) */
   enableLogging?: boolean;
+  /**
+   * Structured logger for requests, responses and errors (enables logging when provided).
+   * Accepts winston/console-style loggers; wrap pino loggers with adaptPinoLogger().
+   */
+  logger?: Logger;
+  /** Minimum level to log (default: 'debug') */
+  logLevel?: LogLevel;
+  /**
+   * Redact API keys, customer addresses and customer IDs in logs and
+   * getConfig() output (default: true)
+   */
+  redact?: boolean;
+  /**
+   * HTTP transport used for both the ZipTax and TaxCloud backends (default: 'axios').
+   * Use 'fetch' for edge runtimes, or pass a factory returning a custom Transport.
+   */
+  transport?: TransportOption;
+  /** Middleware run for every request to both the ZipTax and TaxCloud backends */
+  middleware?: Middleware[];
+  /**
+   * Circuit breaker settings (disabled when omitted). The ZipTax and TaxCloud
+   * backends each get their own circuit, built from these settings.
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+  /**
+   * Client-side rate and concurrency limits, set separately for the ZipTax and
+   * TaxCloud backends. Calls over a limit wait in a queue instead of failing.
+   */
+  rateLimit?: RateLimitConfig;
+  /**
+   * Cache responses from getSalesTaxByAddress, getSalesTaxByGeoLocation and
+   * getRatesByPostalCode (disabled by default). Pass true for an in-memory
+   * cache with default settings.
+   */
+  cache?: CacheOptions | boolean;
   /** TaxCloud Connection ID (UUID format) - required for TaxCloud order management */
   taxCloudConnectionId?: string;
   /** TaxCloud API Key - required for TaxCloud order management */
@@ -31,6 +74,8 @@ export const DEFAULT_CONFIG = {
   baseURL: 'https://api.zip-tax.com',
   timeout: 30000,
   enableLogging: false,
+  logLevel: 'debug' as LogLevel,
+  redact: true,
 };
 
 /**
@@ -75,6 +120,59 @@ export interface GetRatesByPostalCodeParams {
   format?: 'json' | 'xml';
 }
 
+/**
+ * Location for historical rate lookups: an address or a geolocation
+ */
+export type HistoricalLocationParams =
+  | Pick<GetSalesTaxByAddressParams, 'address' | 'taxabilityCode' | 'countryCode'>
+  | Pick<GetSalesTaxByGeoLocationParams, 'lat' | 'lng' | 'countryCode'>;
+
+/**
+ * Parameters for GetRateHistory: an address or a geolocation, and a month range
+ */
+export type GetRateHistoryParams = HistoricalLocationParams & {
+  /** First month of the range (YYYYMM format, e.g., '202301') */
+  from: string;
+  /** Last month of the range, inclusive (YYYYMM format, e.g., '202312') */
+  to: string;
+};
+
+/**
+ * Parameters for CompareRates: an address or a geolocation, and the two months to compare
+ */
+export type CompareRatesParams = HistoricalLocationParams & {
+  /** Earlier month (YYYYMM format, e.g., '202301') */
+  from: string;
+  /** Later month (YYYYMM format, e.g., '202401') */
+  to: string;
+};
+
+/**
+ * Input for a streaming lookup: an address, a geolocation or a postal code
+ */
+export type LookupInput =
+  | GetSalesTaxByAddressParams
+  | GetSalesTaxByGeoLocationParams
+  | GetRatesByPostalCodeParams;
+
+/**
+ * Response returned for a lookup input
+ */
+export type LookupResponse<P extends LookupInput> = P extends GetRatesByPostalCodeParams
+  ? V60PostalCodeResponse
+  : V60Response;
+
+/**
+ * Outcome of one streaming lookup, with the position of its input in the source
+ */
+export type LookupResult<P extends LookupInput = LookupInput> = BatchResult<
+  P,
+  LookupResponse<P>
+> & {
+  /** Zero-based position of the input in the source */
+  index: number;
+};
+
 /**
  * Query parameters for GetAccountMetrics
  */
@@ -83,17 +83,79 @@ export class ZiptaxNetworkError extends ZiptaxError {
 }
 
 /**
- * Error thrown when maximum retry attempts are exceeded
+ * Error thrown when a request is cancelled through its AbortSignal
+ */
+export class ZiptaxAbortError extends ZiptaxError {
+  public reason?: unknown;
+
+  constructor(message: string = 'Request was aborted.', reason?: unknown) {
+    super(message);
+    this.name = 'ZiptaxAbortError';
+    this.reason = reason;
+    Object.setPrototypeOf(this, ZiptaxAbortError.prototype);
+  }
+}
+
+/**
+ * Error thrown without sending a request while a backend's circuit breaker is open
+ */
+export class ZiptaxCircuitOpenError extends ZiptaxError {
+  public backend: string;
+  public retryAfter?: number;
+
+  constructor(message: string, backend: string, retryAfter?: number) {
+    super(message);
+    this.name = 'ZiptaxCircuitOpenError';
+    this.backend = backend;
+    this.retryAfter = retryAfter;
+    Object.setPrototypeOf(this, ZiptaxCircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a call cannot be queued by the client-side rate limiter:
+ * the queue is full, or the call waited longer than the queue timeout
+ */
+export class ZiptaxQueueError extends ZiptaxError {
+  public backend: string;
+  public reason: 'queue-full' | 'queue-timeout';
+
+  constructor(message: string, backend: string, reason: 'queue-full' | 'queue-timeout') {
+    super(message);
+    this.name = 'ZiptaxQueueError';
+    this.backend = backend;
+    this.reason = reason;
+    Object.setPrototypeOf(this, ZiptaxQueueError.prototype);
+  }
+}
+
+/**
+ * A single failed attempt recorded by retryWithBackoff
+ */
+export interface RetryAttempt {
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  /** Error raised by the attempt */
+  error: Error;
+  /** Delay in milliseconds waited before the next attempt (unset for the final attempt) */
+  delay?: number;
+}
+
+/**
+ * Error thrown when retries run out: maximum attempts exceeded, the retry budget
+ * is exhausted, or the server asks to wait longer than allowed
  */
 export class ZiptaxRetryError extends ZiptaxError {
   public attempts: number;
   public lastError?: Error;
+  public history: RetryAttempt[];
 
-  constructor(message: string, attempts: number, lastError?: Error) {
+  constructor(message: string, attempts: number, lastError?: Error, history: RetryAttempt[] = []) {
     super(message);
     this.name = 'ZiptaxRetryError';
     this.attempts = attempts;
     this.lastError = lastError;
+    this.history = history;
     Object.setPrototypeOf(this, ZiptaxRetryError.prototype);
   }
 }
@@ -13,6 +13,12 @@ export type {
   GetSalesTaxByGeoLocationParams,
   GetRatesByPostalCodeParams,
   GetAccountMetricsParams,
+  GetRateHistoryParams,
+  CompareRatesParams,
+  HistoricalLocationParams,
+  LookupInput,
+  LookupResponse,
+  LookupResult,
 } from './config';
 
 // Export ZipTax response models
@@ -79,9 +85,166 @@ export {
   ZiptaxRateLimitError,
   ZiptaxValidationError,
   ZiptaxNetworkError,
+  ZiptaxAbortError,
+  ZiptaxCircuitOpenError,
+  ZiptaxQueueError,
   ZiptaxRetryError,
   ZiptaxConfigurationError,
 } from './exceptions';
+export type { RetryAttempt } from './exceptions';
 
-// Export retry options type
-export type { RetryOptions } from './utils';
+// Export retry utilities and per-call request options types
+export { RetryBudget } from './utils';
+export type { RetryOptions, RetryBudgetOptions, JitterStrategy, RequestOptions } from './utils';
+
+// Export batch and streaming lookup types
+export type { BatchOptions, BatchProgress, BatchResult, StreamOptions } from './utils';
+
+// Export rate history types and limits
+export type { RateHistory, RateHistoryEntry, RateHistoryOptions, RateHistoryRange } from './utils';
+export { MAX_RATE_HISTORY_MONTHS } from './utils';
+
+// Export rate diff utilities
+export { diffRates } from './utils';
+export type { BaseRateChange, RateDiff, TaxSummaryChange, ValueChange } from './utils';
+
+// Export rate change monitoring
+export {
+  RateMonitor,
+  MemorySnapshotStore,
+  JsonFileSnapshotStore,
+  compareSnapshots,
+  snapshotFromResponse,
+  snapshotFromPostalCodeResponse,
+} from './utils';
+export type {
+  RateChange,
+  RateChangeEvent,
+  RateCheckSummary,
+  RateMonitorClient,
+  RateMonitorErrorEvent,
+  RateMonitorOptions,
+  RateSnapshot,
+  SnapshotStore,
+  WatchedLocation,
+} from './utils';
+
+// Export offline cart calculation
+export { calculateCartOffline, getCartRates, reconcileCartTax } from './utils';
+export type { CartRates, OfflineCartOptions, TaxAdjustment, TaxReconciliation } from './utils';
+
+// Export normalized cart results
+export { normalizeCartResponse, isTaxCloudCartResponse, isZipTaxCartResponse } from './utils';
+export type {
+  CalculateCartOptions,
+  CalculateCartsOptions,
+  CartBackend,
+  CartBackendOption,
+  NormalizeCartOptions,
+  NormalizedCartAddress,
+  NormalizedCartItem,
+  NormalizedCartLineItem,
+  NormalizedCartResponse,
+} from './utils';
+
+// Export cart line kinds
+export {
+  prepareCartLines,
+  prepareCartRequest,
+  CART_LINE_KINDS,
+  DEFAULT_LINE_KIND_TICS,
+} from './utils';
+export type {
+  CartLineKind,
+  CartLineOptions,
+  DiscountAllocation,
+  LineKindTics,
+  PreparedCartLines,
+  PreparedCartRequest,
+  TypedCalculateCartRequest,
+  TypedCartItem,
+  TypedCartLineItem,
+} from './utils';
+
+// Export cart builder
+export { CartBuilder } from './utils';
+export type { CartBuilderIssue, CartBuilderOptions } from './utils';
+
+// Export tax-inclusive cart pricing
+export { getLineRates, reconcileTaxInclusiveCart, toNetPrices } from './utils';
+export type {
+  TaxInclusiveCartOptions,
+  TaxInclusiveCartResult,
+  TaxInclusiveLine,
+  TaxInclusiveReconciliation,
+} from './utils';
+
+// Export cart chunking
+export { chunkCartItem, mergeCartChunks, MAX_CART_LINE_ITEMS } from './utils';
+export type { CartChunk, ChunkedCartOptions, ChunkedCartResponse } from './utils';
+
+// Export cart shadow comparison
+export { compareCartResults } from './utils';
+export type {
+  CartComparison,
+  CartComparisonOptions,
+  CartLineDifference,
+  CartLineTax,
+  CartShadowErrorEvent,
+  CartShadowEvent,
+  CartShadowOptions,
+} from './utils';
+
+// Export cart summary utilities
+export { summarizeCart, getCartCurrency } from './utils';
+export type {
+  CartRateGroup,
+  CartSummary,
+  CartSummaryGroup,
+  CartSummaryOptions,
+  CartTicGroup,
+} from './utils';
+
+// Export rounding utilities
+export { roundAmount, resolveRoundingPolicy } from './utils';
+export type { RoundingLevel, RoundingMode, RoundingPolicy } from './utils';
+
+// Export money utilities
+export { Money, sumLineItems, refundLineAmounts } from './utils';
+export type { CurrencyCode, LineItemTotals, MoneyLineItem } from './utils';
+
+// Export response caching
+export { MemoryCacheStore, createCacheKey } from './utils';
+export type {
+  CacheEntry,
+  CacheMode,
+  CacheOptions,
+  CacheStore,
+  LookupOptions,
+  MemoryCacheStoreOptions,
+} from './utils';
+
+// Export circuit breaker types
+export type { CircuitBreakerOptions, CircuitState, CircuitStateChangeEvent } from './utils';
+
+// Export rate limit types
+export type { RateLimitConfig, RateLimitOptions } from './utils';
+
+// Export logging utilities
+export { adaptPinoLogger, consoleLogger, redact, REDACTED } from './utils';
+export type { Logger, LogLevel, LogFields, PinoLikeLogger } from './utils';
+
+// Export middleware types
+export type { Middleware, MiddlewareContext } from './utils';
+
+// Export transports
+export { AxiosTransport, FetchTransport } from './utils';
+export type {
+  Transport,
+  TransportFactory,
+  TransportOption,
+  TransportOptions,
+  TransportRequest,
+  TransportResponse,
+  HTTPMethod,
+} from './utils';
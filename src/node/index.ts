@@ -0,0 +1,8 @@
+/**
+ * Node.js-only entry point (@ziptax/node-sdk/node)
+ *
+ * Helpers that depend on Node built-in modules live here, so the root entry
+ * point also loads in edge runtimes.
+ */
+
+export { createConcurrentTransform, createLookupStream } from './stream';
@@ -0,0 +1,89 @@
+/**
+ * Node stream interface for bulk lookups
+ */
+
+import { Transform } from 'stream';
+import { LookupInput } from '../config';
+import { LookupMethods, settleLookup, StreamOptions } from '../utils/stream';
+import { validateConcurrency } from '../utils/validation';
+
+/**
+ * Create an object-mode Transform stream that maps each chunk through an async
+ * function with at most `concurrency` calls in flight. Results are pushed as
+ * they finish. Writes are held while all slots are busy, so upstream streams
+ * are paused by the usual backpressure. `fn` should not reject; a rejection
+ * destroys the stream.
+ *
+ * @throws ZiptaxValidationError if concurrency is not a positive integer
+ */
+export function createConcurrentTransform<T, R>(
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Transform {
+  validateConcurrency(concurrency);
+  let inFlight = 0;
+  let nextIndex = 0;
+  let heldCallback: (() => void) | undefined;
+  let flushCallback: (() => void) | undefined;
+
+  const release = (): void => {
+    inFlight--;
+    const callback = heldCallback;
+    heldCallback = undefined;
+    callback?.();
+    if (inFlight === 0) {
+      flushCallback?.();
+    }
+  };
+
+  return new Transform({
+    objectMode: true,
+    transform(chunk: T, _encoding, callback): void {
+      inFlight++;
+      fn(chunk, nextIndex++).then(
+        (result) => {
+          this.push(result);
+          release();
+        },
+        (error: Error) => this.destroy(error)
+      );
+
+      if (inFlight < concurrency) {
+        callback();
+      } else {
+        heldCallback = callback;
+      }
+    },
+    flush(callback): void {
+      if (inFlight === 0) {
+        callback();
+      } else {
+        flushCallback = callback;
+      }
+    },
+  });
+}
+
+/**
+ * Create an object-mode Transform stream that looks up rates for each input
+ * written to it and emits a LookupResult for each as it finishes.
+ *
+ * Writes are held while `concurrency` lookups are in flight, so piping a large
+ * source applies backpressure instead of buffering it.
+ *
+ * @param client - Client to look up rates with
+ * @param options - Concurrency and per-call request options
+ *
+ * @example
+ * ```typescript
+ * import { createLookupStream } from '@ziptax/node-sdk/node';
+ *
+ * await pipeline(csvRows, createLookupStream(client, { concurrency: 10 }), resultWriter);
+ * ```
+ */
+export function createLookupStream(client: LookupMethods, options?: StreamOptions): Transform {
+  const { concurrency, ...lookupOptions } = options ?? {};
+  return createConcurrentTransform(concurrency ?? 5, (params: LookupInput, index) =>
+    settleLookup(client, params, index, lookupOptions)
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * Helpers for running many lookups with bounded concurrency
+ */
+
+import { LookupOptions } from './cache';
+import { validateConcurrency } from './validation';
+
+/**
+ * Progress reported while a batch runs
+ */
+export interface BatchProgress {
+  /** Inputs finished so far, successfully or not */
+  completed: number;
+  /** Inputs that failed so far */
+  failed: number;
+  /** Total number of inputs */
+  total: number;
+}
+
+/**
+ * Options for batch lookups. Request options (signal, timeout, retryOptions,
+ * headers, cache) apply to every lookup in the batch.
+ */
+export interface BatchOptions extends LookupOptions {
+  /** Maximum number of lookups in flight at once (default: 5) */
+  concurrency?: number;
+  /** Called each time an input finishes */
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+/**
+ * Outcome of one input in a batch, in the shape of Promise.allSettled results
+ */
+export type BatchResult<P, T> =
+  | { status: 'fulfilled'; params: P; value: T }
+  | { status: 'rejected'; params: P; error: Error };
+
+/**
+ * Map items through an async function with at most `concurrency` calls in flight.
+ * Results keep the order of the input items.
+ *
+ * @throws ZiptaxValidationError if concurrency is not a positive integer
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  validateConcurrency(concurrency);
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.min(concurrency, items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Run a lookup for every input, sharing one lookup between identical inputs.
+ * Failures are reported per input and never reject the batch.
+ *
+ * @param inputs - Lookup inputs
+ * @param keyOf - Returns the same key for inputs that should share a lookup, given the input and its index
+ * @param lookup - Performs a single lookup
+ * @param options - Concurrency and progress options; errors thrown by onProgress are ignored
+ * @throws ZiptaxValidationError if concurrency is not a positive integer
+ */
+export async function runBatch<P, T>(
+  inputs: readonly P[],
+  keyOf: (input: P, index: number) => string,
+  lookup: (input: P) => Promise<T>,
+  options: Pick<BatchOptions, 'concurrency' | 'onProgress'> = {}
+): Promise<BatchResult<P, T>[]> {
+  // Group duplicate inputs so each unique input is looked up once
+  const groups = new Map<string, number[]>();
+  inputs.forEach((input, index) => {
+    const key = keyOf(input, index);
+    const indexes = groups.get(key);
+    if (indexes) {
+      indexes.push(index);
+    } else {
+      groups.set(key, [index]);
+    }
+  });
+
+  const results: BatchResult<P, T>[] = new Array(inputs.length);
+  const progress: BatchProgress = { completed: 0, failed: 0, total: inputs.length };
+
+  await mapWithConcurrency([...groups.values()], options.concurrency ?? 5, async (indexes) => {
+    let outcome: { value: T } | { error: Error };
+    try {
+      outcome = { value: await lookup(inputs[indexes[0]]) };
+    } catch (error) {
+      outcome = { error: error instanceof Error ? error : new Error(String(error)) };
+    }
+
+    for (const index of indexes) {
+      results[index] =
+        'value' in outcome
+          ? { status: 'fulfilled', params: inputs[index], value: outcome.value }
+          : { status: 'rejected', params: inputs[index], error: outcome.error };
+    }
+    progress.completed += indexes.length;
+    if ('error' in outcome) {
+      progress.failed += indexes.length;
+    }
+    try {
+      options.onProgress?.({ ...progress });
+    } catch {
+      // Progress reporting must not fail the batch
+    }
+  });
+
+  return results;
+}
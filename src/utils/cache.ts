@@ -0,0 +1,255 @@
+/**
+ * Response caching for rate lookups
+ */
+
+import { ZiptaxAbortError } from '../exceptions';
+import { RequestOptions } from './http';
+
+/**
+ * A cached response
+ */
+export interface CacheEntry<T = unknown> {
+  /** Cached response body */
+  value: T;
+  /** Time (ms since epoch) until which the entry is fresh */
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for cached responses.
+ *
+ * Implement this interface to share a cache between processes (e.g., Redis).
+ * Methods may be synchronous or return promises.
+ */
+export interface CacheStore {
+  /** Get an entry, or undefined if it is missing or has been evicted */
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  /** Store an entry, keeping it for at most ttl milliseconds */
+  set(key: string, entry: CacheEntry, ttl: number): void | Promise<void>;
+  /** Remove an entry */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * How a call uses the cache.
+ *
+ * - 'default': serve fresh (or stale-while-revalidate) entries, otherwise fetch and store
+ * - 'refresh': always fetch, then store the new response
+ * - 'bypass': always fetch, without reading or writing the cache
+ */
+export type CacheMode = 'default' | 'refresh' | 'bypass';
+
+/**
+ * Per-call options accepted by the cached rate lookup methods
+ */
+export interface LookupOptions extends RequestOptions {
+  /** How this call uses the response cache (default: 'default') */
+  cache?: CacheMode;
+}
+
+export interface CacheOptions {
+  /** Cache store (default: a MemoryCacheStore holding 1000 entries) */
+  store?: CacheStore;
+  /** Time in milliseconds a response stays fresh (default: 3600000) */
+  ttl?: number;
+  /**
+   * Time in milliseconds after expiry during which a stale response is served
+   * while it is refreshed in the background (default: 0)
+   */
+  staleWhileRevalidate?: number;
+}
+
+export interface MemoryCacheStoreOptions {
+  /** Maximum number of entries; the least recently used entry is evicted first (default: 1000) */
+  maxEntries?: number;
+}
+
+/**
+ * In-memory least-recently-used cache store
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly maxEntries: number;
+  private readonly entries = new Map<string, { entry: CacheEntry; removeAt: number }>();
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  /**
+   * Number of entries currently stored
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const stored = this.entries.get(key);
+    if (!stored) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (Date.now() >= stored.removeAt) {
+      return undefined;
+    }
+    // Re-insert to mark as most recently used
+    this.entries.set(key, stored);
+    return stored.entry;
+  }
+
+  set(key: string, entry: CacheEntry, ttl: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { entry, removeAt: Date.now() + ttl });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Normalize a single query parameter value for use in a cache key
+ */
+function normalizeParam(name: string, value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const text = String(value).trim().replace(/\s+/g, ' ');
+  if (text === '') {
+    return undefined;
+  }
+  if (name === 'lat' || name === 'lng') {
+    const number = Number(text);
+    return isNaN(number) ? text : String(number);
+  }
+  return text.toLowerCase();
+}
+
+/**
+ * Build a cache key from lookup query parameters. Parameter order, surrounding
+ * whitespace, letter case and unset values do not change the key.
+ *
+ * @param prefix - Namespace for the key (e.g., the request path)
+ * @param params - Query parameters sent with the lookup
+ */
+export function createCacheKey(prefix: string, params: Record<string, unknown>): string {
+  const parts = Object.keys(params)
+    .sort()
+    .map((name) => [name, normalizeParam(name, params[name])])
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}=${encodeURIComponent(value as string)}`);
+  return `${prefix}?${parts.join('&')}`;
+}
+
+/**
+ * Read-through response cache with stale-while-revalidate support.
+ *
+ * Every call gets its own copy of the response, so changing a result never
+ * changes the cached entry. Concurrent misses on the same key share one load.
+ */
+export class ResponseCache {
+  private readonly store: CacheStore;
+  private readonly ttl: number;
+  private readonly staleWhileRevalidate: number;
+  private readonly refreshing = new Set<string>();
+  private readonly loading = new Map<string, Promise<unknown>>();
+
+  constructor(options: CacheOptions = {}) {
+    this.store = options.store ?? new MemoryCacheStore();
+    this.ttl = options.ttl ?? 3600000;
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+  }
+
+  /**
+   * Get a response from the cache, or load and store it
+   * @param key - Cache key (see createCacheKey)
+   * @param load - Loads the response; `background` is true for stale-while-revalidate refreshes
+   * @param mode - How this call uses the cache (default: 'default')
+   */
+  async fetch<T>(
+    key: string,
+    load: (background: boolean) => Promise<T>,
+    mode: CacheMode = 'default'
+  ): Promise<T> {
+    if (mode === 'bypass') {
+      return load(false);
+    }
+
+    if (mode === 'default') {
+      const entry = await this.store.get(key);
+      const now = Date.now();
+      if (entry && now < entry.expiresAt) {
+        return structuredClone(entry.value as T);
+      }
+      if (entry && now < entry.expiresAt + this.staleWhileRevalidate) {
+        this.revalidate(key, load);
+        return structuredClone(entry.value as T);
+      }
+
+      const pending = this.loading.get(key) as Promise<T> | undefined;
+      if (pending) {
+        try {
+          return structuredClone(await pending);
+        } catch (error) {
+          // The caller that started the load cancelled it; this call loads on its own
+          if (!(error instanceof ZiptaxAbortError)) {
+            throw error;
+          }
+        }
+      }
+    }
+
+    return structuredClone(await this.loadAndSave(key, load));
+  }
+
+  /**
+   * Load and store a response, sharing the load with concurrent misses on the same key
+   */
+  private loadAndSave<T>(key: string, load: (background: boolean) => Promise<T>): Promise<T> {
+    const loading = load(false).then(async (value) => {
+      await this.save(key, value);
+      return value;
+    });
+    this.loading.set(key, loading);
+    const done = (): void => {
+      if (this.loading.get(key) === loading) {
+        this.loading.delete(key);
+      }
+    };
+    loading.then(done, done);
+    return loading;
+  }
+
+  /**
+   * Refresh an entry in the background, at most once at a time per key.
+   * Failures keep the stale entry in place.
+   */
+  private revalidate<T>(key: string, load: (background: boolean) => Promise<T>): void {
+    if (this.refreshing.has(key)) {
+      return;
+    }
+    this.refreshing.add(key);
+    load(true)
+      .then((value) => this.save(key, value))
+      .catch(() => undefined)
+      .finally(() => this.refreshing.delete(key));
+  }
+
+  private async save(key: string, value: unknown): Promise<void> {
+    await this.store.set(
+      key,
+      { value, expiresAt: Date.now() + this.ttl },
+      this.ttl + this.staleWhileRevalidate
+    );
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Offline cart tax calculation from previously fetched rates
+ */
+
+import { ZiptaxValidationError } from '../exceptions';
+import {
+  CalculateCartResponse,
+  CartItemResponse,
+  CartLineItemResponse,
+  TaxCloudCalculateCartResponse,
+  TaxCloudCartItemResponse,
+  V60PostalCodeResponse,
+  V60Response,
+} from '../models';
+import { CurrencyCode, Money } from './money';
+import { resolveRoundingPolicy, roundAmount, RoundingMode, RoundingPolicy } from './rounding';
+import { prepareCartLines, TypedCartItem, TypedCartLineItem } from './lines';
+
+export interface OfflineCartOptions {
+  /** Decimal places tax amounts are rounded to (default: 2) */
+  decimals?: number;
+  /**
+   * Rounding for tax amounts: a mode, or a policy that can also round once per
+   * invoice (default: 'half-up' per line). Invoice-level rounding always rounds
+   * to the currency's minor unit, ignoring `decimals`.
+   */
+  rounding?: RoundingMode | RoundingPolicy;
+  /** Ids of line items that are shipping charges, taxed only if shipping is taxable */
+  shippingItemIds?: string[];
+  /** Ids of line items that are services, taxed only if services are taxable */
+  serviceItemIds?: string[];
+}
+
+/**
+ * Sales tax rate and taxability rules taken from a rate lookup response
+ */
+export interface CartRates {
+  /** Total sales tax rate */
+  rate: number;
+  /** Whether shipping charges are taxable */
+  shippingTaxable: boolean;
+  /** Whether services are taxable */
+  serviceTaxable: boolean;
+}
+
+/**
+ * Get the sales tax rate and taxability rules from a rate lookup response.
+ *
+ * For address and geolocation responses the SALES_TAX summary rate is used,
+ * falling back to the sum of the jurisdiction rates. For postal code
+ * responses the first result is used.
+ *
+ * @throws ZiptaxValidationError if the response contains no rates
+ */
+export function getCartRates(response: V60Response | V60PostalCodeResponse): CartRates {
+  if ('results' in response) {
+    const result = response.results?.[0];
+    if (!result) {
+      throw new ZiptaxValidationError('rates response must contain at least 1 postal code result');
+    }
+    return {
+      rate: result.taxSales,
+      shippingTaxable: result.txbFreight === 'Y',
+      serviceTaxable: result.txbService === 'Y',
+    };
+  }
+
+  const summary = response.taxSummaries?.find((entry) => entry.taxType === 'SALES_TAX');
+  if (!summary && !response.baseRates?.length) {
+    throw new ZiptaxValidationError('rates response must contain a sales tax rate');
+  }
+  return {
+    rate: summary
+      ? summary.rate
+      : Number(
+          (response.baseRates ?? [])
+            .reduce((total, baseRate) => total + baseRate.rate, 0)
+            .toPrecision(15)
+        ),
+    shippingTaxable: response.shipping.taxable === 'Y',
+    serviceTaxable: response.service.taxable === 'Y',
+  };
+}
+
+/**
+ * Calculate cart tax locally from a previously fetched rate lookup response.
+ *
+ * Useful for previewing cart edits (quantity changes, item removals) without a
+ * server round trip. The result has the same shape as calculateCart's ZipTax
+ * response, with an empty cartId since nothing is stored server-side.
+ * Server-side calculateCart remains the source of truth.
+ *
+ * Product-specific taxability is not applied per line: look the rates up with
+ * a taxabilityCode to preview a cart of products sharing that code.
+ *
+ * Lines may have kinds (see prepareCartLines): shipping and handling lines are
+ * taxed only if the rates say shipping is taxable, and discount lines are
+ * allocated to the product lines before tax is calculated.
+ *
+ * @param rates - Response from getSalesTaxByAddress, getSalesTaxByGeoLocation or getRatesByPostalCode
+ * @param cart - A cart, or just its line items, optionally with line kinds
+ * @param options - Rounding and shipping/service line options
+ * @throws ZiptaxValidationError if the rates or a line item are invalid
+ */
+export function calculateCartOffline(
+  rates: V60Response | V60PostalCodeResponse,
+  cart: TypedCartItem | TypedCartLineItem[],
+  options: OfflineCartOptions = {}
+): CalculateCartResponse {
+  const { rate, shippingTaxable, serviceTaxable } = getCartRates(rates);
+  const currency = Array.isArray(cart) ? 'USD' : cart.currency.currencyCode;
+  const prepared = prepareCartLines(Array.isArray(cart) ? cart : cart.lineItems, { currency });
+  const lineItems = prepared.lineItems;
+  const shippingItemIds = new Set([
+    ...(options.shippingItemIds ?? []),
+    ...prepared.shippingItemIds,
+  ]);
+  const serviceItemIds = new Set(options.serviceItemIds ?? []);
+
+  const policy = resolveRoundingPolicy(options.rounding);
+  const taxedLines = lineItems.map((item) => {
+    const taxable =
+      (!shippingItemIds.has(item.itemId) || shippingTaxable) &&
+      (!serviceItemIds.has(item.itemId) || serviceTaxable);
+    return { price: item.price, quantity: item.quantity, tax: { rate: taxable ? rate : 0 } };
+  });
+  const amounts =
+    policy.level === 'invoice'
+      ? roundLineTaxes(taxedLines, policy, currency).map((amount) => amount.toNumber())
+      : taxedLines.map((line) =>
+          roundAmount(line.price * line.quantity * line.tax.rate, options.decimals, policy.mode)
+        );
+
+  const lineItemResponses = lineItems.map(
+    (item, i): CartLineItemResponse => ({
+      itemId: item.itemId,
+      price: item.price,
+      quantity: item.quantity,
+      tax: { rate: taxedLines[i].tax.rate, amount: amounts[i] },
+    })
+  );
+
+  return {
+    items: [
+      {
+        cartId: '',
+        customerId: Array.isArray(cart) ? '' : cart.customerId,
+        destination: Array.isArray(cart) ? { address: '' } : cart.destination,
+        origin: Array.isArray(cart) ? { address: '' } : cart.origin,
+        lineItems: lineItemResponses,
+      },
+    ],
+  };
+}
+
+/**
+ * A line tax amount changed by reconcileCartTax
+ */
+export interface TaxAdjustment {
+  /** Position of the cart in the response's items array */
+  cartIndex: number;
+  /** Position of the line in the cart's lineItems array */
+  lineIndex: number;
+  /** Line item id */
+  itemId: string;
+  /** Tax amount as returned */
+  before: number;
+  /** Tax amount under the rounding policy */
+  after: number;
+}
+
+/**
+ * Report of the differences between returned line taxes and a rounding policy
+ */
+export interface TaxReconciliation {
+  /** Rounding policy applied */
+  policy: Required<RoundingPolicy>;
+  /** Sum of the line tax amounts as returned */
+  returnedTax: number;
+  /** Sum of the line tax amounts under the policy */
+  expectedTax: number;
+  /** expectedTax minus returnedTax */
+  difference: number;
+  /** Lines whose tax amount was changed */
+  adjustments: TaxAdjustment[];
+}
+
+/**
+ * Get the currency of a calculateCart response. TaxCloud responses include
+ * the currency; ZipTax responses do not, so they are assumed to be in USD.
+ */
+export function getCartCurrency(
+  response: CalculateCartResponse | TaxCloudCalculateCartResponse
+): CurrencyCode {
+  const cart = response.items[0];
+  const currencyCode = cart && 'currency' in cart ? cart.currency.currencyCode : undefined;
+  return currencyCode === 'CAD' ? 'CAD' : 'USD';
+}
+
+/**
+ * Calculate line tax amounts under a rounding policy
+ */
+function roundLineTaxes(
+  lines: ReadonlyArray<{ price: number; quantity: number; tax: { rate: number } }>,
+  policy: Required<RoundingPolicy>,
+  currency: CurrencyCode
+): Money[] {
+  const unrounded = lines.map((line) => line.price * line.quantity * line.tax.rate);
+  if (policy.level === 'line') {
+    return unrounded.map((amount) => Money.of(amount, currency, policy.mode));
+  }
+  if (unrounded.every((amount) => amount === 0)) {
+    return unrounded.map(() => Money.zero(currency));
+  }
+  // Round the invoice once, then spread it in proportion to the unrounded line taxes
+  const total = Money.of(
+    unrounded.reduce((sum, amount) => sum + amount, 0),
+    currency,
+    policy.mode
+  );
+  return total.allocate(unrounded);
+}
+
+/**
+ * Apply a rounding policy to the line taxes of a calculateCart response.
+ *
+ * Each line's tax is recomputed from its price, quantity and returned rate.
+ * With invoice-level rounding, the cart's tax is rounded once and spread
+ * across the lines, which reconciles the penny differences between the summed
+ * line taxes and an invoice-level computation. Every changed line is reported.
+ *
+ * The response is not modified; a copy with the adjusted amounts is returned.
+ *
+ * @param response - ZipTax or TaxCloud calculateCart response
+ * @param rounding - Rounding mode or policy (default: 'half-up' per line)
+ * @param currency - Currency of the amounts (default: the TaxCloud response's currency, or 'USD')
+ * @returns The adjusted response and a report of the adjustments
+ *
+ * @example
+ * ```typescript
+ * const { response, reconciliation } = reconcileCartTax(await client.calculateCart(request), {
+ *   level: 'invoice',
+ *   mode: 'half-even',
+ * });
+ * for (const adjustment of reconciliation.adjustments) {
+ *   console.log(`${adjustment.itemId}: ${adjustment.before} -> ${adjustment.after}`);
+ * }
+ * ```
+ */
+export function reconcileCartTax<T extends CalculateCartResponse | TaxCloudCalculateCartResponse>(
+  response: T,
+  rounding?: RoundingMode | RoundingPolicy,
+  currency?: CurrencyCode
+): { response: T; reconciliation: TaxReconciliation } {
+  const policy = resolveRoundingPolicy(rounding);
+  const carts = response.items as Array<CartItemResponse | TaxCloudCartItemResponse>;
+  const cartCurrency = currency ?? getCartCurrency(response);
+
+  const adjustments: TaxAdjustment[] = [];
+  let returnedTax = Money.zero(cartCurrency);
+  let expectedTax = Money.zero(cartCurrency);
+
+  const items = carts.map((cart, cartIndex) => {
+    const amounts = roundLineTaxes(cart.lineItems, policy, cartCurrency);
+    const lineItems = cart.lineItems.map((line, lineIndex) => {
+      const after = amounts[lineIndex];
+      returnedTax = returnedTax.add(Money.of(line.tax.amount, cartCurrency));
+      expectedTax = expectedTax.add(after);
+      if (after.toNumber() === line.tax.amount) {
+        return line;
+      }
+      adjustments.push({
+        cartIndex,
+        lineIndex,
+        itemId: line.itemId,
+        before: line.tax.amount,
+        after: after.toNumber(),
+      });
+      return { ...line, tax: { ...line.tax, amount: after.toNumber() } };
+    });
+    return { ...cart, lineItems };
+  });
+
+  return {
+    response: { ...response, items } as T,
+    reconciliation: {
+      policy,
+      returnedTax: returnedTax.toNumber(),
+      expectedTax: expectedTax.toNumber(),
+      difference: expectedTax.subtract(returnedTax).toNumber(),
+      adjustments,
+    },
+  };
+}
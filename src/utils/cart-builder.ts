@@ -0,0 +1,215 @@
+/**
+ * Fluent builder for cart calculation requests
+ */
+
+import { ZiptaxError, ZiptaxValidationError } from '../exceptions';
+import { MAX_CART_LINE_ITEMS } from './chunk';
+import {
+  CART_LINE_KINDS,
+  prepareCartLines,
+  TypedCalculateCartRequest,
+  TypedCartItem,
+  TypedCartLineItem,
+} from './lines';
+import { validateCartLineItem, validateRequired } from './validation';
+
+/**
+ * A problem with a cart being built
+ */
+export interface CartBuilderIssue {
+  /** Path of the field with the problem, e.g. 'customerId' or 'lineItems[2]' */
+  field: string;
+  /** Description of the problem */
+  message: string;
+}
+
+export interface CartBuilderOptions {
+  /**
+   * Maximum number of line items, not counting discount lines (default: 250).
+   * Raise it for carts sent with calculateCartInChunks.
+   */
+  maxLineItems?: number;
+}
+
+/**
+ * Run a validation and record its error as an issue
+ */
+function check(issues: CartBuilderIssue[], field: string, validate: () => void): boolean {
+  try {
+    validate();
+    return true;
+  } catch (error) {
+    if (!(error instanceof ZiptaxError)) {
+      throw error;
+    }
+    issues.push({ field, message: error.message });
+    return false;
+  }
+}
+
+/**
+ * Builds a CalculateCartRequest step by step, and reports every problem with
+ * it at once.
+ *
+ * @example
+ * ```typescript
+ * const request = new CartBuilder()
+ *   .customer('customer-453')
+ *   .currency('USD')
+ *   .from('323 Washington Ave N, Minneapolis, MN 55401')
+ *   .to('200 Spectrum Center Dr, Irvine, CA 92618')
+ *   .addItem({ itemId: 'item-1', price: 10.75, quantity: 2 })
+ *   .addItem({ itemId: 'shipping', price: 5, quantity: 1, kind: 'shipping' })
+ *   .build();
+ *
+ * const response = await client.calculateCart(request);
+ * ```
+ */
+export class CartBuilder {
+  private customerId?: string;
+  private currencyCode?: 'USD' | 'CAD';
+  private origin?: string;
+  private destination?: string;
+  private readonly lineItems: TypedCartLineItem[] = [];
+  private readonly maxLineItems: number;
+
+  constructor(options: CartBuilderOptions = {}) {
+    this.maxLineItems = options.maxLineItems ?? MAX_CART_LINE_ITEMS;
+  }
+
+  /**
+   * Set the customer identifier
+   */
+  customer(customerId: string): this {
+    this.customerId = customerId;
+    return this;
+  }
+
+  /**
+   * Set the currency of the prices
+   */
+  currency(currencyCode: 'USD' | 'CAD'): this {
+    this.currencyCode = currencyCode;
+    return this;
+  }
+
+  /**
+   * Set the origin address of the seller or shipper
+   */
+  from(address: string): this {
+    this.origin = address;
+    return this;
+  }
+
+  /**
+   * Set the destination address
+   */
+  to(address: string): this {
+    this.destination = address;
+    return this;
+  }
+
+  /**
+   * Add a line item, optionally with a kind (see prepareCartLines)
+   */
+  addItem(item: TypedCartLineItem): this {
+    this.lineItems.push({ ...item });
+    return this;
+  }
+
+  /**
+   * Check the cart built so far
+   * @returns Every problem found, or an empty array if the cart is valid
+   */
+  validate(): CartBuilderIssue[] {
+    const issues: CartBuilderIssue[] = [];
+
+    check(issues, 'customerId', () => validateRequired(this.customerId, 'customerId'));
+    check(issues, 'currency.currencyCode', () => {
+      validateRequired(this.currencyCode, 'currency.currencyCode');
+      if (this.currencyCode !== 'USD' && this.currencyCode !== 'CAD') {
+        throw new ZiptaxValidationError("currency.currencyCode must be 'USD' or 'CAD'");
+      }
+    });
+    check(issues, 'origin.address', () => validateRequired(this.origin, 'origin.address'));
+    check(issues, 'destination.address', () =>
+      validateRequired(this.destination, 'destination.address')
+    );
+
+    const charges = this.lineItems.filter((item) => item.kind !== 'discount');
+    check(issues, 'lineItems', () => {
+      if (charges.length < 1) {
+        throw new ZiptaxValidationError('lineItems must contain at least 1 item');
+      }
+      if (charges.length > this.maxLineItems) {
+        throw new ZiptaxValidationError(`lineItems must not exceed ${this.maxLineItems} items`);
+      }
+    });
+
+    const itemIds = new Set<string>();
+    let linesValid = true;
+    this.lineItems.forEach((item, index) => {
+      linesValid =
+        check(issues, `lineItems[${index}]`, () => {
+          if (item.kind !== undefined && !CART_LINE_KINDS.includes(item.kind)) {
+            throw new ZiptaxValidationError(
+              "lineItems[].kind must be 'product', 'shipping', 'handling' or 'discount'"
+            );
+          }
+          validateCartLineItem(item);
+          if (itemIds.has(item.itemId)) {
+            throw new ZiptaxValidationError(`lineItems[].itemId '${item.itemId}' is not unique`);
+          }
+          itemIds.add(item.itemId);
+        }) && linesValid;
+    });
+
+    // Discounts can only be checked against the product subtotal once every line is valid
+    if (linesValid && charges.length > 0) {
+      check(issues, 'lineItems', () =>
+        prepareCartLines(this.lineItems, {
+          currency: this.currencyCode === 'CAD' ? 'CAD' : 'USD',
+        })
+      );
+    }
+
+    return issues;
+  }
+
+  /**
+   * Build the cart, e.g. for calculateCarts
+   * @throws ZiptaxValidationError listing every problem, with `errors` keyed by field
+   */
+  buildItem(): TypedCartItem {
+    const issues = this.validate();
+    if (issues.length > 0) {
+      const errors: Record<string, string> = {};
+      for (const issue of issues) {
+        errors[issue.field] = errors[issue.field]
+          ? `${errors[issue.field]}; ${issue.message}`
+          : issue.message;
+      }
+      throw new ZiptaxValidationError(
+        `Invalid cart (${issues.length} ${issues.length === 1 ? 'issue' : 'issues'}): ` +
+          issues.map((issue) => issue.message).join('; '),
+        errors
+      );
+    }
+
+    return {
+      customerId: this.customerId ?? '',
+      currency: { currencyCode: this.currencyCode ?? 'USD' },
+      destination: { address: this.destination ?? '' },
+      origin: { address: this.origin ?? '' },
+      lineItems: this.lineItems.map((item) => ({ ...item })),
+    };
+  }
+
+  /**
+   * Build the request for calculateCart
+   * @throws ZiptaxValidationError listing every problem, with `errors` keyed by field
+   */
+  build(): TypedCalculateCartRequest {
+    return { items: [this.buildItem()] };
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Backend-independent calculateCart results and response type guards
+ */
+
+import {
+  CalculateCartRequest,
+  CalculateCartResponse,
+  CartItemResponse,
+  TaxCloudAddressResponse,
+  TaxCloudCalculateCartResponse,
+  TaxCloudCartItemResponse,
+} from '../models';
+import { BatchProgress } from './batch';
+import { RequestOptions } from './http';
+import { DiscountAllocation, LineKindTics } from './lines';
+import { CurrencyCode } from './money';
+import { CartShadowOptions } from './shadow';
+import { parseAddressString } from './validation';
+
+/**
+ * Backend a cart was calculated by
+ */
+export type CartBackend = 'ziptax' | 'taxcloud';
+
+/**
+ * Backend selection for calculateCart. 'auto' uses TaxCloud when TaxCloud
+ * credentials are configured, and ZipTax otherwise.
+ */
+export type CartBackendOption = CartBackend | 'auto';
+
+/**
+ * Per-call options for calculateCart
+ */
+export interface CalculateCartOptions extends RequestOptions {
+  /** Backend to calculate the cart with (default: 'auto') */
+  backend?: CartBackendOption;
+  /**
+   * Also send the request to the other backend in the background and report
+   * where its line taxes differ from the returned result
+   */
+  shadow?: CartShadowOptions;
+  /** TICs for shipping, handling and product lines that have no taxabilityCode */
+  lineKindTics?: LineKindTics;
+}
+
+/**
+ * Options for calculateCarts. Cart options (backend, shadow, signal, timeout,
+ * retryOptions, headers) apply to every cart.
+ */
+export interface CalculateCartsOptions extends CalculateCartOptions {
+  /** Maximum number of carts in flight at once (default: 5) */
+  concurrency?: number;
+  /** Called each time a cart finishes */
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+/**
+ * Cart address in both the single-string and the structured form
+ */
+export interface NormalizedCartAddress {
+  /** Single-string address, e.g. "200 Spectrum Center Dr, Irvine, CA 92618" */
+  raw: string;
+  /** Structured address, or undefined if the single-string address cannot be parsed */
+  structured?: TaxCloudAddressResponse;
+}
+
+/**
+ * Cart line item with calculated tax
+ */
+export interface NormalizedCartLineItem {
+  /** Position of the line within the cart (0-based) */
+  index: number;
+  /** Line item id */
+  itemId: string;
+  /** Unit price */
+  price: number;
+  /** Quantity */
+  quantity: number;
+  /** Taxability Information Code, or null if none was given */
+  tic: number | null;
+  /** Calculated tax rate and amount */
+  tax: {
+    rate: number;
+    amount: number;
+  };
+}
+
+/**
+ * Calculated cart
+ */
+export interface NormalizedCartItem {
+  /** Cart id assigned by the backend */
+  cartId: string;
+  /** Customer identifier */
+  customerId: string;
+  /** Currency of the amounts */
+  currency: CurrencyCode;
+  /** Origin address */
+  origin: NormalizedCartAddress;
+  /** Destination address */
+  destination: NormalizedCartAddress;
+  /** Line items, in cart order */
+  lineItems: NormalizedCartLineItem[];
+  /** Order-level discount allocated to each product line (empty without discount lines) */
+  discounts: DiscountAllocation[];
+}
+
+/**
+ * calculateCart result with the same shape for both backends
+ */
+export interface NormalizedCartResponse {
+  /** Backend that calculated the cart */
+  backend: CartBackend;
+  /** Calculated carts */
+  items: NormalizedCartItem[];
+  /**
+   * RFC3339 datetime the cart was calculated for. ZipTax responses do not
+   * include one, so the time of the calculation is used.
+   */
+  transactionDate: string;
+  /** Response as returned by the backend */
+  raw: CalculateCartResponse | TaxCloudCalculateCartResponse;
+}
+
+export interface NormalizeCartOptions {
+  /**
+   * Request the response was calculated for. ZipTax responses do not echo the
+   * currency or the taxabilityCode of each line, so they are taken from the
+   * request instead.
+   */
+  request?: CalculateCartRequest;
+  /** Transaction date for ZipTax responses (default: the current time) */
+  transactionDate?: string;
+  /** Discount allocation of each cart, as returned by prepareCartRequest */
+  discounts?: DiscountAllocation[][];
+}
+
+/**
+ * Check whether a calculateCart response came from TaxCloud
+ */
+export function isTaxCloudCartResponse(
+  response: CalculateCartResponse | TaxCloudCalculateCartResponse
+): response is TaxCloudCalculateCartResponse {
+  return 'connectionId' in response;
+}
+
+/**
+ * Check whether a calculateCart response came from ZipTax
+ */
+export function isZipTaxCartResponse(
+  response: CalculateCartResponse | TaxCloudCalculateCartResponse
+): response is CalculateCartResponse {
+  return !isTaxCloudCartResponse(response);
+}
+
+/**
+ * Format a structured address as a single string
+ */
+function formatAddress(address: TaxCloudAddressResponse): string {
+  return [address.line1, address.line2, address.city, `${address.state} ${address.zip}`]
+    .filter((part) => part)
+    .join(', ');
+}
+
+/**
+ * Parse a single-string address, or return undefined if it cannot be parsed
+ */
+function parseAddress(address: string): TaxCloudAddressResponse | undefined {
+  try {
+    return { ...parseAddressString(address), countryCode: 'US' };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Normalize a TaxCloud cart
+ */
+function normalizeTaxCloudCart(
+  cart: TaxCloudCartItemResponse,
+  discounts: DiscountAllocation[] | undefined
+): NormalizedCartItem {
+  return {
+    cartId: cart.cartId,
+    customerId: cart.customerId,
+    currency: cart.currency.currencyCode === 'CAD' ? 'CAD' : 'USD',
+    origin: { raw: formatAddress(cart.origin), structured: cart.origin },
+    destination: { raw: formatAddress(cart.destination), structured: cart.destination },
+    lineItems: cart.lineItems.map((line) => ({
+      index: line.index,
+      itemId: line.itemId,
+      price: line.price,
+      quantity: line.quantity,
+      tic: line.tic,
+      tax: { rate: line.tax.rate, amount: line.tax.amount },
+    })),
+    discounts: discounts ?? [],
+  };
+}
+
+/**
+ * Normalize a ZipTax cart, taking its currency and TICs from the matching request cart
+ */
+function normalizeZipTaxCart(
+  cart: CartItemResponse,
+  request: CalculateCartRequest['items'][number] | undefined,
+  discounts: DiscountAllocation[] | undefined
+): NormalizedCartItem {
+  const requestTics = new Map<string, number | null>();
+  for (const line of request?.lineItems ?? []) {
+    requestTics.set(line.itemId, line.taxabilityCode ?? null);
+  }
+
+  return {
+    cartId: cart.cartId,
+    customerId: cart.customerId,
+    currency: request?.currency.currencyCode ?? 'USD',
+    origin: { raw: cart.origin.address, structured: parseAddress(cart.origin.address) },
+    destination: {
+      raw: cart.destination.address,
+      structured: parseAddress(cart.destination.address),
+    },
+    lineItems: cart.lineItems.map((line, index) => ({
+      index,
+      itemId: line.itemId,
+      price: line.price,
+      quantity: line.quantity,
+      tic: requestTics.get(line.itemId) ?? null,
+      tax: { rate: line.tax.rate, amount: line.tax.amount },
+    })),
+    discounts: discounts ?? [],
+  };
+}
+
+/**
+ * Convert a calculateCart response from either backend to one shape.
+ *
+ * Both address forms are provided: TaxCloud's structured addresses are
+ * formatted as single strings, and ZipTax's single-string addresses are
+ * parsed into structured ones where possible.
+ *
+ * @param response - ZipTax or TaxCloud calculateCart response
+ * @param options - Request (for ZipTax currency and TICs) and transaction date options
+ *
+ * @example
+ * ```typescript
+ * const cart = normalizeCartResponse(await client.calculateCart(request), { request });
+ * console.log(`${cart.backend} cart ${cart.items[0].cartId} in ${cart.items[0].currency}`);
+ * ```
+ */
+export function normalizeCartResponse(
+  response: CalculateCartResponse | TaxCloudCalculateCartResponse,
+  options: NormalizeCartOptions = {}
+): NormalizedCartResponse {
+  if (isTaxCloudCartResponse(response)) {
+    return {
+      backend: 'taxcloud',
+      items: response.items.map((cart, i) => normalizeTaxCloudCart(cart, options.discounts?.[i])),
+      transactionDate: response.transactionDate,
+      raw: response,
+    };
+  }
+
+  return {
+    backend: 'ziptax',
+    items: response.items.map((cart, i) =>
+      normalizeZipTaxCart(cart, options.request?.items[i], options.discounts?.[i])
+    ),
+    transactionDate: options.transactionDate ?? new Date().toISOString(),
+    raw: response,
+  };
+}
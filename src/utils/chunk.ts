@@ -0,0 +1,120 @@
+/**
+ * Splitting carts over the line item limit into chunks and merging the results
+ */
+
+import { ZiptaxValidationError } from '../exceptions';
+import {
+  CalculateCartResponse,
+  CartItem,
+  CartItemResponse,
+  CartLineItemResponse,
+  TaxCloudCalculateCartResponse,
+  TaxCloudCartItemResponse,
+  TaxCloudCartLineItemResponse,
+} from '../models';
+import { CalculateCartOptions } from './cart';
+
+/**
+ * Maximum number of line items the backends accept in one cart
+ */
+export const MAX_CART_LINE_ITEMS = 250;
+
+/**
+ * Options for calculateCartInChunks
+ */
+export interface ChunkedCartOptions extends CalculateCartOptions {
+  /** Maximum number of line items per chunk (default and maximum: 250) */
+  chunkSize?: number;
+  /** Maximum number of chunks in flight at once (default: 5) */
+  concurrency?: number;
+}
+
+/**
+ * One chunk of a cart calculated as its own backend cart
+ */
+export interface CartChunk {
+  /** Cart id the backend assigned to the chunk */
+  cartId: string;
+  /** Position of the chunk's first line item in the original cart */
+  start: number;
+  /** Ids of the chunk's line items, in cart order */
+  itemIds: string[];
+}
+
+/**
+ * Result of a cart calculated in chunks
+ */
+export interface ChunkedCartResponse<
+  T extends CalculateCartResponse | TaxCloudCalculateCartResponse =
+    | CalculateCartResponse
+    | TaxCloudCalculateCartResponse,
+> {
+  /**
+   * The chunk results merged into one cart, with the line items in their
+   * original order. The cart's cartId is the first chunk's.
+   */
+  response: T;
+  /** Every chunk, in cart order */
+  chunks: CartChunk[];
+}
+
+/**
+ * Split a cart into carts of at most `chunkSize` line items
+ *
+ * @throws ZiptaxValidationError if chunkSize is not an integer between 1 and 250
+ */
+export function chunkCartItem(cart: CartItem, chunkSize = MAX_CART_LINE_ITEMS): CartItem[] {
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CART_LINE_ITEMS) {
+    throw new ZiptaxValidationError(
+      `chunkSize must be an integer between 1 and ${MAX_CART_LINE_ITEMS}`
+    );
+  }
+
+  const chunks: CartItem[] = [];
+  for (let start = 0; start < cart.lineItems.length; start += chunkSize) {
+    chunks.push({ ...cart, lineItems: cart.lineItems.slice(start, start + chunkSize) });
+  }
+  return chunks.length > 0 ? chunks : [cart];
+}
+
+/**
+ * Merge the calculateCart results of a cart's chunks into one cart.
+ *
+ * Line items are concatenated in chunk order, and TaxCloud line indexes are
+ * renumbered to their position in the merged cart. Other cart fields are
+ * taken from the first chunk.
+ *
+ * @param responses - One single-cart response per chunk, in chunk order
+ * @throws ZiptaxValidationError if there are no responses or a response has no cart
+ */
+export function mergeCartChunks<T extends CalculateCartResponse | TaxCloudCalculateCartResponse>(
+  responses: T[]
+): ChunkedCartResponse<T> {
+  const carts = responses.map((response) => {
+    const cart = response.items[0] as CartItemResponse | TaxCloudCartItemResponse | undefined;
+    if (!cart) {
+      throw new ZiptaxValidationError('every chunk response must contain a cart');
+    }
+    return cart;
+  });
+  if (carts.length === 0) {
+    throw new ZiptaxValidationError('at least 1 chunk response is required');
+  }
+
+  const chunks: CartChunk[] = [];
+  let start = 0;
+  for (const cart of carts) {
+    const itemIds = cart.lineItems.map((line) => line.itemId);
+    chunks.push({ cartId: cart.cartId, start, itemIds });
+    start += itemIds.length;
+  }
+
+  const lineItems = carts
+    .flatMap((cart) => cart.lineItems as Array<CartLineItemResponse | TaxCloudCartLineItemResponse>)
+    .map((line, index) => ('index' in line ? { ...line, index } : line));
+
+  return {
+    response: { ...responses[0], items: [{ ...carts[0], lineItems }] } as T,
+    chunks,
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Circuit breaker for failing fast while a backend is degraded
+ */
+
+import { ZiptaxCircuitOpenError } from '../exceptions';
+
+/**
+ * Circuit breaker states.
+ *
+ * - 'closed': requests flow normally and failures are counted
+ * - 'open': requests fail fast with ZiptaxCircuitOpenError until resetTimeout elapses
+ * - 'half-open': a limited number of trial requests decide whether to close or re-open
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Event emitted whenever a circuit breaker changes state
+ */
+export interface CircuitStateChangeEvent {
+  /** Backend the circuit protects (e.g., 'ziptax' or 'taxcloud') */
+  backend: string;
+  /** Previous state */
+  from: CircuitState;
+  /** New state */
+  to: CircuitState;
+  /** Consecutive failures counted when the state changed */
+  failures: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Time in milliseconds the circuit stays open before allowing trial requests (default: 30000) */
+  resetTimeout?: number;
+  /** Trial requests allowed at once while half-open (default: 1) */
+  halfOpenMaxCalls?: number;
+  /** Successful trial requests needed to close the circuit again (default: 1) */
+  successThreshold?: number;
+  /** Function to determine if an error counts as a failure (default: network errors and 5xx) */
+  isFailure?: (error: Error) => boolean;
+  /** Called whenever the circuit changes state */
+  onStateChange?: (event: CircuitStateChangeEvent) => void;
+}
+
+const DEFAULT_CIRCUIT_BREAKER_OPTIONS: Required<Omit<CircuitBreakerOptions, 'onStateChange'>> = {
+  failureThreshold: 5,
+  resetTimeout: 30000,
+  halfOpenMaxCalls: 1,
+  successThreshold: 1,
+  isFailure: (error: Error) => {
+    if (error.name === 'ZiptaxNetworkError') {
+      return true;
+    }
+    if (error.name === 'ZiptaxAPIError') {
+      const apiError = error as { statusCode?: number };
+      return apiError.statusCode ? apiError.statusCode >= 500 : false;
+    }
+    return false;
+  },
+};
+
+/**
+ * Circuit breaker guarding the requests sent to one backend
+ */
+export class CircuitBreaker {
+  private readonly backend: string;
+  private readonly options: Required<Omit<CircuitBreakerOptions, 'onStateChange'>>;
+  private readonly listeners: Array<(event: CircuitStateChangeEvent) => void> = [];
+  private currentState: CircuitState = 'closed';
+  private failures = 0;
+  private successes = 0;
+  private trialsInFlight = 0;
+  private openedAt = 0;
+  private generation = 0;
+
+  constructor(backend: string, options: CircuitBreakerOptions = {}) {
+    this.backend = backend;
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+    if (options.onStateChange) {
+      this.listeners.push(options.onStateChange);
+    }
+  }
+
+  /**
+   * Current state. An open circuit becomes half-open once resetTimeout has elapsed.
+   */
+  get state(): CircuitState {
+    if (this.currentState === 'open' && Date.now() - this.openedAt >= this.options.resetTimeout) {
+      this.transition('half-open');
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Register a listener for state changes
+   * @returns A function that removes the listener
+   */
+  onStateChange(listener: (event: CircuitStateChangeEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Reserve permission to send a request
+   * @returns A function to call with the request's error (or nothing) once it settles
+   * @throws ZiptaxCircuitOpenError if the circuit is open, or half-open with no trial slots left
+   */
+  acquire(): (error?: Error) => void {
+    const state = this.state;
+    const generation = this.generation;
+    if (state === 'closed') {
+      return (error) => this.record(false, generation, error);
+    }
+    if (state === 'half-open' && this.trialsInFlight < this.options.halfOpenMaxCalls) {
+      this.trialsInFlight++;
+      return (error) => this.record(true, generation, error);
+    }
+
+    const remaining = this.openedAt + this.options.resetTimeout - Date.now();
+    throw new ZiptaxCircuitOpenError(
+      `Circuit breaker for ${this.backend} is ${state}; request not sent`,
+      this.backend,
+      Math.max(0, Math.ceil(remaining / 1000))
+    );
+  }
+
+  /**
+   * Force the circuit closed and clear its counters
+   */
+  reset(): void {
+    this.transition('closed');
+  }
+
+  /**
+   * Record the outcome of a request. Results from before the last state change
+   * (e.g., a slow request sent while closed that settles once half-open) only
+   * count while the circuit is closed.
+   */
+  private record(trial: boolean, generation: number, error?: Error): void {
+    const current = generation === this.generation;
+    if (trial && current) {
+      this.trialsInFlight = Math.max(0, this.trialsInFlight - 1);
+    }
+
+    // Cancelled requests say nothing about the backend's health
+    if (error?.name === 'ZiptaxAbortError') {
+      return;
+    }
+
+    const failed = error !== undefined && this.options.isFailure(error);
+    if (this.currentState === 'closed') {
+      this.failures = failed ? this.failures + 1 : 0;
+      if (this.failures >= this.options.failureThreshold) {
+        this.open();
+      }
+    } else if (this.currentState === 'half-open' && trial && current) {
+      if (failed) {
+        this.failures++;
+        this.open();
+      } else if (++this.successes >= this.options.successThreshold) {
+        this.transition('closed');
+      }
+    }
+  }
+
+  private open(): void {
+    this.openedAt = Date.now();
+    this.transition('open');
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.currentState;
+    const failures = this.failures;
+    this.currentState = to;
+    this.generation++;
+    this.successes = 0;
+    this.trialsInFlight = 0;
+    if (to === 'closed') {
+      this.failures = 0;
+    }
+    if (from === to) {
+      return;
+    }
+    for (const listener of [...this.listeners]) {
+      listener({ backend: this.backend, from, to, failures });
+    }
+  }
+}
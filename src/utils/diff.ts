@@ -0,0 +1,167 @@
+/**
+ * Helpers for comparing rate responses
+ */
+
+import { V60BaseRate, V60Response, V60SourcingRules, V60TaxSummary } from '../models';
+
+/**
+ * A jurisdiction whose rate differs between two responses
+ */
+export interface BaseRateChange {
+  /** Jurisdiction type (e.g., 'US_CITY_SALES_TAX') */
+  jurType: string;
+  /** Jurisdiction name */
+  jurName: string;
+  /** Entry in the earlier response */
+  before: V60BaseRate;
+  /** Entry in the later response */
+  after: V60BaseRate;
+  /** Rate difference (after minus before) */
+  delta: number;
+}
+
+/**
+ * A tax summary that was added, removed or whose rate changed.
+ * `before` is undefined for added summaries and `after` for removed ones.
+ */
+export interface TaxSummaryChange {
+  /** Tax type (e.g., 'SALES_TAX') */
+  taxType: string;
+  /** Total rate in the earlier response */
+  before?: number;
+  /** Total rate in the later response */
+  after?: number;
+}
+
+/**
+ * A value that differs between two responses
+ */
+export interface ValueChange<T> {
+  /** Value in the earlier response */
+  before: T;
+  /** Value in the later response */
+  after: T;
+}
+
+/**
+ * Differences between two rate responses
+ */
+export interface RateDiff {
+  /** True if any of the fields below report a difference */
+  changed: boolean;
+  /** Jurisdiction rate differences, matched by jurType and jurName */
+  baseRates: {
+    /** Jurisdictions only in the later response */
+    added: V60BaseRate[];
+    /** Jurisdictions only in the earlier response */
+    removed: V60BaseRate[];
+    /** Jurisdictions in both responses with different rates */
+    changed: BaseRateChange[];
+  };
+  /** Tax summaries added, removed or with a different total rate */
+  taxSummaries: TaxSummaryChange[];
+  /** Change in service taxability, if any */
+  service?: ValueChange<'Y' | 'N'>;
+  /** Change in shipping taxability, if any */
+  shipping?: ValueChange<'Y' | 'N'>;
+  /** Change in origin/destination sourcing, if any */
+  sourcingRules?: ValueChange<V60SourcingRules['value'] | undefined>;
+}
+
+/**
+ * Index entries by key. Repeated keys get an occurrence suffix so that
+ * duplicates are matched in order instead of overwriting each other.
+ */
+function indexBy<T>(items: readonly T[], keyOf: (item: T) => string): Map<string, T> {
+  const index = new Map<string, T>();
+  const seen = new Map<string, number>();
+  for (const item of items) {
+    const key = keyOf(item);
+    const count = seen.get(key) ?? 0;
+    seen.set(key, count + 1);
+    index.set(count === 0 ? key : `${key}#${count}`, item);
+  }
+  return index;
+}
+
+function diffBaseRates(before: V60BaseRate[], after: V60BaseRate[]): RateDiff['baseRates'] {
+  const keyOf = (rate: V60BaseRate): string => `${rate.jurType}|${rate.jurName}`;
+  const beforeIndex = indexBy(before, keyOf);
+  const afterIndex = indexBy(after, keyOf);
+  const result: RateDiff['baseRates'] = { added: [], removed: [], changed: [] };
+
+  for (const [key, previous] of beforeIndex) {
+    const current = afterIndex.get(key);
+    if (!current) {
+      result.removed.push(previous);
+    } else if (current.rate !== previous.rate) {
+      result.changed.push({
+        jurType: current.jurType,
+        jurName: current.jurName,
+        before: previous,
+        after: current,
+        delta: Number((current.rate - previous.rate).toPrecision(12)),
+      });
+    }
+  }
+  for (const [key, current] of afterIndex) {
+    if (!beforeIndex.has(key)) {
+      result.added.push(current);
+    }
+  }
+  return result;
+}
+
+function diffTaxSummaries(before: V60TaxSummary[], after: V60TaxSummary[]): TaxSummaryChange[] {
+  const keyOf = (summary: V60TaxSummary): string => summary.taxType;
+  const beforeIndex = indexBy(before, keyOf);
+  const afterIndex = indexBy(after, keyOf);
+  const changes: TaxSummaryChange[] = [];
+
+  for (const [key, previous] of beforeIndex) {
+    const current = afterIndex.get(key);
+    if (current?.rate !== previous.rate) {
+      changes.push({ taxType: previous.taxType, before: previous.rate, after: current?.rate });
+    }
+  }
+  for (const [key, current] of afterIndex) {
+    if (!beforeIndex.has(key)) {
+      changes.push({ taxType: current.taxType, after: current.rate });
+    }
+  }
+  return changes;
+}
+
+function diffValue<T>(before: T, after: T): ValueChange<T> | undefined {
+  return before === after ? undefined : { before, after };
+}
+
+/**
+ * Compare two rate responses, e.g., the same address in two different months
+ * @param before - Earlier response
+ * @param after - Later response
+ * @returns Added, removed and changed jurisdictions, tax summaries and taxability
+ */
+export function diffRates(before: V60Response, after: V60Response): RateDiff {
+  const baseRates = diffBaseRates(before.baseRates ?? [], after.baseRates ?? []);
+  const taxSummaries = diffTaxSummaries(before.taxSummaries ?? [], after.taxSummaries ?? []);
+  const service = diffValue(before.service.taxable, after.service.taxable);
+  const shipping = diffValue(before.shipping.taxable, after.shipping.taxable);
+  const sourcingRules = diffValue(before.sourcingRules?.value, after.sourcingRules?.value);
+
+  return {
+    changed:
+      baseRates.added.length > 0 ||
+      baseRates.removed.length > 0 ||
+      baseRates.changed.length > 0 ||
+      taxSummaries.length > 0 ||
+      service !== undefined ||
+      shipping !== undefined ||
+      sourcingRules !== undefined,
+    baseRates,
+    taxSummaries,
+    service,
+    shipping,
+    sourcingRules,
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Helpers for building historical rate series
+ */
+
+import { ZiptaxValidationError } from '../exceptions';
+import { V60BaseRate, V60Response } from '../models';
+import { StreamOptions } from './stream';
+
+/**
+ * Options for getRateHistory. Request options (signal, timeout, retryOptions,
+ * headers, cache) apply to every monthly lookup.
+ */
+export type RateHistoryOptions = StreamOptions;
+
+/**
+ * Rates in effect for one month
+ */
+export interface RateHistoryEntry {
+  /** Month (YYYYMM) */
+  month: string;
+  /** Total sales tax rate (from the SALES_TAX summary), if returned */
+  salesTaxRate?: number;
+  /** Total use tax rate (from the USE_TAX summary), if returned */
+  useTaxRate?: number;
+  /** Full response for the month */
+  response: V60Response;
+}
+
+/**
+ * Consecutive months with identical rates
+ */
+export interface RateHistoryRange {
+  /** First month of the range (YYYYMM) */
+  from: string;
+  /** Last month of the range (YYYYMM) */
+  to: string;
+  /** Number of months in the range */
+  months: number;
+  /** Total sales tax rate during the range, if returned */
+  salesTaxRate?: number;
+  /** Total use tax rate during the range, if returned */
+  useTaxRate?: number;
+  /** Jurisdiction rates during the range */
+  baseRates: V60BaseRate[];
+}
+
+/**
+ * Rate history for one location
+ */
+export interface RateHistory {
+  /** One entry per month, in chronological order */
+  series: RateHistoryEntry[];
+  /** Effective-date ranges, collapsing consecutive months with identical rates */
+  ranges: RateHistoryRange[];
+}
+
+/**
+ * Maximum number of months in one rate history (one lookup per month)
+ */
+export const MAX_RATE_HISTORY_MONTHS = 120;
+
+/**
+ * List every month (YYYYMM) from `from` to `to`, inclusive
+ * @throws ZiptaxValidationError if either month is invalid, `from` is after `to`,
+ *   or the range spans more than MAX_RATE_HISTORY_MONTHS months
+ */
+export function listMonths(from: string, to: string): string[] {
+  const parse = (value: string, fieldName: string): number => {
+    const match = /^([0-9]{4})(0[1-9]|1[0-2])$/.exec(value);
+    if (!match) {
+      throw new ZiptaxValidationError(`${fieldName} must match pattern: YYYYMM format`);
+    }
+    return Number(match[1]) * 12 + Number(match[2]) - 1;
+  };
+
+  const start = parse(from, 'from');
+  const end = parse(to, 'to');
+  if (start > end) {
+    throw new ZiptaxValidationError('from must not be after to');
+  }
+  if (end - start + 1 > MAX_RATE_HISTORY_MONTHS) {
+    throw new ZiptaxValidationError(
+      `from and to must not span more than ${MAX_RATE_HISTORY_MONTHS} months`
+    );
+  }
+
+  const months: string[] = [];
+  for (let month = start; month <= end; month++) {
+    const year = Math.floor(month / 12);
+    months.push(`${year}${String((month % 12) + 1).padStart(2, '0')}`);
+  }
+  return months;
+}
+
+/**
+ * Find the total rate of a tax summary type in a response
+ */
+function summaryRate(response: V60Response, taxType: string): number | undefined {
+  return response.taxSummaries?.find((summary) => summary.taxType === taxType)?.rate;
+}
+
+/**
+ * Key identifying a response's rates, ignoring order and descriptive fields
+ */
+function rateSignature(response: V60Response): string {
+  const baseRates = (response.baseRates ?? [])
+    .map((rate) => `${rate.jurType}|${rate.jurName}|${rate.rate}`)
+    .sort();
+  const summaries = (response.taxSummaries ?? [])
+    .map((summary) => `${summary.taxType}|${summary.rate}`)
+    .sort();
+  return JSON.stringify([baseRates, summaries]);
+}
+
+/**
+ * Build a rate history from monthly responses
+ * @param months - Months (YYYYMM) in chronological order
+ * @param responses - Response for each month, in the same order
+ */
+export function buildRateHistory(months: string[], responses: V60Response[]): RateHistory {
+  const series: RateHistoryEntry[] = months.map((month, i) => ({
+    month,
+    salesTaxRate: summaryRate(responses[i], 'SALES_TAX'),
+    useTaxRate: summaryRate(responses[i], 'USE_TAX'),
+    response: responses[i],
+  }));
+
+  const ranges: RateHistoryRange[] = [];
+  let previousSignature: string | undefined;
+  for (const entry of series) {
+    const signature = rateSignature(entry.response);
+    const current = ranges[ranges.length - 1];
+    if (current && signature === previousSignature) {
+      current.to = entry.month;
+      current.months++;
+    } else {
+      ranges.push({
+        from: entry.month,
+        to: entry.month,
+        months: 1,
+        salesTaxRate: entry.salesTaxRate,
+        useTaxRate: entry.useTaxRate,
+        baseRates: entry.response.baseRates ?? [],
+      });
+    }
+    previousSignature = signature;
+  }
+
+  return { series, ranges };
+}
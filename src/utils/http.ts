@@ -2,14 +2,32 @@
  * HTTP client utility with retry logic
  */
 
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError } from 'axios';
 import {
   ZiptaxAPIError,
   ZiptaxAuthenticationError,
-  ZiptaxNetworkError,
+  ZiptaxError,
   ZiptaxRateLimitError,
+  ZiptaxRetryError,
 } from '../exceptions';
 import { retryWithBackoff, RetryOptions } from './retry';
+import {
+  applyErrorMiddleware,
+  applyRequestMiddleware,
+  applyResponseMiddleware,
+  createLoggingMiddleware,
+  Middleware,
+  MiddlewareContext,
+} from './middleware';
+import {
+  createTransport,
+  HTTPMethod,
+  Transport,
+  TransportOption,
+  TransportResponse,
+} from './transport';
+import { Logger, LogLevel, resolveLogger } from './logger';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitState } from './circuit-breaker';
+import { RateLimiter, RateLimitOptions } from './rate-limiter';
 import { SDK_VERSION } from '../version';
 
 export interface HTTPClientConfig {
@@ -21,23 +39,75 @@ export interface HTTPClientConfig {
   timeout?: number;
   /** Retry configuration */
   retryOptions?: RetryOptions;
-  /** Enable request/response logging */
+  /** Enable request/response logging to the console */
   enableLogging?: boolean;
+  /** Structured logger (enables logging when provided) */
+  logger?: Logger;
+  /** Minimum log level (default: 'debug') */
+  logLevel?: LogLevel;
+  /** Redact credentials, addresses and customer IDs in logs (default: true) */
+  redact?: boolean;
+  /** Transport used to send requests (default: 'axios') */
+  transport?: TransportOption;
+  /** Backend name reported to middleware (default: 'ziptax') */
+  name?: string;
+  /** Middleware run for every request attempt */
+  middleware?: Middleware[];
+  /** Circuit breaker configuration (disabled when omitted) */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Client-side rate and concurrency limits (unlimited when omitted) */
+  rateLimit?: RateLimitOptions;
+}
+
+/**
+ * Per-call options accepted by every client method
+ */
+export interface RequestOptions {
+  /** Signal used to cancel the request, including any pending retry backoff */
+  signal?: AbortSignal;
+  /** Timeout for this call in milliseconds (overrides the client timeout) */
+  timeout?: number;
+  /** Retry configuration for this call (merged over the client retryOptions) */
+  retryOptions?: RetryOptions;
+  /** Additional headers for this call */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Per-request configuration
+ */
+export interface RequestConfig extends RequestOptions {
+  /** Query parameters */
+  params?: Record<string, unknown>;
 }
 
 /**
  * HTTP client for making API requests
  */
 export class HTTPClient {
-  private readonly axiosInstance: AxiosInstance;
+  private readonly transport: Transport;
   private readonly retryOptions: RetryOptions;
-  private readonly enableLogging: boolean;
+  private readonly name: string;
+  private readonly middleware: Middleware[];
+  private readonly loggingMiddleware?: Middleware;
+  private readonly circuitBreaker?: CircuitBreaker;
+  private readonly rateLimiter?: RateLimiter;
 
   constructor(config: HTTPClientConfig) {
     this.retryOptions = config.retryOptions || {};
-    this.enableLogging = config.enableLogging || false;
+    this.name = config.name || 'ziptax';
+    this.middleware = [...(config.middleware || [])];
+    this.circuitBreaker = config.circuitBreaker
+      ? new CircuitBreaker(this.name, config.circuitBreaker)
+      : undefined;
+    this.rateLimiter = config.rateLimit ? new RateLimiter(this.name, config.rateLimit) : undefined;
+
+    const logger = resolveLogger(config);
+    this.loggingMiddleware = logger
+      ? createLoggingMiddleware(logger, config.redact ?? true)
+      : undefined;
 
-    this.axiosInstance = axios.create({
+    this.transport = createTransport(config.transport, {
       baseURL: config.baseURL,
       timeout: config.timeout || 30000,
       headers: {
@@ -46,77 +116,125 @@ export class HTTPClient {
         'User-Agent': `ziptax-node/${SDK_VERSION}`,
       },
     });
-
-    // Add request interceptor for logging
-    if (this.enableLogging) {
-      this.axiosInstance.interceptors.request.use((request) => {
-        console.log('Request:', {
-          method: request.method,
-          url: request.url,
-          params: request.params,
-        });
-        return request;
-      });
-    }
-
-    // Add response interceptor for logging
-    if (this.enableLogging) {
-      this.axiosInstance.interceptors.response.use(
-        (response) => {
-          console.log('Response:', {
-            status: response.status,
-            data: response.data,
-          });
-          return response;
-        },
-        (error) => {
-          console.error('Response Error:', {
-            message: error.message,
-            status: error.response?.status,
-            data: error.response?.data,
-          });
-          return Promise.reject(error);
-        }
-      );
-    }
   }
 
   /**
    * Make a GET request
    */
-  async get<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    return this.request<T>({ ...config, method: 'GET', url });
+  async get<T>(url: string, config?: RequestConfig): Promise<T> {
+    return this.request<T>('GET', url, undefined, config);
   }
 
   /**
    * Make a POST request
    */
-  async post<T>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
-    return this.request<T>({ ...config, method: 'POST', url, data });
+  async post<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T> {
+    return this.request<T>('POST', url, data, config);
   }
 
   /**
    * Make a PATCH request
    */
-  async patch<T>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<T> {
-    return this.request<T>({ ...config, method: 'PATCH', url, data });
+  async patch<T>(url: string, data?: unknown, config?: RequestConfig): Promise<T> {
+    return this.request<T>('PATCH', url, data, config);
+  }
+
+  /**
+   * Register a middleware. Middleware run for every request attempt made by this client.
+   */
+  use(middleware: Middleware): void {
+    this.middleware.push(middleware);
+  }
+
+  /**
+   * Get the circuit breaker state, or undefined when no circuit breaker is configured
+   */
+  getCircuitState(): CircuitState | undefined {
+    return this.circuitBreaker?.state;
   }
 
   /**
    * Make a request with retry logic
    */
-  private async request<T>(config: AxiosRequestConfig): Promise<T> {
+  private async request<T>(
+    method: HTTPMethod,
+    url: string,
+    data?: unknown,
+    config?: RequestConfig
+  ): Promise<T> {
+    // Logging runs innermost so it sees the final request and the raw response
+    const middleware = this.loggingMiddleware
+      ? [...this.middleware, this.loggingMiddleware]
+      : [...this.middleware];
+    let attempt = 0;
+
     const makeRequest = async (): Promise<T> => {
+      const context: MiddlewareContext = { backend: this.name, attempt: ++attempt };
+
+      let releaseSlot: (() => void) | undefined;
+
       try {
-        const response: AxiosResponse<T> = await this.axiosInstance.request(config);
-        this.checkResponseBody(response.data);
-        return response.data;
+        // Queues until the rate and concurrency limits allow another request
+        releaseSlot = await this.rateLimiter?.acquire(config?.signal);
+
+        // Fails fast with ZiptaxCircuitOpenError while the circuit is open
+        const release = this.circuitBreaker?.acquire();
+        let response: TransportResponse<T>;
+
+        try {
+          const request = await applyRequestMiddleware(
+            middleware,
+            {
+              method,
+              url,
+              params: config?.params,
+              data,
+              headers: config?.headers,
+              timeout: config?.timeout,
+              signal: config?.signal,
+            },
+            context
+          );
+
+          response = await this.transport.request<T>(request);
+
+          if (response.status >= 400) {
+            throw this.handleErrorResponse(response);
+          }
+
+          this.checkResponseBody(response.data);
+          release?.();
+        } catch (error) {
+          release?.(this.handleError(error));
+          throw error;
+        }
+
+        const result = await applyResponseMiddleware(middleware, response, context);
+        return result.data as T;
       } catch (error) {
-        throw this.handleError(error);
+        const normalized = this.handleError(error);
+        if (normalized instanceof ZiptaxError) {
+          throw await applyErrorMiddleware(middleware, normalized, context);
+        }
+        throw normalized;
+      } finally {
+        releaseSlot?.();
       }
     };
 
-    return retryWithBackoff(makeRequest, this.retryOptions);
+    try {
+      return await retryWithBackoff(
+        makeRequest,
+        { ...this.retryOptions, ...config?.retryOptions },
+        config?.signal
+      );
+    } catch (error) {
+      // Giving up is an error of its own, after every attempt's error has been seen
+      if (error instanceof ZiptaxRetryError) {
+        throw await applyErrorMiddleware(middleware, error, { backend: this.name, attempt });
+      }
+      throw error;
+    }
   }
 
   /**
@@ -149,21 +267,21 @@ export class HTTPClient {
   }
 
   /**
-   * Handle and transform axios errors into ZipTax errors
+   * Normalize anything thrown while making a request into an Error.
+   * ZipTax errors (including network errors raised by the transport) pass through unchanged.
    */
   private handleError(error: unknown): Error {
-    if (!axios.isAxiosError(error)) {
-      return error instanceof Error ? error : new Error(String(error));
-    }
-
-    const axiosError = error as AxiosError;
-
-    // Network errors (no response received)
-    if (!axiosError.response) {
-      return new ZiptaxNetworkError(axiosError.message || 'Network request failed', axiosError);
+    if (error instanceof ZiptaxError) {
+      return error;
     }
+    return error instanceof Error ? error : new Error(String(error));
+  }
 
-    const { status, data } = axiosError.response;
+  /**
+   * Transform an HTTP error response (status >= 400) into a ZipTax error
+   */
+  private handleErrorResponse(response: TransportResponse<unknown>): ZiptaxAPIError {
+    const { status, data, headers } = response;
 
     // Authentication errors
     if (status === 401 || status === 403) {
@@ -174,10 +292,10 @@ export class HTTPClient {
 
     // Rate limit errors
     if (status === 429) {
-      const retryAfter = axiosError.response.headers['retry-after'];
+      const retryAfter = headers['retry-after'];
       return new ZiptaxRateLimitError(
         this.extractErrorMessage(data) || 'Rate limit exceeded',
-        retryAfter ? parseInt(retryAfter, 10) : undefined
+        this.parseRetryAfter(retryAfter)
       );
     }
 
@@ -189,6 +307,20 @@ export class HTTPClient {
     );
   }
 
+  /**
+   * Parse a Retry-After header, given either as seconds or as an HTTP date, into seconds
+   */
+  private parseRetryAfter(value: string | undefined): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (/^\d+$/.test(value.trim())) {
+      return parseInt(value, 10);
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
   /**
    * Extract error message from response data
    */
@@ -0,0 +1,220 @@
+/**
+ * Tax-inclusive cart pricing: backing net prices and tax out of gross prices
+ */
+
+import { ZiptaxAPIError } from '../exceptions';
+import {
+  CalculateCartRequest,
+  CalculateCartResponse,
+  TaxCloudCalculateCartResponse,
+} from '../models';
+import { CalculateCartOptions, normalizeCartResponse } from './cart';
+import { CurrencyCode, Money } from './money';
+
+/**
+ * Options for calculating a cart whose prices include tax
+ */
+export interface TaxInclusiveCartOptions extends CalculateCartOptions {
+  /** Line item prices are tax-inclusive (gross) unit prices */
+  pricesIncludeTax: true;
+  /**
+   * Maximum number of backend calls made while the rates change with the net
+   * prices (default: 3)
+   */
+  maxIterations?: number;
+}
+
+/**
+ * A line of a tax-inclusive cart, split into net price and tax
+ */
+export interface TaxInclusiveLine {
+  /** Position of the line within the cart (0-based) */
+  index: number;
+  /** Line item id */
+  itemId: string;
+  /** Quantity */
+  quantity: number;
+  /** Tax rate returned by the backend */
+  rate: number;
+  /** Tax-inclusive unit price, as given */
+  grossPrice: number;
+  /** Net unit price sent to the backend */
+  netPrice: number;
+  /** Tax-inclusive line total (grossPrice x quantity) */
+  gross: number;
+  /** Net line total */
+  net: number;
+  /** Tax included in the line total (gross minus net) */
+  tax: number;
+  /** Tax amount returned by the backend for the net line */
+  backendTax: number;
+}
+
+/**
+ * Check that the net and tax amounts add up to the shelf prices
+ */
+export interface TaxInclusiveReconciliation {
+  /** Sum of the tax-inclusive line totals */
+  gross: number;
+  /** Sum of the net line totals */
+  net: number;
+  /** Sum of the included tax (always gross minus net, to the cent) */
+  tax: number;
+  /** Sum of the tax amounts returned by the backend */
+  backendTax: number;
+  /** backendTax minus tax, e.g. from the backend's rounding */
+  difference: number;
+  /** Number of backend calls made */
+  iterations: number;
+  /** Whether the rates were unchanged by the last net prices sent */
+  converged: boolean;
+}
+
+/**
+ * Result of calculating a cart whose prices include tax
+ */
+export interface TaxInclusiveCartResult {
+  /** Backend response for the cart at net prices */
+  response: CalculateCartResponse | TaxCloudCalculateCartResponse;
+  /** Net and gross amounts per line, in cart order */
+  lines: TaxInclusiveLine[];
+  /** Totals, and the difference from the backend's tax amounts */
+  reconciliation: TaxInclusiveReconciliation;
+  /**
+   * Cart ids of the earlier backend calls, in call order: the cart at gross
+   * prices and any superseded net prices. Only `response` should be used for
+   * orders; with TaxCloud, these carts stay saved at the wrong prices.
+   */
+  discardedCartIds: string[];
+}
+
+/**
+ * Get the tax rate of every line of a single-cart response, in cart order
+ *
+ * @throws ZiptaxAPIError if the response is missing a line
+ */
+export function getLineRates(
+  response: CalculateCartResponse | TaxCloudCalculateCartResponse,
+  lineCount: number
+): number[] {
+  const lines = normalizeCartResponse(response).items[0]?.lineItems ?? [];
+  const rates = new Map(lines.map((line) => [line.index, line.tax.rate]));
+  return Array.from({ length: lineCount }, (_, index) => {
+    const rate = rates.get(index);
+    if (rate === undefined) {
+      throw new ZiptaxAPIError(`cart response is missing line item ${index}`, undefined, response);
+    }
+    return rate;
+  });
+}
+
+/**
+ * Net line total for a tax-inclusive line total at a rate
+ */
+function netTotal(gross: Money, rate: number): Money {
+  return gross.divide(Number((1 + rate).toPrecision(15)));
+}
+
+/**
+ * Replace the tax-inclusive prices of a single-cart request with net prices.
+ *
+ * Each line's net total is its gross total divided by 1 + rate, rounded to
+ * the cent; the net unit price is the net total divided by the quantity.
+ *
+ * @param request - Request with tax-inclusive prices
+ * @param rates - Tax rate of every line, in cart order
+ */
+export function toNetPrices(
+  request: CalculateCartRequest,
+  rates: readonly number[]
+): CalculateCartRequest {
+  const [cart] = request.items;
+  const currency = cart.currency.currencyCode;
+  return {
+    ...request,
+    items: [
+      {
+        ...cart,
+        lineItems: cart.lineItems.map((line, i) => {
+          const net = netTotal(Money.of(line.price * line.quantity, currency), rates[i]);
+          return { ...line, price: Number((net.toNumber() / line.quantity).toPrecision(12)) };
+        }),
+      },
+    ],
+  };
+}
+
+/**
+ * Split the lines of a tax-inclusive cart into net and tax, and check the
+ * result against the shelf prices.
+ *
+ * Each line's tax is its gross total minus its net total, so net plus tax
+ * always equals the shelf price to the cent. The backend's tax amounts for
+ * the net cart are reported alongside, with their total difference.
+ *
+ * @param grossRequest - Request with tax-inclusive prices
+ * @param netRequest - Request with the net prices that were sent
+ * @param response - Backend response for netRequest
+ * @param iterations - Number of backend calls made
+ * @param converged - Whether the rates were unchanged by the net prices
+ * @param discardedCartIds - Cart ids of the earlier backend calls
+ */
+export function reconcileTaxInclusiveCart(
+  grossRequest: CalculateCartRequest,
+  netRequest: CalculateCartRequest,
+  response: CalculateCartResponse | TaxCloudCalculateCartResponse,
+  iterations: number,
+  converged: boolean,
+  discardedCartIds: string[] = []
+): TaxInclusiveCartResult {
+  const grossLines = grossRequest.items[0].lineItems;
+  const netLines = netRequest.items[0].lineItems;
+  const currency: CurrencyCode = grossRequest.items[0].currency.currencyCode;
+  const rates = getLineRates(response, grossLines.length);
+  const backendAmounts = new Map(
+    (normalizeCartResponse(response).items[0]?.lineItems ?? []).map((line) => [
+      line.index,
+      line.tax.amount,
+    ])
+  );
+
+  let gross = Money.zero(currency);
+  let net = Money.zero(currency);
+  let backendTax = Money.zero(currency);
+  const lines = grossLines.map((line, index): TaxInclusiveLine => {
+    const lineGross = Money.of(line.price * line.quantity, currency);
+    const lineNet = Money.of(netLines[index].price * line.quantity, currency);
+    const lineBackendTax = Money.of(backendAmounts.get(index) ?? 0, currency);
+    gross = gross.add(lineGross);
+    net = net.add(lineNet);
+    backendTax = backendTax.add(lineBackendTax);
+    return {
+      index,
+      itemId: line.itemId,
+      quantity: line.quantity,
+      rate: rates[index],
+      grossPrice: line.price,
+      netPrice: netLines[index].price,
+      gross: lineGross.toNumber(),
+      net: lineNet.toNumber(),
+      tax: lineGross.subtract(lineNet).toNumber(),
+      backendTax: lineBackendTax.toNumber(),
+    };
+  });
+
+  const tax = gross.subtract(net);
+  return {
+    response,
+    lines,
+    reconciliation: {
+      gross: gross.toNumber(),
+      net: net.toNumber(),
+      tax: tax.toNumber(),
+      backendTax: backendTax.toNumber(),
+      difference: backendTax.subtract(tax).toNumber(),
+      iterations,
+      converged,
+    },
+    discardedCartIds,
+  };
+}
@@ -1,6 +1,27 @@
 /**
  * Utility modules
  */
+export * from './batch';
+export * from './cache';
+export * from './calculator';
+export * from './cart';
+export * from './cart-builder';
+export * from './chunk';
+export * from './circuit-breaker';
+export * from './diff';
+export * from './history';
 export * from './http';
+export * from './inclusive';
+export * from './lines';
+export * from './logger';
+export * from './middleware';
+export * from './money';
+export * from './monitor';
+export * from './rate-limiter';
 export * from './retry';
+export * from './rounding';
+export * from './shadow';
+export * from './stream';
+export * from './summary';
+export * from './transport';
 export * from './validation';
@@ -0,0 +1,239 @@
+/**
+ * Product, shipping, handling and discount line semantics for carts
+ */
+
+import { ZiptaxValidationError } from '../exceptions';
+import { CalculateCartRequest, CartItem, CartLineItem } from '../models';
+import { CurrencyCode, Money } from './money';
+import { validateCartLineItem } from './validation';
+
+/**
+ * Kind of charge a cart line represents
+ */
+export type CartLineKind = 'product' | 'shipping' | 'handling' | 'discount';
+
+/**
+ * Cart line item with a kind.
+ *
+ * A discount line is an order-level discount: its price x quantity is the
+ * positive amount taken off the order. It is not sent to the backend.
+ */
+export interface TypedCartLineItem extends CartLineItem {
+  /** Kind of the line (default: 'product') */
+  kind?: CartLineKind;
+}
+
+/**
+ * Cart whose line items may have kinds
+ */
+export interface TypedCartItem extends Omit<CartItem, 'lineItems'> {
+  /** Array of line items in the cart */
+  lineItems: TypedCartLineItem[];
+}
+
+/**
+ * Cart calculation request whose line items may have kinds
+ */
+export interface TypedCalculateCartRequest {
+  /** Array of cart items */
+  items: TypedCartItem[];
+}
+
+/**
+ * TICs used for lines of each kind that have no taxabilityCode
+ */
+export interface LineKindTics {
+  /** TIC for product lines (default: none, i.e. the backend's default) */
+  product?: number;
+  /** TIC for shipping lines (default: 11010) */
+  shipping?: number;
+  /** TIC for handling lines (default: 11000) */
+  handling?: number;
+}
+
+/**
+ * Default TICs for shipping and handling lines
+ */
+export const DEFAULT_LINE_KIND_TICS: Readonly<Required<Omit<LineKindTics, 'product'>>> = {
+  shipping: 11010,
+  handling: 11000,
+};
+
+export interface CartLineOptions {
+  /** TICs for lines of each kind that have no taxabilityCode */
+  tics?: LineKindTics;
+  /** Currency of the amounts (default: 'USD') */
+  currency?: CurrencyCode;
+}
+
+/**
+ * Part of the order-level discounts allocated to a product line
+ */
+export interface DiscountAllocation {
+  /** Line item id */
+  itemId: string;
+  /** Unit price before the discount */
+  originalPrice: number;
+  /** Unit price after the discount */
+  price: number;
+  /** Amount taken off the line (price x quantity) */
+  discount: number;
+}
+
+/**
+ * Cart lines ready to send to a backend
+ */
+export interface PreparedCartLines {
+  /** Product, shipping and handling lines with TICs applied and discounts allocated */
+  lineItems: CartLineItem[];
+  /** Ids of the shipping and handling lines */
+  shippingItemIds: string[];
+  /** Discount allocated to each product line */
+  discounts: DiscountAllocation[];
+}
+
+/**
+ * Cart calculation request ready to send to a backend
+ */
+export interface PreparedCartRequest {
+  /** Request without kinds or discount lines */
+  request: CalculateCartRequest;
+  /** Discount allocated to each product line, per cart */
+  discounts: DiscountAllocation[][];
+}
+
+/**
+ * Every cart line kind
+ */
+export const CART_LINE_KINDS: readonly CartLineKind[] = [
+  'product',
+  'shipping',
+  'handling',
+  'discount',
+];
+
+/**
+ * Turn typed cart lines into plain ones.
+ *
+ * Shipping and handling lines without a taxabilityCode get the TIC for their
+ * kind. Discount lines are removed, and their total is allocated to the
+ * product lines in proportion to their price x quantity, lowering their unit
+ * prices. Unit prices of lines with a quantity other than 1 may then have more
+ * than two decimals.
+ *
+ * @param lineItems - Typed line items
+ * @param options - TIC and currency options
+ * @throws ZiptaxValidationError if a line is invalid, or the discounts are not less than the product subtotal
+ *
+ * @example
+ * ```typescript
+ * const { lineItems, discounts } = prepareCartLines([
+ *   { itemId: 'shirt', price: 20, quantity: 1 },
+ *   { itemId: 'mug', price: 10, quantity: 1 },
+ *   { itemId: 'shipping', price: 5, quantity: 1, kind: 'shipping' },
+ *   { itemId: 'SAVE3', price: 3, quantity: 1, kind: 'discount' },
+ * ]);
+ * // shirt: 18, mug: 9, shipping: 5 with TIC 11010
+ * ```
+ */
+export function prepareCartLines(
+  lineItems: readonly TypedCartLineItem[],
+  options: CartLineOptions = {}
+): PreparedCartLines {
+  const currency = options.currency ?? 'USD';
+  const tics = { ...DEFAULT_LINE_KIND_TICS, ...options.tics };
+
+  const lines: CartLineItem[] = [];
+  const shippingItemIds: string[] = [];
+  const productIndexes: number[] = [];
+  let discountTotal = Money.zero(currency);
+
+  for (const { kind = 'product', ...item } of lineItems) {
+    if (!CART_LINE_KINDS.includes(kind)) {
+      throw new ZiptaxValidationError(
+        "lineItems[].kind must be 'product', 'shipping', 'handling' or 'discount'"
+      );
+    }
+    validateCartLineItem(item);
+
+    if (kind === 'discount') {
+      discountTotal = discountTotal.add(Money.of(item.price * item.quantity, currency));
+      continue;
+    }
+    if (kind === 'product') {
+      productIndexes.push(lines.length);
+    } else {
+      shippingItemIds.push(item.itemId);
+    }
+    const tic = item.taxabilityCode ?? tics[kind];
+    lines.push(tic === undefined ? item : { ...item, taxabilityCode: tic });
+  }
+
+  if (discountTotal.isZero()) {
+    return { lineItems: lines, shippingItemIds, discounts: [] };
+  }
+
+  const subtotals = productIndexes.map((index) =>
+    Money.of(lines[index].price * lines[index].quantity, currency)
+  );
+  if (discountTotal.compare(Money.sum(subtotals, currency)) >= 0) {
+    throw new ZiptaxValidationError(
+      'discounts must be less than the subtotal of the product lines'
+    );
+  }
+
+  const shares = discountTotal.allocate(subtotals.map((subtotal) => subtotal.minorUnits));
+  const discounts = productIndexes.map((index, i): DiscountAllocation => {
+    const line = lines[index];
+    const price = Number(
+      (subtotals[i].subtract(shares[i]).toNumber() / line.quantity).toPrecision(12)
+    );
+    lines[index] = { ...line, price };
+    return {
+      itemId: line.itemId,
+      originalPrice: line.price,
+      price,
+      discount: shares[i].toNumber(),
+    };
+  });
+
+  return { lineItems: lines, shippingItemIds, discounts };
+}
+
+/**
+ * Turn a cart calculation request with typed lines into a plain one, applying
+ * prepareCartLines to every cart. A request without typed lines is returned
+ * unchanged.
+ *
+ * @param request - Request whose line items may have kinds
+ * @param tics - TICs for lines of each kind that have no taxabilityCode
+ * @throws ZiptaxValidationError if a line is invalid, or a cart's discounts are not less than its product subtotal
+ */
+export function prepareCartRequest(
+  request: TypedCalculateCartRequest,
+  tics?: LineKindTics
+): PreparedCartRequest {
+  const items = Array.isArray(request.items) ? request.items : [];
+  const typed = items.some(
+    (cart) => Array.isArray(cart.lineItems) && cart.lineItems.some((line) => 'kind' in line)
+  );
+  if (!typed) {
+    return { request: request as CalculateCartRequest, discounts: items.map(() => []) };
+  }
+
+  const prepared = items.map((cart) =>
+    Array.isArray(cart.lineItems)
+      ? prepareCartLines(cart.lineItems, {
+          tics,
+          currency: cart.currency?.currencyCode === 'CAD' ? 'CAD' : 'USD',
+        })
+      : { lineItems: cart.lineItems, shippingItemIds: [], discounts: [] }
+  );
+  return {
+    request: {
+      ...request,
+      items: items.map((cart, i) => ({ ...cart, lineItems: prepared[i].lineItems })),
+    },
+    discounts: prepared.map((cart) => cart.discounts),
+  };
+}
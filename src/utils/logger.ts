@@ -0,0 +1,174 @@
+/**
+ * Structured logging and redaction utilities
+ */
+
+/**
+ * Log levels, from most to least verbose. 'silent' disables logging.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Structured fields attached to a log entry
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger interface used by the SDK.
+ *
+ * Matches the (message, fields) signature used by winston and console-style
+ * loggers. Use adaptPinoLogger for loggers that take (fields, message).
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * A pino-style logger, taking structured fields before the message
+ */
+export interface PinoLikeLogger {
+  debug(fields: object, message?: string): void;
+  info(fields: object, message?: string): void;
+  warn(fields: object, message?: string): void;
+  error(fields: object, message?: string): void;
+}
+
+/**
+ * Options for resolving the logger used by HTTPClient
+ */
+export interface LoggerOptions {
+  /** Custom logger (enables logging when provided) */
+  logger?: Logger;
+  /** Minimum level to log (default: 'debug') */
+  logLevel?: LogLevel;
+  /** Log to the console when no custom logger is provided */
+  enableLogging?: boolean;
+}
+
+/**
+ * Placeholder written in place of redacted values
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Field names (lower-cased) whose values are redacted: credentials,
+ * customer addresses, precise locations and customer identifiers
+ */
+const SENSITIVE_KEYS = new Set([
+  'apikey',
+  'taxcloudapikey',
+  'x-api-key',
+  'authorization',
+  'address',
+  'normalizedaddress',
+  'line1',
+  'line2',
+  'lat',
+  'lng',
+  'geolat',
+  'geolng',
+  'customerid',
+]);
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+/**
+ * Return a deep copy of a value with sensitive fields replaced by REDACTED
+ */
+export function redact<T>(value: T): T {
+  return redactValue(value, new WeakSet()) as T;
+}
+
+function redactValue(value: unknown, seen: WeakSet<object>): unknown {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, fieldValue] of Object.entries(value as Record<string, unknown>)) {
+    if (SENSITIVE_KEYS.has(key.toLowerCase()) && fieldValue !== undefined && fieldValue !== null) {
+      result[key] = REDACTED;
+    } else {
+      result[key] = redactValue(fieldValue, seen);
+    }
+  }
+  return result;
+}
+
+/**
+ * Logger that writes to the console. Every level goes to stderr (debug and
+ * info through console.error), keeping stdout free for program output.
+ */
+export const consoleLogger: Logger = {
+  debug(message, fields) {
+    console.error(message, fields ?? {});
+  },
+  info(message, fields) {
+    console.error(message, fields ?? {});
+  },
+  warn(message, fields) {
+    console.warn(message, fields ?? {});
+  },
+  error(message, fields) {
+    console.error(message, fields ?? {});
+  },
+};
+
+/**
+ * Wrap a logger so entries below the given level are dropped
+ */
+export function withLogLevel(logger: Logger, level: LogLevel): Logger {
+  const threshold = LEVEL_ORDER[level];
+  const noop = (): void => undefined;
+
+  return {
+    debug: LEVEL_ORDER.debug >= threshold ? logger.debug.bind(logger) : noop,
+    info: LEVEL_ORDER.info >= threshold ? logger.info.bind(logger) : noop,
+    warn: LEVEL_ORDER.warn >= threshold ? logger.warn.bind(logger) : noop,
+    error: LEVEL_ORDER.error >= threshold ? logger.error.bind(logger) : noop,
+  };
+}
+
+/**
+ * Adapt a pino-style logger (fields first, message second) to the Logger interface
+ *
+ * @example
+ * ```typescript
+ * const client = new ZiptaxClient({ apiKey, logger: adaptPinoLogger(pino()) });
+ * ```
+ */
+export function adaptPinoLogger(logger: PinoLikeLogger): Logger {
+  return {
+    debug: (message, fields) => logger.debug(fields ?? {}, message),
+    info: (message, fields) => logger.info(fields ?? {}, message),
+    warn: (message, fields) => logger.warn(fields ?? {}, message),
+    error: (message, fields) => logger.error(fields ?? {}, message),
+  };
+}
+
+/**
+ * Resolve the logger to use, or undefined when logging is disabled
+ */
+export function resolveLogger(options: LoggerOptions): Logger | undefined {
+  const logger = options.logger ?? (options.enableLogging ? consoleLogger : undefined);
+  if (!logger || options.logLevel === 'silent') {
+    return undefined;
+  }
+  return withLogLevel(logger, options.logLevel ?? 'debug');
+}
@@ -0,0 +1,143 @@
+/**
+ * Request/response middleware pipeline for HTTPClient
+ */
+
+import { ZiptaxError } from '../exceptions';
+import { TransportRequest, TransportResponse } from './transport';
+import { Logger, redact } from './logger';
+
+/**
+ * Information about the request a middleware hook is running for
+ */
+export interface MiddlewareContext {
+  /** Backend the request is sent to (e.g., 'ziptax' or 'taxcloud') */
+  backend: string;
+  /** Attempt number, starting at 1 (incremented on every retry) */
+  attempt: number;
+}
+
+/**
+ * Middleware hooks run by HTTPClient on every request attempt.
+ *
+ * onRequest hooks run in registration order before the request is sent;
+ * onResponse and onError hooks run in reverse registration order, so the
+ * first middleware registered is the outermost. Each hook may return a
+ * replacement value, or nothing to keep the current one.
+ *
+ * onError runs for the error of every failed attempt. When retries are given
+ * up, it runs once more with the ZiptaxRetryError that the request rejects
+ * with, and the same attempt number as the last attempt.
+ */
+export interface Middleware {
+  /** Optional name, useful for debugging */
+  name?: string;
+  /** Inspect or modify the outgoing request */
+  onRequest?(
+    request: TransportRequest,
+    context: MiddlewareContext
+  ): TransportRequest | void | Promise<TransportRequest | void>;
+  /** Inspect or modify a successful response */
+  onResponse?(
+    response: TransportResponse,
+    context: MiddlewareContext
+  ): TransportResponse | void | Promise<TransportResponse | void>;
+  /** Inspect or replace the error raised for a failed attempt, or the final ZiptaxRetryError */
+  onError?(
+    error: ZiptaxError,
+    context: MiddlewareContext
+  ): ZiptaxError | void | Promise<ZiptaxError | void>;
+}
+
+/**
+ * Run onRequest hooks in registration order
+ */
+export async function applyRequestMiddleware(
+  middleware: readonly Middleware[],
+  request: TransportRequest,
+  context: MiddlewareContext
+): Promise<TransportRequest> {
+  let current = request;
+  for (const mw of middleware) {
+    if (mw.onRequest) {
+      current = (await mw.onRequest(current, context)) || current;
+    }
+  }
+  return current;
+}
+
+/**
+ * Run onResponse hooks in reverse registration order
+ */
+export async function applyResponseMiddleware(
+  middleware: readonly Middleware[],
+  response: TransportResponse,
+  context: MiddlewareContext
+): Promise<TransportResponse> {
+  let current = response;
+  for (let i = middleware.length - 1; i >= 0; i--) {
+    const mw = middleware[i];
+    if (mw.onResponse) {
+      current = (await mw.onResponse(current, context)) || current;
+    }
+  }
+  return current;
+}
+
+/**
+ * Run onError hooks in reverse registration order
+ */
+export async function applyErrorMiddleware(
+  middleware: readonly Middleware[],
+  error: ZiptaxError,
+  context: MiddlewareContext
+): Promise<ZiptaxError> {
+  let current = error;
+  for (let i = middleware.length - 1; i >= 0; i--) {
+    const mw = middleware[i];
+    if (mw.onError) {
+      current = (await mw.onError(current, context)) || current;
+    }
+  }
+  return current;
+}
+
+/**
+ * Create the built-in middleware that writes structured request, response and
+ * error entries to a logger. Registered automatically by HTTPClient when a
+ * logger is configured or enableLogging is set.
+ *
+ * @param logger - Logger to write to
+ * @param redactFields - Redact credentials, addresses and customer IDs (default: true)
+ */
+export function createLoggingMiddleware(logger: Logger, redactFields: boolean = true): Middleware {
+  const clean = <T>(value: T): T => (redactFields ? redact(value) : value);
+
+  return {
+    name: 'logging',
+    onRequest(request, context): void {
+      logger.debug('ZipTax request', {
+        backend: context.backend,
+        attempt: context.attempt,
+        method: request.method,
+        url: request.url,
+        params: clean(request.params),
+      });
+    },
+    onResponse(response, context): void {
+      logger.debug('ZipTax response', {
+        backend: context.backend,
+        attempt: context.attempt,
+        status: response.status,
+      });
+    },
+    onError(error, context): void {
+      logger.error('ZipTax request failed', {
+        backend: context.backend,
+        attempt: context.attempt,
+        error: error.name,
+        message: error.message,
+        statusCode: (error as { statusCode?: number }).statusCode,
+      });
+    },
+  };
+}
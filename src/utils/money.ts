@@ -0,0 +1,452 @@
+/**
+ * Exact decimal money handling for cart and order amounts
+ */
+
+import { ZiptaxValidationError } from '../exceptions';
+import { resolveRoundingPolicy, RoundingMode, RoundingPolicy } from './rounding';
+
+/**
+ * Currencies supported by the cart and order APIs
+ */
+export type CurrencyCode = 'USD' | 'CAD';
+
+/**
+ * Decimal places of the minor unit (cents) of each currency
+ */
+const MINOR_UNIT_DIGITS: Record<CurrencyCode, number> = { USD: 2, CAD: 2 };
+
+/**
+ * An exact decimal: digits / 10^scale
+ */
+interface Decimal {
+  digits: bigint;
+  scale: number;
+}
+
+/**
+ * Parse a number or decimal string into an exact decimal. Numbers are first
+ * cleaned to 15 significant digits, which removes binary floating point noise
+ * such as 1.3100000000000001.
+ */
+function toDecimal(value: number | string, fieldName: string): Decimal {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new ZiptaxValidationError(`${fieldName} must be a finite number`);
+  }
+  const text = typeof value === 'number' ? value.toPrecision(15) : value.trim();
+  const match = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  if (!match || (match[2] === '' && !match[3])) {
+    throw new ZiptaxValidationError(`${fieldName} must be a decimal number`);
+  }
+
+  const [, sign, whole, fraction = '', exponent = '0'] = match;
+  let digits = BigInt(`${whole}${fraction}` || '0');
+  let scale = fraction.length - Number(exponent);
+  if (scale < 0) {
+    digits *= 10n ** BigInt(-scale);
+    scale = 0;
+  }
+  return { digits: sign === '-' ? -digits : digits, scale };
+}
+
+/**
+ * Divide two integers, rounding the quotient with the given mode
+ */
+function divideRounded(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  if (denominator < 0n) {
+    numerator = -numerator;
+    denominator = -denominator;
+  }
+  const negative = numerator < 0n;
+  const dividend = negative ? -numerator : numerator;
+  let quotient = dividend / denominator;
+  const twiceRemainder = (dividend % denominator) * 2n;
+
+  if (twiceRemainder !== 0n) {
+    const roundAway =
+      mode === 'up' ||
+      (mode === 'half-up' && twiceRemainder >= denominator) ||
+      (mode === 'half-even' &&
+        (twiceRemainder > denominator || (twiceRemainder === denominator && quotient % 2n === 1n)));
+    if (roundAway) {
+      quotient += 1n;
+    }
+  }
+  return negative ? -quotient : quotient;
+}
+
+/**
+ * An exact amount of money, stored as an integer number of minor units (cents).
+ *
+ * Money values are immutable. Arithmetic between amounts is exact; operations
+ * that can produce fractions of a cent (multiply, divide, allocate) round
+ * explicitly. Convert API number fields with Money.of() and back with
+ * toNumber() at the edges.
+ *
+ * @example
+ * ```typescript
+ * const tax = Money.sum(response.items[0].lineItems.map((line) => Money.of(line.tax.amount)));
+ * console.log(tax.toString()); // '1.31', never '1.3100000000000001'
+ * ```
+ */
+export class Money {
+  /** Amount in minor units (e.g., cents) */
+  readonly minorUnits: number;
+  /** Currency of the amount */
+  readonly currency: CurrencyCode;
+
+  private constructor(minorUnits: bigint, currency: CurrencyCode) {
+    if (!(currency in MINOR_UNIT_DIGITS)) {
+      throw new ZiptaxValidationError("currency must be 'USD' or 'CAD'");
+    }
+    const value = Number(minorUnits);
+    if (!Number.isSafeInteger(value)) {
+      throw new ZiptaxValidationError('amount exceeds the supported range');
+    }
+    // Normalize -0
+    this.minorUnits = value === 0 ? 0 : value;
+    this.currency = currency;
+  }
+
+  /**
+   * Create an amount from a number (e.g., an API field) or a decimal string,
+   * rounded to the currency's minor unit
+   * @param amount - Amount in major units (e.g., 12.34 or '12.34')
+   * @param currency - Currency (default: 'USD')
+   * @param rounding - Rounding for amounts with fractions of a cent (default: 'half-up')
+   */
+  static of(
+    amount: number | string,
+    currency: CurrencyCode = 'USD',
+    rounding: RoundingMode = 'half-up'
+  ): Money {
+    const decimal = toDecimal(amount, 'amount');
+    const minorScale = 10n ** BigInt(MINOR_UNIT_DIGITS[currency] ?? 0);
+    return new Money(
+      divideRounded(decimal.digits * minorScale, 10n ** BigInt(decimal.scale), rounding),
+      currency
+    );
+  }
+
+  /**
+   * Create an amount from an integer number of minor units (e.g., cents)
+   */
+  static fromMinorUnits(minorUnits: number, currency: CurrencyCode = 'USD'): Money {
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw new ZiptaxValidationError('minorUnits must be a safe integer');
+    }
+    return new Money(BigInt(minorUnits), currency);
+  }
+
+  /**
+   * A zero amount
+   */
+  static zero(currency: CurrencyCode = 'USD'): Money {
+    return new Money(0n, currency);
+  }
+
+  /**
+   * Add amounts exactly
+   * @param amounts - Amounts to add; all must share one currency
+   * @param currency - Currency of the result when amounts is empty (default: 'USD')
+   */
+  static sum(amounts: readonly Money[], currency: CurrencyCode = 'USD'): Money {
+    return amounts.reduce(
+      (total, amount) => total.add(amount),
+      Money.zero(amounts[0]?.currency ?? currency)
+    );
+  }
+
+  /**
+   * Add an amount. Numbers are converted with Money.of() in this currency.
+   * @throws ZiptaxValidationError if the currencies differ
+   */
+  add(other: Money | number | string): Money {
+    const amount = this.coerce(other);
+    return new Money(BigInt(this.minorUnits) + BigInt(amount.minorUnits), this.currency);
+  }
+
+  /**
+   * Subtract an amount. Numbers are converted with Money.of() in this currency.
+   * @throws ZiptaxValidationError if the currencies differ
+   */
+  subtract(other: Money | number | string): Money {
+    const amount = this.coerce(other);
+    return new Money(BigInt(this.minorUnits) - BigInt(amount.minorUnits), this.currency);
+  }
+
+  /**
+   * Multiply by a quantity or rate, rounding the result to the minor unit
+   * @param factor - Multiplier (e.g., a quantity of 1.5 or a tax rate of 0.0775)
+   * @param rounding - Rounding mode (default: 'half-up')
+   */
+  multiply(factor: number | string, rounding: RoundingMode = 'half-up'): Money {
+    const decimal = toDecimal(factor, 'factor');
+    return new Money(
+      divideRounded(
+        BigInt(this.minorUnits) * decimal.digits,
+        10n ** BigInt(decimal.scale),
+        rounding
+      ),
+      this.currency
+    );
+  }
+
+  /**
+   * Divide by a number, rounding the result to the minor unit
+   * @param divisor - Divisor (e.g., the quantity an amount was calculated for)
+   * @param rounding - Rounding mode (default: 'half-up')
+   * @throws ZiptaxValidationError if divisor is zero
+   */
+  divide(divisor: number | string, rounding: RoundingMode = 'half-up'): Money {
+    const decimal = toDecimal(divisor, 'divisor');
+    if (decimal.digits === 0n) {
+      throw new ZiptaxValidationError('divisor must not be zero');
+    }
+    return new Money(
+      divideRounded(
+        BigInt(this.minorUnits) * 10n ** BigInt(decimal.scale),
+        decimal.digits,
+        rounding
+      ),
+      this.currency
+    );
+  }
+
+  /**
+   * Split the amount in proportion to ratios without losing or creating a cent.
+   * Leftover minor units go to the parts with the largest remainders, earliest first.
+   *
+   * @param ratios - Non-negative weights (e.g., line subtotals), at least one positive
+   * @returns One amount per ratio, summing exactly to this amount
+   */
+  allocate(ratios: readonly (number | string)[]): Money[] {
+    const decimals = ratios.map((ratio) => toDecimal(ratio, 'ratios[]'));
+    if (decimals.some((decimal) => decimal.digits < 0n)) {
+      throw new ZiptaxValidationError('ratios must not be negative');
+    }
+    const scale = Math.max(0, ...decimals.map((decimal) => decimal.scale));
+    const weights = decimals.map(
+      (decimal) => decimal.digits * 10n ** BigInt(scale - decimal.scale)
+    );
+    const totalWeight = weights.reduce((total, weight) => total + weight, 0n);
+    if (totalWeight === 0n) {
+      throw new ZiptaxValidationError('ratios must contain a positive value');
+    }
+
+    const total = BigInt(this.minorUnits);
+    const magnitude = total < 0n ? -total : total;
+    const shares = weights.map((weight) => (magnitude * weight) / totalWeight);
+    const remainders = weights.map((weight, i) => magnitude * weight - shares[i] * totalWeight);
+
+    let leftover = magnitude - shares.reduce((sum, share) => sum + share, 0n);
+    const order = remainders
+      .map((remainder, index) => ({ remainder, index }))
+      .sort((a, b) =>
+        a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1
+      );
+    for (const { index } of order) {
+      if (leftover === 0n) {
+        break;
+      }
+      shares[index] += 1n;
+      leftover -= 1n;
+    }
+
+    return shares.map((share) => new Money(total < 0n ? -share : share, this.currency));
+  }
+
+  /**
+   * Negate the amount
+   */
+  negate(): Money {
+    return new Money(-BigInt(this.minorUnits), this.currency);
+  }
+
+  /**
+   * Round for cash payment. CAD amounts are rounded to the nearest 0.05 since
+   * the penny was withdrawn; USD amounts are returned unchanged.
+   */
+  roundForCash(): Money {
+    if (this.currency !== 'CAD') {
+      return this;
+    }
+    return new Money(divideRounded(BigInt(this.minorUnits), 5n, 'half-up') * 5n, this.currency);
+  }
+
+  /**
+   * Compare with another amount of the same currency
+   * @returns -1, 0 or 1
+   */
+  compare(other: Money): -1 | 0 | 1 {
+    const amount = this.coerce(other);
+    return this.minorUnits === amount.minorUnits ? 0 : this.minorUnits < amount.minorUnits ? -1 : 1;
+  }
+
+  /**
+   * Whether another amount has the same value and currency
+   */
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minorUnits === other.minorUnits;
+  }
+
+  isZero(): boolean {
+    return this.minorUnits === 0;
+  }
+
+  isNegative(): boolean {
+    return this.minorUnits < 0;
+  }
+
+  /**
+   * Amount in major units, for API number fields
+   */
+  toNumber(): number {
+    return this.minorUnits / Math.pow(10, MINOR_UNIT_DIGITS[this.currency]);
+  }
+
+  /**
+   * Amount as a fixed-point string (e.g., '-1.31')
+   */
+  toString(): string {
+    const digits = MINOR_UNIT_DIGITS[this.currency];
+    const magnitude = String(Math.abs(this.minorUnits)).padStart(digits + 1, '0');
+    const whole = magnitude.slice(0, magnitude.length - digits);
+    const fraction = magnitude.slice(magnitude.length - digits);
+    return `${this.minorUnits < 0 ? '-' : ''}${whole}${digits > 0 ? `.${fraction}` : ''}`;
+  }
+
+  /**
+   * Serialize as a number, so Money can be placed directly in request bodies
+   */
+  toJSON(): number {
+    return this.toNumber();
+  }
+
+  private coerce(other: Money | number | string): Money {
+    if (!(other instanceof Money)) {
+      return Money.of(other, this.currency);
+    }
+    if (other.currency !== this.currency) {
+      throw new ZiptaxValidationError(
+        `currency mismatch: cannot combine ${this.currency} and ${other.currency}`
+      );
+    }
+    return other;
+  }
+}
+
+/**
+ * A cart, order or refund line with a price, a quantity and optionally a tax amount
+ */
+export interface MoneyLineItem {
+  /** Unit price */
+  price: number;
+  /** Quantity */
+  quantity: number;
+  /** Tax for the line, if calculated */
+  tax?: { amount: number };
+}
+
+/**
+ * Exact totals of a set of lines
+ */
+export interface LineItemTotals {
+  /** Sum of price x quantity, each line rounded to the minor unit */
+  subtotal: Money;
+  /** Sum of the line tax amounts */
+  tax: Money;
+  /** Subtotal plus tax */
+  total: Money;
+}
+
+/**
+ * Exact price x quantity of a line, rounded once to the minor unit. The unit
+ * price is not rounded first, since discounted and net unit prices can have
+ * fractions of a cent.
+ */
+function lineSubtotal(
+  price: number,
+  quantity: number,
+  currency: CurrencyCode,
+  mode: RoundingMode
+): Money {
+  const unit = toDecimal(price, 'price');
+  const count = toDecimal(quantity, 'quantity');
+  const minorScale = 10n ** BigInt(MINOR_UNIT_DIGITS[currency] ?? 0);
+  const minorUnits = divideRounded(
+    unit.digits * count.digits * minorScale,
+    10n ** BigInt(unit.scale + count.scale),
+    mode
+  );
+  return Money.fromMinorUnits(Number(minorUnits), currency);
+}
+
+/**
+ * Add up cart, order or refund lines exactly.
+ *
+ * Works with ZipTax and TaxCloud cart response lines, order lines and refund
+ * lines, since they all have price, quantity and tax.amount fields.
+ *
+ * @param lineItems - Lines to add up
+ * @param currency - Currency of the lines (default: 'USD')
+ * @param rounding - Rounding for line subtotals with fractions of a cent: a mode, or a policy
+ *   whose level 'invoice' rounds the summed subtotal once instead of each line (default: 'half-up')
+ */
+export function sumLineItems(
+  lineItems: readonly MoneyLineItem[],
+  currency: CurrencyCode = 'USD',
+  rounding: RoundingMode | RoundingPolicy = 'half-up'
+): LineItemTotals {
+  const { level, mode } = resolveRoundingPolicy(rounding);
+  const subtotal =
+    level === 'invoice'
+      ? Money.of(
+          lineItems.reduce((total, line) => total + line.price * line.quantity, 0),
+          currency,
+          mode
+        )
+      : Money.sum(
+          lineItems.map((line) => lineSubtotal(line.price, line.quantity, currency, mode)),
+          currency
+        );
+  const tax = Money.sum(
+    lineItems.map((line) => Money.of(line.tax?.amount ?? 0, currency)),
+    currency
+  );
+  return { subtotal, tax, total: subtotal.add(tax) };
+}
+
+/**
+ * Calculate the amounts to refund for part of an order line.
+ *
+ * The line's tax is split by quantity with Money.allocate(), so the tax
+ * refunded and the tax left on the remaining quantity always add up to the
+ * tax charged.
+ *
+ * @param line - Order line (price, quantity and the tax charged for that quantity)
+ * @param refundQuantity - Quantity being refunded
+ * @param currency - Currency of the order (default: 'USD')
+ * @param rounding - Rounding for a refunded subtotal with fractions of a cent (default: 'half-up')
+ * @throws ZiptaxValidationError if refundQuantity is not between 0 and the line quantity
+ */
+export function refundLineAmounts(
+  line: MoneyLineItem,
+  refundQuantity: number,
+  currency: CurrencyCode = 'USD',
+  rounding: RoundingMode = 'half-up'
+): LineItemTotals {
+  if (!Number.isFinite(refundQuantity) || refundQuantity <= 0 || refundQuantity > line.quantity) {
+    throw new ZiptaxValidationError(
+      'refundQuantity must be greater than 0 and not exceed the line quantity'
+    );
+  }
+  const subtotal = lineSubtotal(line.price, refundQuantity, currency, rounding);
+  const tax =
+    refundQuantity === line.quantity
+      ? Money.of(line.tax?.amount ?? 0, currency)
+      : Money.of(line.tax?.amount ?? 0, currency).allocate([
+          refundQuantity,
+          line.quantity - refundQuantity,
+        ])[0];
+  return { subtotal, tax, total: subtotal.add(tax) };
+}
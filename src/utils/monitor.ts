@@ -0,0 +1,571 @@
+/**
+ * Rate change monitoring for a watched set of locations
+ */
+
+import { GetRatesByPostalCodeParams, GetSalesTaxByAddressParams } from '../config';
+import { V60PostalCodeResponse, V60Response } from '../models';
+import { mapWithConcurrency } from './batch';
+import { createCacheKey, LookupOptions } from './cache';
+import { consoleLogger, Logger } from './logger';
+import { validateConcurrency } from './validation';
+
+/**
+ * A location to watch: an address or a postal code.
+ * `id` identifies the location in the snapshot store (default: derived from the params).
+ */
+export type WatchedLocation = (
+  | Pick<GetSalesTaxByAddressParams, 'address' | 'taxabilityCode' | 'countryCode'>
+  | Pick<GetRatesByPostalCodeParams, 'postalcode'>
+) & { id?: string };
+
+/**
+ * Rates and rules for one location at one point in time. Snapshots are plain
+ * JSON so they can be persisted between runs.
+ */
+export interface RateSnapshot {
+  /** Time of the lookup (ISO 8601) */
+  checkedAt: string;
+  /**
+   * Jurisdiction rates keyed by jurisdiction: 'jurType|jurName' for addresses,
+   * 'STATE|CA', 'COUNTY|ORANGE', 'CITY|IRVINE' or 'DISTRICT|<code>' for postal codes
+   */
+  rates: Record<string, number>;
+  /** Service taxability */
+  serviceTaxable?: 'Y' | 'N';
+  /** Shipping taxability */
+  shippingTaxable?: 'Y' | 'N';
+  /** Origin ('O') or destination ('D') based sourcing */
+  sourcing?: 'O' | 'D';
+}
+
+/**
+ * A single difference between two snapshots. `before` is undefined for new
+ * values and `after` for values that are no longer returned.
+ */
+export type RateChange =
+  | { type: 'rate'; jurisdiction: string; before?: number; after?: number }
+  | { type: 'taxability'; field: 'service' | 'shipping'; before?: 'Y' | 'N'; after?: 'Y' | 'N' }
+  | { type: 'sourcing'; before?: 'O' | 'D'; after?: 'O' | 'D' };
+
+/**
+ * Event emitted when a watched location's rates change
+ */
+export interface RateChangeEvent {
+  /** Location id */
+  id: string;
+  /** Watched location */
+  location: WatchedLocation;
+  /** Differences from the previous snapshot */
+  changes: RateChange[];
+  /** Previously stored snapshot */
+  previous: RateSnapshot;
+  /** New snapshot */
+  current: RateSnapshot;
+}
+
+/**
+ * Event emitted when a watched location cannot be checked
+ */
+export interface RateMonitorErrorEvent {
+  /** Location id */
+  id: string;
+  /** Watched location */
+  location: WatchedLocation;
+  /** Lookup, snapshot store or change listener error */
+  error: Error;
+}
+
+/**
+ * Outcome of checking every watched location once
+ */
+export interface RateCheckSummary {
+  /** Number of locations checked, including failures */
+  checked: number;
+  /** Locations whose rates changed */
+  changes: RateChangeEvent[];
+  /** Locations that could not be checked, or whose change listener threw */
+  errors: RateMonitorErrorEvent[];
+}
+
+/**
+ * Storage backend for snapshots. Methods may be synchronous or return promises.
+ */
+export interface SnapshotStore {
+  /** Get the snapshot for a location, or undefined if there is none */
+  get(id: string): RateSnapshot | undefined | Promise<RateSnapshot | undefined>;
+  /** Store the snapshot for a location */
+  set(id: string, snapshot: RateSnapshot): void | Promise<void>;
+  /** Remove the snapshot for a location */
+  delete(id: string): void | Promise<void>;
+}
+
+/**
+ * In-memory snapshot store. Snapshots are lost when the process exits.
+ */
+export class MemorySnapshotStore implements SnapshotStore {
+  private readonly snapshots = new Map<string, RateSnapshot>();
+
+  get(id: string): RateSnapshot | undefined {
+    return this.snapshots.get(id);
+  }
+
+  set(id: string, snapshot: RateSnapshot): void {
+    this.snapshots.set(id, snapshot);
+  }
+
+  delete(id: string): void {
+    this.snapshots.delete(id);
+  }
+}
+
+/**
+ * Load fs on first use, so importing the SDK does not load Node built-ins
+ */
+async function loadFs(): Promise<typeof import('fs').promises> {
+  return (await import('fs')).promises;
+}
+
+/**
+ * Snapshot store backed by a JSON file, for monitors run from cron jobs.
+ *
+ * The file is read on first use and rewritten (through a temporary file and a
+ * rename) after every change. A missing file is treated as empty.
+ */
+export class JsonFileSnapshotStore implements SnapshotStore {
+  private readonly path: string;
+  private snapshots?: Promise<Record<string, RateSnapshot>>;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path - Path of the JSON file
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get(id: string): Promise<RateSnapshot | undefined> {
+    const snapshots = await this.load();
+    return Object.prototype.hasOwnProperty.call(snapshots, id) ? snapshots[id] : undefined;
+  }
+
+  async set(id: string, snapshot: RateSnapshot): Promise<void> {
+    const snapshots = await this.load();
+    snapshots[id] = snapshot;
+    await this.save(snapshots);
+  }
+
+  async delete(id: string): Promise<void> {
+    const snapshots = await this.load();
+    delete snapshots[id];
+    await this.save(snapshots);
+  }
+
+  private load(): Promise<Record<string, RateSnapshot>> {
+    if (!this.snapshots) {
+      this.snapshots = loadFs()
+        .then((fs) => fs.readFile(this.path, 'utf8'))
+        .then(
+          (text) => JSON.parse(text) as Record<string, RateSnapshot>,
+          (error: NodeJS.ErrnoException) => {
+            if (error.code === 'ENOENT') {
+              return {};
+            }
+            throw error;
+          }
+        )
+        .catch((error: unknown) => {
+          // Allow a later call to retry the read, including after a corrupt file
+          this.snapshots = undefined;
+          throw error;
+        });
+    }
+    return this.snapshots;
+  }
+
+  /**
+   * Write the file, one write at a time so concurrent changes never interleave
+   */
+  private save(snapshots: Record<string, RateSnapshot>): Promise<void> {
+    const write = this.writing.then(async () => {
+      const fs = await loadFs();
+      const temporaryPath = `${this.path}.${process.pid}.tmp`;
+      await fs.writeFile(temporaryPath, JSON.stringify(snapshots, null, 2));
+      await fs.rename(temporaryPath, this.path);
+    });
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+}
+
+/**
+ * Add a rate to a snapshot, suffixing repeated jurisdictions so none are lost
+ */
+function addRate(rates: Record<string, number>, jurisdiction: string, rate: number): void {
+  let key = jurisdiction;
+  for (let count = 1; key in rates; count++) {
+    key = `${jurisdiction}#${count}`;
+  }
+  rates[key] = rate;
+}
+
+/**
+ * Build a snapshot from an address lookup response
+ */
+export function snapshotFromResponse(response: V60Response, checkedAt = new Date()): RateSnapshot {
+  const rates: Record<string, number> = {};
+  for (const baseRate of response.baseRates ?? []) {
+    addRate(rates, `${baseRate.jurType}|${baseRate.jurName}`, baseRate.rate);
+  }
+  return {
+    checkedAt: checkedAt.toISOString(),
+    rates,
+    serviceTaxable: response.service.taxable,
+    shippingTaxable: response.shipping.taxable,
+    sourcing: response.sourcingRules?.value,
+  };
+}
+
+/**
+ * Build a snapshot from a postal code lookup response. Taxability and sourcing
+ * are taken from the first result.
+ */
+export function snapshotFromPostalCodeResponse(
+  response: V60PostalCodeResponse,
+  checkedAt = new Date()
+): RateSnapshot {
+  const rates: Record<string, number> = {};
+  const seen = new Set<string>();
+  for (const result of response.results ?? []) {
+    const districts = [1, 2, 3, 4, 5].map((n) => ({
+      code: result[`district${n}Code` as 'district1Code'],
+      rate: result[`district${n}SalesTax` as 'district1SalesTax'],
+    }));
+    const entries: Array<[string, number]> = [
+      [`STATE|${result.geoState}`, result.stateSalesTax],
+      [`COUNTY|${result.geoCounty}`, result.countySalesTax],
+      [`CITY|${result.geoCity}`, result.citySalesTax],
+      ...districts
+        .filter((district) => district.code)
+        .map((district): [string, number] => [`DISTRICT|${district.code}`, district.rate]),
+    ];
+    for (const [jurisdiction, rate] of entries) {
+      // Jurisdictions shared by several results (e.g., the state) are recorded once
+      if (!seen.has(`${jurisdiction}|${rate}`)) {
+        seen.add(`${jurisdiction}|${rate}`);
+        addRate(rates, jurisdiction, rate);
+      }
+    }
+  }
+
+  const first = response.results?.[0];
+  return {
+    checkedAt: checkedAt.toISOString(),
+    rates,
+    serviceTaxable: first?.txbService,
+    shippingTaxable: first?.txbFreight,
+    sourcing: first?.originDestination,
+  };
+}
+
+/**
+ * List the differences between two snapshots of the same location
+ */
+export function compareSnapshots(previous: RateSnapshot, current: RateSnapshot): RateChange[] {
+  const changes: RateChange[] = [];
+
+  for (const jurisdiction of new Set([
+    ...Object.keys(previous.rates),
+    ...Object.keys(current.rates),
+  ])) {
+    const before = previous.rates[jurisdiction];
+    const after = current.rates[jurisdiction];
+    if (before !== after) {
+      changes.push({ type: 'rate', jurisdiction, before, after });
+    }
+  }
+  if (previous.serviceTaxable !== current.serviceTaxable) {
+    changes.push({
+      type: 'taxability',
+      field: 'service',
+      before: previous.serviceTaxable,
+      after: current.serviceTaxable,
+    });
+  }
+  if (previous.shippingTaxable !== current.shippingTaxable) {
+    changes.push({
+      type: 'taxability',
+      field: 'shipping',
+      before: previous.shippingTaxable,
+      after: current.shippingTaxable,
+    });
+  }
+  if (previous.sourcing !== current.sourcing) {
+    changes.push({ type: 'sourcing', before: previous.sourcing, after: current.sourcing });
+  }
+  return changes;
+}
+
+/**
+ * Lookup methods used by the monitor (implemented by ZiptaxClient)
+ */
+export interface RateMonitorClient {
+  getSalesTaxByAddress(
+    params: GetSalesTaxByAddressParams,
+    options?: LookupOptions
+  ): Promise<V60Response>;
+  getRatesByPostalCode(
+    params: GetRatesByPostalCodeParams,
+    options?: LookupOptions
+  ): Promise<V60PostalCodeResponse>;
+}
+
+export interface RateMonitorOptions {
+  /** Locations to watch initially */
+  locations?: WatchedLocation[];
+  /** Snapshot store (default: a MemorySnapshotStore) */
+  store?: SnapshotStore;
+  /** Time in milliseconds between scheduled checks after start() (default: 86400000) */
+  interval?: number;
+  /** Maximum number of lookups in flight at once (default: 5) */
+  concurrency?: number;
+  /** Request options for every lookup (default: { cache: 'refresh' }) */
+  lookupOptions?: LookupOptions;
+  /** Called for every location whose rates changed */
+  onChange?: (event: RateChangeEvent) => void;
+  /** Called for every location that could not be checked, or whose change listener threw */
+  onError?: (event: RateMonitorErrorEvent) => void;
+  /** Logger for errors thrown by error listeners (default: console) */
+  logger?: Logger;
+}
+
+/**
+ * Re-checks a watched set of locations, on demand or on a schedule, and emits
+ * an event whenever a jurisdiction rate, taxability flag or sourcing rule
+ * differs from the stored snapshot.
+ *
+ * The first check of a location stores a baseline snapshot without emitting
+ * an event.
+ */
+export class RateMonitor {
+  private readonly client: RateMonitorClient;
+  private readonly store: SnapshotStore;
+  private readonly interval: number;
+  private readonly concurrency: number;
+  private readonly lookupOptions: LookupOptions;
+  private readonly locations = new Map<string, WatchedLocation>();
+  private readonly changeListeners: Array<(event: RateChangeEvent) => void> = [];
+  private readonly errorListeners: Array<(event: RateMonitorErrorEvent) => void> = [];
+  private readonly logger: Logger;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+
+  constructor(client: RateMonitorClient, options: RateMonitorOptions = {}) {
+    this.client = client;
+    this.store = options.store ?? new MemorySnapshotStore();
+    this.interval = options.interval ?? 86400000;
+    this.concurrency = options.concurrency ?? 5;
+    validateConcurrency(this.concurrency);
+    this.logger = options.logger ?? consoleLogger;
+    // Monitoring needs current rates, so skip (but still update) the response cache
+    this.lookupOptions = { cache: 'refresh', ...options.lookupOptions };
+    if (options.onChange) {
+      this.changeListeners.push(options.onChange);
+    }
+    if (options.onError) {
+      this.errorListeners.push(options.onError);
+    }
+    for (const location of options.locations ?? []) {
+      this.watch(location);
+    }
+  }
+
+  /**
+   * Ids of the watched locations
+   */
+  get watched(): string[] {
+    return [...this.locations.keys()];
+  }
+
+  /**
+   * Whether scheduled checks are running
+   */
+  get started(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Add a location to the watched set
+   * @returns The location id
+   */
+  watch(location: WatchedLocation): string {
+    const id =
+      location.id ??
+      ('address' in location
+        ? createCacheKey('address', {
+            address: location.address,
+            taxabilityCode: location.taxabilityCode,
+            countryCode: location.countryCode,
+          })
+        : createCacheKey('postalcode', { postalcode: location.postalcode }));
+    this.locations.set(id, location);
+    return id;
+  }
+
+  /**
+   * Remove a location from the watched set. Its stored snapshot is kept.
+   * @returns True if the location was watched
+   */
+  unwatch(id: string): boolean {
+    return this.locations.delete(id);
+  }
+
+  /**
+   * Register a listener for rate changes
+   * @returns A function that removes the listener
+   */
+  onChange(listener: (event: RateChangeEvent) => void): () => void {
+    return addListener(this.changeListeners, listener);
+  }
+
+  /**
+   * Register a listener for failed checks
+   * @returns A function that removes the listener
+   */
+  onError(listener: (event: RateMonitorErrorEvent) => void): () => void {
+    return addListener(this.errorListeners, listener);
+  }
+
+  /**
+   * Check every watched location once. Failures are reported per location
+   * and never reject the check. A change listener that throws is reported to
+   * the error listeners; an error listener that throws is logged.
+   */
+  async check(): Promise<RateCheckSummary> {
+    const summary: RateCheckSummary = { checked: 0, changes: [], errors: [] };
+
+    await mapWithConcurrency([...this.locations], this.concurrency, async ([id, location]) => {
+      try {
+        const event = await this.checkLocation(id, location);
+        if (event) {
+          summary.changes.push(event);
+        }
+      } catch (error) {
+        summary.errors.push({
+          id,
+          location,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      }
+      summary.checked++;
+    });
+
+    for (const event of summary.changes) {
+      for (const listener of [...this.changeListeners]) {
+        try {
+          listener(event);
+        } catch (error) {
+          summary.errors.push({
+            id: event.id,
+            location: event.location,
+            error: error instanceof Error ? error : new Error(String(error)),
+          });
+        }
+      }
+    }
+    for (const event of summary.errors) {
+      for (const listener of [...this.errorListeners]) {
+        try {
+          listener(event);
+        } catch (error) {
+          this.logger.error('Rate monitor error listener threw', {
+            id: event.id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+    return summary;
+  }
+
+  /**
+   * Check all locations now, then again every `interval` milliseconds until stop()
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    const run = (): void => {
+      const scheduleNext = (): void => {
+        if (this.running) {
+          this.timer = setTimeout(run, this.interval);
+        }
+      };
+      // Listener errors must not stop the schedule
+      this.check().then(scheduleNext, scheduleNext);
+    };
+    run();
+  }
+
+  /**
+   * Stop scheduled checks. A check already in progress still completes.
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async checkLocation(
+    id: string,
+    location: WatchedLocation
+  ): Promise<RateChangeEvent | undefined> {
+    const current =
+      'address' in location
+        ? snapshotFromResponse(
+            await this.client.getSalesTaxByAddress(
+              {
+                address: location.address,
+                taxabilityCode: location.taxabilityCode,
+                countryCode: location.countryCode,
+              },
+              this.lookupOptions
+            )
+          )
+        : snapshotFromPostalCodeResponse(
+            await this.client.getRatesByPostalCode(
+              { postalcode: location.postalcode },
+              this.lookupOptions
+            )
+          );
+
+    const previous = await this.store.get(id);
+    await this.store.set(id, current);
+    if (!previous) {
+      return undefined;
+    }
+
+    const changes = compareSnapshots(previous, current);
+    return changes.length > 0 ? { id, location, changes, previous, current } : undefined;
+  }
+}
+
+/**
+ * Register a listener
+ * @returns A function that removes the listener
+ */
+function addListener<T>(
+  listeners: Array<(event: T) => void>,
+  listener: (event: T) => void
+): () => void {
+  listeners.push(listener);
+  return (): void => {
+    const index = listeners.indexOf(listener);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Client-side rate and concurrency limiting
+ */
+
+import { ZiptaxAbortError, ZiptaxConfigurationError, ZiptaxQueueError } from '../exceptions';
+
+export interface RateLimitOptions {
+  /** Requests allowed per second, refilling a token bucket (unlimited when omitted) */
+  requestsPerSecond?: number;
+  /** Requests that may be sent in a burst (default: requestsPerSecond, at least 1) */
+  burst?: number;
+  /** Maximum number of requests in flight at once (unlimited when omitted) */
+  maxConcurrent?: number;
+  /**
+   * Maximum number of queued calls; further calls that would have to wait reject with
+   * ZiptaxQueueError (unlimited when omitted)
+   */
+  maxQueueSize?: number;
+  /** Time in milliseconds a call may wait in the queue before rejecting with ZiptaxQueueError */
+  queueTimeout?: number;
+}
+
+/**
+ * Rate limits for each backend
+ */
+export interface RateLimitConfig {
+  /** Limits for requests to the ZipTax API */
+  ziptax?: RateLimitOptions;
+  /** Limits for requests to the TaxCloud API */
+  taxcloud?: RateLimitOptions;
+}
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  cleanup: () => void;
+}
+
+/**
+ * Token-bucket rate limiter combined with a max-in-flight limit.
+ * Calls over either limit wait in a FIFO queue instead of failing.
+ */
+export class RateLimiter {
+  private readonly backend: string;
+  private readonly options: RateLimitOptions;
+  private readonly capacity: number;
+  private readonly queue: Waiter[] = [];
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private refillTimer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * @throws ZiptaxConfigurationError if requestsPerSecond or queueTimeout is not a positive
+   * number, or maxConcurrent or maxQueueSize is not a positive integer
+   */
+  constructor(backend: string, options: RateLimitOptions = {}) {
+    const { requestsPerSecond, maxConcurrent, maxQueueSize, queueTimeout } = options;
+    const invalid = (name: string, expected: string): ZiptaxConfigurationError =>
+      new ZiptaxConfigurationError(`rateLimit.${name} for ${backend} must be ${expected}`);
+    if (
+      requestsPerSecond !== undefined &&
+      !(Number.isFinite(requestsPerSecond) && requestsPerSecond > 0)
+    ) {
+      throw invalid('requestsPerSecond', 'a finite number greater than 0');
+    }
+    if (maxConcurrent !== undefined && !(Number.isInteger(maxConcurrent) && maxConcurrent > 0)) {
+      throw invalid('maxConcurrent', 'a positive integer');
+    }
+    if (maxQueueSize !== undefined && !(Number.isInteger(maxQueueSize) && maxQueueSize > 0)) {
+      throw invalid('maxQueueSize', 'a positive integer');
+    }
+    if (queueTimeout !== undefined && !(Number.isFinite(queueTimeout) && queueTimeout > 0)) {
+      throw invalid('queueTimeout', 'a finite number greater than 0');
+    }
+    this.backend = backend;
+    this.options = options;
+    this.capacity = Math.max(1, options.burst ?? options.requestsPerSecond ?? 1);
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Number of calls waiting in the queue
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Number of requests currently in flight
+   */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  /**
+   * Wait for permission to send a request
+   * @param signal - Optional AbortSignal; aborting removes the call from the queue
+   * @returns A function to call once the request has settled
+   * @throws ZiptaxQueueError if the queue is full or the queue timeout elapses
+   * @throws ZiptaxAbortError if the signal aborts while queued
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(new ZiptaxAbortError('Request was aborted.', signal.reason));
+    }
+    if (this.options.maxQueueSize !== undefined && this.queue.length >= this.options.maxQueueSize) {
+      return Promise.reject(
+        new ZiptaxQueueError(
+          `Request queue for ${this.backend} is full (${this.options.maxQueueSize} waiting)`,
+          this.backend,
+          'queue-full'
+        )
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const remove = (error: Error): void => {
+        const index = this.queue.indexOf(waiter);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          waiter.cleanup();
+          reject(error);
+        }
+      };
+      const onAbort = (): void =>
+        remove(new ZiptaxAbortError('Request was aborted.', signal?.reason));
+
+      const waiter: Waiter = {
+        resolve,
+        cleanup: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        },
+      };
+
+      if (this.options.queueTimeout !== undefined) {
+        timer = setTimeout(
+          () =>
+            remove(
+              new ZiptaxQueueError(
+                `Request waited more than ${this.options.queueTimeout}ms in the ${this.backend} queue`,
+                this.backend,
+                'queue-timeout'
+              )
+            ),
+          this.options.queueTimeout
+        );
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Start as many queued calls as the limits allow
+   */
+  private drain(): void {
+    while (this.queue.length > 0) {
+      if (this.options.maxConcurrent !== undefined && this.active >= this.options.maxConcurrent) {
+        return;
+      }
+      if (this.options.requestsPerSecond !== undefined) {
+        this.refill();
+        if (this.tokens < 1) {
+          this.scheduleRefill();
+          return;
+        }
+        this.tokens--;
+      }
+
+      const waiter = this.queue.shift()!;
+      waiter.cleanup();
+      this.active++;
+
+      let released = false;
+      waiter.resolve(() => {
+        if (!released) {
+          released = true;
+          this.active--;
+          this.drain();
+        }
+      });
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const rate = this.options.requestsPerSecond!;
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) * rate) / 1000);
+    this.lastRefill = now;
+  }
+
+  private scheduleRefill(): void {
+    if (this.refillTimer) {
+      return;
+    }
+    const wait = Math.ceil(((1 - this.tokens) * 1000) / this.options.requestsPerSecond!);
+    this.refillTimer = setTimeout(() => {
+      this.refillTimer = undefined;
+      this.drain();
+    }, wait);
+  }
+}
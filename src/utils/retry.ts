@@ -2,7 +2,17 @@
  * Retry utility for handling transient failures
  */
 
-import { ZiptaxRetryError } from '../exceptions';
+import { RetryAttempt, ZiptaxAbortError, ZiptaxRetryError } from '../exceptions';
+
+/**
+ * Jitter applied to the exponential backoff delay.
+ *
+ * - 'none': use the exponential delay as-is
+ * - 'full': random delay between 0 and the exponential delay
+ * - 'equal': half the exponential delay plus a random amount up to the other half
+ * - 'decorrelated': random delay between initialDelay and three times the previous delay
+ */
+export type JitterStrategy = 'none' | 'full' | 'equal' | 'decorrelated';
 
 export interface RetryOptions {
   /** Maximum number of retry attempts */
@@ -13,18 +23,31 @@ export interface RetryOptions {
   maxDelay?: number;
   /** Backoff multiplier */
   backoffMultiplier?: number;
+  /** Jitter strategy applied to the backoff delay (default: 'none') */
+  jitter?: JitterStrategy;
+  /** Wait for the server's Retry-After before retrying rate-limited requests (default: true) */
+  respectRetryAfter?: boolean;
+  /** Longest Retry-After in milliseconds to wait for; longer waits give up instead (default: 60000) */
+  maxRetryAfter?: number;
+  /** Retry budget shared by every request that uses these options */
+  budget?: RetryBudget;
   /** Function to determine if error should be retried */
   shouldRetry?: (error: Error, attempt: number) => boolean;
 }
 
-const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+type ResolvedRetryOptions = Required<Omit<RetryOptions, 'budget'>> & Pick<RetryOptions, 'budget'>;
+
+const DEFAULT_RETRY_OPTIONS: ResolvedRetryOptions = {
   maxAttempts: 3,
   initialDelay: 1000,
   maxDelay: 10000,
   backoffMultiplier: 2,
+  jitter: 'none',
+  respectRetryAfter: true,
+  maxRetryAfter: 60000,
   shouldRetry: (error: Error, _attempt: number) => {
-    // Retry on network errors and 5xx server errors
-    if (error.name === 'ZiptaxNetworkError') {
+    // Retry on network errors, rate limits and 5xx server errors
+    if (error.name === 'ZiptaxNetworkError' || error.name === 'ZiptaxRateLimitError') {
       return true;
     }
     if (error.name === 'ZiptaxAPIError') {
@@ -35,53 +58,202 @@ const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
   },
 };
 
+export interface RetryBudgetOptions {
+  /** Retries allowed per request made within the window (default: 0.2) */
+  ratio?: number;
+  /** Retries always allowed within the window, regardless of traffic (default: 10) */
+  minRetries?: number;
+  /** Length of the sliding window in milliseconds (default: 10000) */
+  windowMs?: number;
+}
+
+/**
+ * Limits retries to a fraction of recent traffic, so an outage does not
+ * multiply the number of requests sent. Share one instance across every
+ * request that should draw from the same budget.
+ *
+ * @example
+ * ```typescript
+ * const client = new ZiptaxClient({
+ *   apiKey,
+ *   retryOptions: { budget: new RetryBudget({ ratio: 0.1 }) },
+ * });
+ * ```
+ */
+export class RetryBudget {
+  private readonly ratio: number;
+  private readonly minRetries: number;
+  private readonly windowMs: number;
+  private requests: number[] = [];
+  private retries: number[] = [];
+
+  constructor(options: RetryBudgetOptions = {}) {
+    this.ratio = options.ratio ?? 0.2;
+    this.minRetries = options.minRetries ?? 10;
+    this.windowMs = options.windowMs ?? 10000;
+  }
+
+  /**
+   * Record a new request (not a retry)
+   */
+  recordRequest(): void {
+    this.prune();
+    this.requests.push(Date.now());
+  }
+
+  /**
+   * Withdraw one retry from the budget
+   * @returns false when the budget is exhausted
+   */
+  tryAcquire(): boolean {
+    if (this.available() < 1) {
+      return false;
+    }
+    this.retries.push(Date.now());
+    return true;
+  }
+
+  /**
+   * Number of retries currently available
+   */
+  available(): number {
+    this.prune();
+    return Math.floor(this.minRetries + this.requests.length * this.ratio) - this.retries.length;
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.windowMs;
+    this.requests = this.requests.filter((time) => time > cutoff);
+    this.retries = this.retries.filter((time) => time > cutoff);
+  }
+}
+
+/**
+ * Calculate delay with exponential backoff and jitter
+ */
+function calculateDelay(
+  attempt: number,
+  options: ResolvedRetryOptions,
+  previousDelay: number
+): number {
+  const delay = Math.min(
+    options.initialDelay * Math.pow(options.backoffMultiplier, attempt - 1),
+    options.maxDelay
+  );
+
+  switch (options.jitter) {
+    case 'full':
+      return Math.round(Math.random() * delay);
+    case 'equal':
+      return Math.round(delay / 2 + Math.random() * (delay / 2));
+    case 'decorrelated': {
+      const upper = Math.max(previousDelay * 3, options.initialDelay);
+      const next = options.initialDelay + Math.random() * (upper - options.initialDelay);
+      return Math.round(Math.min(next, options.maxDelay));
+    }
+    default:
+      return delay;
+  }
+}
+
+/**
+ * Get the server-requested Retry-After delay in milliseconds, if any
+ */
+function getRetryAfterDelay(error: Error, options: ResolvedRetryOptions): number | undefined {
+  if (!options.respectRetryAfter) {
+    return undefined;
+  }
+  const { retryAfter } = error as { retryAfter?: number };
+  return typeof retryAfter === 'number' && retryAfter >= 0 ? retryAfter * 1000 : undefined;
+}
+
 /**
- * Calculate delay with exponential backoff
+ * Throw ZiptaxAbortError if the signal has been aborted
  */
-function calculateDelay(attempt: number, options: Required<RetryOptions>): number {
-  const delay = options.initialDelay * Math.pow(options.backoffMultiplier, attempt - 1);
-  return Math.min(delay, options.maxDelay);
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ZiptaxAbortError('Request was aborted.', signal.reason);
+  }
 }
 
 /**
- * Sleep for specified milliseconds
+ * Sleep for specified milliseconds, rejecting early with ZiptaxAbortError if the signal aborts
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(new ZiptaxAbortError('Request was aborted.', signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
- * Retry a function with exponential backoff
+ * Retry a function with exponential backoff.
+ *
+ * Non-retryable errors are rethrown as-is. When a retryable error is still
+ * failing after the last attempt, or a retry is refused by the budget or a
+ * Retry-After longer than maxRetryAfter, a ZiptaxRetryError carrying every
+ * failed attempt is thrown instead.
+ *
+ * @param fn - Function to call on every attempt
+ * @param options - Retry configuration
+ * @param signal - Optional AbortSignal; aborting stops further attempts and cancels any pending backoff
  */
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
-  options: RetryOptions = {}
+  options: RetryOptions = {},
+  signal?: AbortSignal
 ): Promise<T> {
-  const opts: Required<RetryOptions> = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const opts: ResolvedRetryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const history: RetryAttempt[] = [];
   let lastError: Error | undefined;
+  let previousDelay = opts.initialDelay;
+
+  const giveUp = (message: string): ZiptaxRetryError =>
+    new ZiptaxRetryError(message, history.length, lastError, history);
+
+  opts.budget?.recordRequest();
 
   for (let attempt = 1; attempt <= opts.maxAttempts; attempt++) {
+    throwIfAborted(signal);
+
     try {
       return await fn();
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
+      const record: RetryAttempt = { attempt, error: lastError };
+      history.push(record);
 
-      const isLastAttempt = attempt === opts.maxAttempts;
-      const shouldRetry = opts.shouldRetry(lastError, attempt);
-
-      if (isLastAttempt || !shouldRetry) {
+      if (signal?.aborted || !opts.shouldRetry(lastError, attempt) || opts.maxAttempts === 1) {
         throw lastError;
       }
+      if (attempt === opts.maxAttempts) {
+        throw giveUp(`Maximum retry attempts (${opts.maxAttempts}) exceeded: ${lastError.message}`);
+      }
 
-      const delay = calculateDelay(attempt, opts);
-      await sleep(delay);
+      const retryAfter = getRetryAfterDelay(lastError, opts);
+      if (retryAfter !== undefined && retryAfter > opts.maxRetryAfter) {
+        throw giveUp(
+          `Retry-After of ${retryAfter}ms exceeds maxRetryAfter (${opts.maxRetryAfter}ms): ${lastError.message}`
+        );
+      }
+      if (opts.budget && !opts.budget.tryAcquire()) {
+        throw giveUp(`Retry budget exhausted: ${lastError.message}`);
+      }
+
+      const delay = retryAfter ?? calculateDelay(attempt, opts, previousDelay);
+      record.delay = delay;
+      previousDelay = delay;
+      await sleep(delay, signal);
     }
   }
 
   // This should never be reached, but TypeScript needs it
-  throw new ZiptaxRetryError(
-    `Maximum retry attempts (${opts.maxAttempts}) exceeded`,
-    opts.maxAttempts,
-    lastError
-  );
+  throw giveUp(`Maximum retry attempts (${opts.maxAttempts}) exceeded`);
 }
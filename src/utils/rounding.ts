@@ -0,0 +1,83 @@
+/**
+ * Rounding modes and policies for tax amounts
+ */
+
+/**
+ * How amounts are rounded to the configured number of decimals.
+ *
+ * - 'half-up': round halves away from zero (1.005 -> 1.01)
+ * - 'half-even': round halves to the nearest even digit (1.005 -> 1.00, 1.015 -> 1.02)
+ * - 'up': round away from zero
+ * - 'down': round towards zero
+ */
+export type RoundingMode = 'half-up' | 'half-even' | 'up' | 'down';
+
+/**
+ * Where tax is rounded.
+ *
+ * - 'line': each line's tax is rounded, and the invoice tax is the sum of the lines
+ * - 'invoice': the unrounded line taxes are added up and rounded once; the
+ *   rounded total is then spread across the lines so they still add up to it
+ */
+export type RoundingLevel = 'line' | 'invoice';
+
+/**
+ * How tax amounts are rounded
+ */
+export interface RoundingPolicy {
+  /** Where tax is rounded (default: 'line') */
+  level?: RoundingLevel;
+  /** Rounding mode (default: 'half-up') */
+  mode?: RoundingMode;
+}
+
+/**
+ * Fill in the defaults of a rounding policy. A bare mode means line-level rounding.
+ */
+export function resolveRoundingPolicy(
+  rounding?: RoundingMode | RoundingPolicy
+): Required<RoundingPolicy> {
+  const policy = typeof rounding === 'string' ? { mode: rounding } : (rounding ?? {});
+  return { level: policy.level ?? 'line', mode: policy.mode ?? 'half-up' };
+}
+
+/**
+ * Round an amount to a number of decimals.
+ *
+ * The value is first cleaned to 15 significant digits so that binary
+ * floating point noise (e.g., 0.775 stored as 0.77499999...) does not change
+ * the result.
+ *
+ * @param value - Amount to round
+ * @param decimals - Decimal places (default: 2)
+ * @param mode - Rounding mode (default: 'half-up')
+ */
+export function roundAmount(value: number, decimals = 2, mode: RoundingMode = 'half-up'): number {
+  const factor = Math.pow(10, decimals);
+  const shifted = Math.abs(Number((value * factor).toPrecision(15)));
+  const floor = Math.floor(shifted);
+
+  let rounded: number;
+  switch (mode) {
+    case 'up':
+      rounded = Math.ceil(shifted);
+      break;
+    case 'down':
+      rounded = floor;
+      break;
+    case 'half-even': {
+      const fraction = shifted - floor;
+      if (fraction === 0.5) {
+        rounded = floor % 2 === 0 ? floor : floor + 1;
+      } else {
+        rounded = fraction > 0.5 ? floor + 1 : floor;
+      }
+      break;
+    }
+    default:
+      rounded = Math.floor(shifted + 0.5);
+  }
+
+  // Avoid returning -0
+  return rounded === 0 ? 0 : (Math.sign(value) * rounded) / factor;
+}
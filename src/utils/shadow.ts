@@ -0,0 +1,158 @@
+/**
+ * Comparison of calculateCart results between the ZipTax and TaxCloud backends
+ */
+
+import { CalculateCartRequest } from '../models';
+import { CartBackend, NormalizedCartResponse } from './cart';
+
+/**
+ * Tax rate and amount of a line as calculated by one backend
+ */
+export interface CartLineTax {
+  rate: number;
+  amount: number;
+}
+
+/**
+ * A line whose tax differs between two backends by more than the tolerance
+ */
+export interface CartLineDifference {
+  /** Position of the cart in the request's items array */
+  cartIndex: number;
+  /** Position of the line within the cart (0-based) */
+  index: number;
+  /** Line item id */
+  itemId: string;
+  /** Tax from the primary backend */
+  primary: CartLineTax;
+  /** Tax from the shadow backend */
+  shadow: CartLineTax;
+  /** Shadow rate minus primary rate */
+  rateDelta: number;
+  /** Shadow amount minus primary amount */
+  amountDelta: number;
+}
+
+/**
+ * Line-by-line comparison of two calculateCart results
+ */
+export interface CartComparison {
+  /** Lines whose rate or amount differs by more than the tolerance */
+  differences: CartLineDifference[];
+  /** Ids of lines returned by only one of the backends */
+  unmatchedItemIds: string[];
+}
+
+/**
+ * Tolerances below which rate and amount differences are ignored
+ */
+export interface CartComparisonOptions {
+  /** Largest rate difference that is not reported (default: 0) */
+  rateTolerance?: number;
+  /** Largest amount difference that is not reported (default: 0.01) */
+  amountTolerance?: number;
+}
+
+/**
+ * A shadow calculation that disagreed with the primary result
+ */
+export interface CartShadowEvent extends CartComparison {
+  /** Backend whose result was returned to the caller */
+  primaryBackend: CartBackend;
+  /** Backend the request was shadowed to */
+  shadowBackend: CartBackend;
+  /** Request sent to both backends */
+  request: CalculateCartRequest;
+  /** Primary result */
+  primary: NormalizedCartResponse;
+  /** Shadow result */
+  shadow: NormalizedCartResponse;
+}
+
+/**
+ * A shadow calculation that failed
+ */
+export interface CartShadowErrorEvent {
+  /** Backend whose result was returned to the caller */
+  primaryBackend: CartBackend;
+  /** Backend the request was shadowed to */
+  shadowBackend: CartBackend;
+  /** Request sent to both backends */
+  request: CalculateCartRequest;
+  /** Error from the shadow backend */
+  error: Error;
+}
+
+/**
+ * Shadow mode options for calculateCart
+ */
+export interface CartShadowOptions extends CartComparisonOptions {
+  /** Called when the shadow result differs from the primary result */
+  onDifference?: (event: CartShadowEvent) => void;
+  /** Called when the shadow calculation fails */
+  onError?: (event: CartShadowErrorEvent) => void;
+}
+
+/**
+ * Compare the line taxes of two normalized calculateCart results.
+ *
+ * Lines are matched by cart position and itemId. A line is reported when its
+ * rate or amount differs by more than the tolerance.
+ *
+ * @param primary - Result to compare against
+ * @param shadow - Result to compare
+ * @param options - Rate and amount tolerances
+ *
+ * @example
+ * ```typescript
+ * const zipTax = await client.calculateCartNormalized(request, { backend: 'ziptax' });
+ * const taxCloud = await client.calculateCartNormalized(request, { backend: 'taxcloud' });
+ * for (const difference of compareCartResults(zipTax, taxCloud).differences) {
+ *   console.log(`${difference.itemId}: ${difference.rateDelta} ${difference.amountDelta}`);
+ * }
+ * ```
+ */
+export function compareCartResults(
+  primary: NormalizedCartResponse,
+  shadow: NormalizedCartResponse,
+  options: CartComparisonOptions = {}
+): CartComparison {
+  const rateTolerance = options.rateTolerance ?? 0;
+  const amountTolerance = options.amountTolerance ?? 0.01;
+  const differences: CartLineDifference[] = [];
+  const unmatchedItemIds: string[] = [];
+
+  const cartCount = Math.max(primary.items.length, shadow.items.length);
+  for (let cartIndex = 0; cartIndex < cartCount; cartIndex++) {
+    const primaryLines = primary.items[cartIndex]?.lineItems ?? [];
+    const shadowLines = new Map(
+      (shadow.items[cartIndex]?.lineItems ?? []).map((line) => [line.itemId, line])
+    );
+
+    for (const line of primaryLines) {
+      const shadowLine = shadowLines.get(line.itemId);
+      if (!shadowLine) {
+        unmatchedItemIds.push(line.itemId);
+        continue;
+      }
+      shadowLines.delete(line.itemId);
+
+      const rateDelta = Number((shadowLine.tax.rate - line.tax.rate).toPrecision(12));
+      const amountDelta = Number((shadowLine.tax.amount - line.tax.amount).toPrecision(12));
+      if (Math.abs(rateDelta) > rateTolerance || Math.abs(amountDelta) > amountTolerance) {
+        differences.push({
+          cartIndex,
+          index: line.index,
+          itemId: line.itemId,
+          primary: { rate: line.tax.rate, amount: line.tax.amount },
+          shadow: { rate: shadowLine.tax.rate, amount: shadowLine.tax.amount },
+          rateDelta,
+          amountDelta,
+        });
+      }
+    }
+    unmatchedItemIds.push(...shadowLines.keys());
+  }
+
+  return { differences, unmatchedItemIds };
+}
@@ -0,0 +1,125 @@
+/**
+ * Streaming helpers for bulk lookups
+ */
+
+import {
+  GetRatesByPostalCodeParams,
+  GetSalesTaxByAddressParams,
+  GetSalesTaxByGeoLocationParams,
+  LookupInput,
+  LookupResponse,
+  LookupResult,
+} from '../config';
+import { V60PostalCodeResponse, V60Response } from '../models';
+import { LookupOptions } from './cache';
+import { validateConcurrency } from './validation';
+
+/**
+ * Options for streaming lookups. Request options (signal, timeout, retryOptions,
+ * headers, cache) apply to every lookup.
+ */
+export interface StreamOptions extends LookupOptions {
+  /** Maximum number of lookups in flight at once (default: 5) */
+  concurrency?: number;
+}
+
+/**
+ * The ZiptaxClient lookup methods used by streaming lookups
+ */
+export interface LookupMethods {
+  getSalesTaxByAddress(
+    params: GetSalesTaxByAddressParams,
+    options?: LookupOptions
+  ): Promise<V60Response>;
+  getSalesTaxByGeoLocation(
+    params: GetSalesTaxByGeoLocationParams,
+    options?: LookupOptions
+  ): Promise<V60Response>;
+  getRatesByPostalCode(
+    params: GetRatesByPostalCodeParams,
+    options?: LookupOptions
+  ): Promise<V60PostalCodeResponse>;
+}
+
+/**
+ * Map items from a (possibly async) iterable through an async function with at
+ * most `concurrency` calls in flight, yielding results as they finish.
+ *
+ * Items are pulled from the source only when a slot is free, so a slow
+ * consumer or a slow API never causes the whole source to be buffered.
+ * `fn` should not reject; wrap failures into its result instead.
+ *
+ * @throws ZiptaxValidationError if concurrency is not a positive integer
+ */
+export async function* mapConcurrentUnordered<T, R>(
+  source: AsyncIterable<T> | Iterable<T>,
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): AsyncGenerator<R> {
+  const iterator =
+    Symbol.asyncIterator in source
+      ? (source as AsyncIterable<T>)[Symbol.asyncIterator]()
+      : (source as Iterable<T>)[Symbol.iterator]();
+  validateConcurrency(concurrency);
+  const inFlight = new Map<number, Promise<{ index: number; result: R }>>();
+  let nextIndex = 0;
+  let exhausted = false;
+
+  try {
+    for (;;) {
+      while (!exhausted && inFlight.size < concurrency) {
+        const next = await iterator.next();
+        if (next.done) {
+          exhausted = true;
+          break;
+        }
+        const index = nextIndex++;
+        inFlight.set(
+          index,
+          fn(next.value, index).then((result) => ({ index, result }))
+        );
+      }
+      if (inFlight.size === 0) {
+        return;
+      }
+
+      const { index, result } = await Promise.race(inFlight.values());
+      inFlight.delete(index);
+      yield result;
+    }
+  } finally {
+    // Stop the source when the consumer breaks out early
+    if (!exhausted) {
+      await iterator.return?.();
+    }
+  }
+}
+
+/**
+ * Run the lookup method matching an input and capture the outcome as a LookupResult
+ */
+export async function settleLookup<P extends LookupInput>(
+  client: LookupMethods,
+  params: P,
+  index: number,
+  options: LookupOptions
+): Promise<LookupResult<P>> {
+  try {
+    let value: V60Response | V60PostalCodeResponse;
+    if ('postalcode' in params) {
+      value = await client.getRatesByPostalCode(params, options);
+    } else if ('lat' in params) {
+      value = await client.getSalesTaxByGeoLocation(params, options);
+    } else {
+      value = await client.getSalesTaxByAddress(params, options);
+    }
+    return { status: 'fulfilled', params, value: value as LookupResponse<P>, index };
+  } catch (error) {
+    return {
+      status: 'rejected',
+      params,
+      error: error instanceof Error ? error : new Error(String(error)),
+      index,
+    };
+  }
+}
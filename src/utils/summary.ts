@@ -0,0 +1,148 @@
+/**
+ * Cart totals and groupings for both cart backends
+ */
+
+import {
+  CalculateCartRequest,
+  CalculateCartResponse,
+  CartItemResponse,
+  TaxCloudCalculateCartResponse,
+  TaxCloudCartItemResponse,
+} from '../models';
+import { getCartCurrency } from './calculator';
+import { CurrencyCode, Money, MoneyLineItem, sumLineItems } from './money';
+import { RoundingMode, RoundingPolicy } from './rounding';
+
+/**
+ * Lines of a cart sharing a TIC or a rate
+ */
+export interface CartSummaryGroup {
+  /** Ids of the lines in the group, in cart order */
+  itemIds: string[];
+  /** Sum of price x quantity of the lines */
+  subtotal: Money;
+  /** Sum of the lines' tax */
+  tax: Money;
+}
+
+/**
+ * Lines sharing a Taxability Information Code
+ */
+export interface CartTicGroup extends CartSummaryGroup {
+  /** TIC of the lines, or null if unknown */
+  tic: number | null;
+}
+
+/**
+ * Lines taxed at the same rate
+ */
+export interface CartRateGroup extends CartSummaryGroup {
+  /** Tax rate of the lines */
+  rate: number;
+}
+
+/**
+ * Totals and groupings of a calculateCart response
+ */
+export interface CartSummary {
+  /** Currency of the amounts */
+  currency: CurrencyCode;
+  /** Number of lines */
+  lineCount: number;
+  /** Sum of price x quantity */
+  subtotal: Money;
+  /** Sum of the line taxes */
+  tax: Money;
+  /** Subtotal plus tax */
+  total: Money;
+  /** Tax divided by subtotal (0 for an empty subtotal) */
+  effectiveRate: number;
+  /** Lines grouped by TIC, in order of first appearance */
+  byTic: CartTicGroup[];
+  /** Lines grouped by tax rate, in order of first appearance */
+  byRate: CartRateGroup[];
+}
+
+export interface CartSummaryOptions {
+  /**
+   * Request the response was calculated for. ZipTax responses do not echo the
+   * taxabilityCode of each line, so it is taken from the request instead.
+   */
+  request?: CalculateCartRequest;
+  /** Currency of the amounts (default: the TaxCloud response's currency, or 'USD') */
+  currency?: CurrencyCode;
+  /** Rounding for line subtotals with fractions of a cent (default: 'half-up' per line) */
+  rounding?: RoundingMode | RoundingPolicy;
+}
+
+type SummaryLine = MoneyLineItem & { itemId: string };
+
+/**
+ * Add a line to the group with the given key, creating the group if needed
+ */
+function addToGroup<K>(groups: Map<K, SummaryLine[]>, key: K, line: SummaryLine): void {
+  const group = groups.get(key) ?? [];
+  group.push(line);
+  groups.set(key, group);
+}
+
+/**
+ * Summarize a calculateCart response from either backend: subtotal, tax,
+ * grand total, effective blended rate, and groupings by TIC and by rate.
+ *
+ * Amounts are exact Money values; use toNumber() to get plain numbers.
+ *
+ * @param response - ZipTax or TaxCloud calculateCart response
+ * @param options - Request (for ZipTax TICs), currency and rounding options
+ *
+ * @example
+ * ```typescript
+ * const summary = summarizeCart(await client.calculateCart(request), { request });
+ * console.log(summary.subtotal.toString(), summary.tax.toString(), summary.total.toString());
+ * console.log(`Blended rate: ${(summary.effectiveRate * 100).toFixed(3)}%`);
+ * ```
+ */
+export function summarizeCart(
+  response: CalculateCartResponse | TaxCloudCalculateCartResponse,
+  options: CartSummaryOptions = {}
+): CartSummary {
+  const currency = options.currency ?? getCartCurrency(response);
+  const carts = response.items as Array<CartItemResponse | TaxCloudCartItemResponse>;
+  const lines = carts.flatMap((cart) => cart.lineItems);
+
+  const requestTics = new Map<string, number | null>();
+  for (const cart of options.request?.items ?? []) {
+    for (const line of cart.lineItems) {
+      requestTics.set(line.itemId, line.taxabilityCode ?? null);
+    }
+  }
+
+  const ticGroups = new Map<number | null, SummaryLine[]>();
+  const rateGroups = new Map<number, SummaryLine[]>();
+  for (const line of lines) {
+    const tic = 'tic' in line ? line.tic : (requestTics.get(line.itemId) ?? null);
+    addToGroup(ticGroups, tic, line);
+    addToGroup(rateGroups, line.tax.rate, line);
+  }
+
+  const summarizeGroup = (groupLines: SummaryLine[]): CartSummaryGroup => {
+    const totals = sumLineItems(groupLines, currency, options.rounding);
+    return {
+      itemIds: groupLines.map((line) => line.itemId),
+      subtotal: totals.subtotal,
+      tax: totals.tax,
+    };
+  };
+
+  const { subtotal, tax, total } = sumLineItems(lines, currency, options.rounding);
+  return {
+    currency,
+    lineCount: lines.length,
+    subtotal,
+    tax,
+    total,
+    effectiveRate: subtotal.isZero() ? 0 : tax.minorUnits / subtotal.minorUnits,
+    byTic: [...ticGroups].map(([tic, groupLines]) => ({ tic, ...summarizeGroup(groupLines) })),
+    byRate: [...rateGroups].map(([rate, groupLines]) => ({ rate, ...summarizeGroup(groupLines) })),
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * Pluggable HTTP transports used by HTTPClient
+ */
+
+import type { AxiosInstance, AxiosStatic } from 'axios';
+import { ZiptaxAbortError, ZiptaxConfigurationError, ZiptaxNetworkError } from '../exceptions';
+
+/**
+ * HTTP methods used by the SDK
+ */
+export type HTTPMethod = 'GET' | 'POST' | 'PATCH';
+
+/**
+ * Options used to construct a transport for a single backend
+ */
+export interface TransportOptions {
+  /** Base URL for API requests */
+  baseURL: string;
+  /** Request timeout in milliseconds */
+  timeout: number;
+  /** Default headers sent with every request (authentication, content type, user agent) */
+  headers: Record<string, string>;
+}
+
+/**
+ * A single request handed to a transport
+ */
+export interface TransportRequest {
+  /** HTTP method */
+  method: HTTPMethod;
+  /** Request path, relative to the transport's base URL */
+  url: string;
+  /** Query parameters (undefined values are omitted) */
+  params?: Record<string, unknown>;
+  /** Request body (serialized as JSON) */
+  data?: unknown;
+  /** Additional headers for this request only */
+  headers?: Record<string, string>;
+  /** Timeout for this request in milliseconds (overrides the transport default) */
+  timeout?: number;
+  /** Signal used to cancel the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * A response received by a transport.
+ * Returned for every HTTP status; status-based error mapping is done by HTTPClient.
+ */
+export interface TransportResponse<T = unknown> {
+  /** HTTP status code */
+  status: number;
+  /** Response headers with lower-cased names */
+  headers: Record<string, string>;
+  /** Parsed response body (JSON when possible, otherwise text) */
+  data: T;
+}
+
+/**
+ * Transport interface that HTTPClient delegates to.
+ *
+ * Implementations must resolve with a TransportResponse whenever the server
+ * responded (including 4xx and 5xx statuses), reject with a
+ * ZiptaxAbortError when the request's signal aborts, and reject with a
+ * ZiptaxNetworkError when no response was received for any other reason.
+ */
+export interface Transport {
+  request<T>(request: TransportRequest): Promise<TransportResponse<T>>;
+}
+
+/**
+ * Factory that creates a transport for a given backend
+ */
+export type TransportFactory = (options: TransportOptions) => Transport;
+
+/**
+ * Transport selection: a built-in transport name or a custom factory
+ */
+export type TransportOption = 'axios' | 'fetch' | TransportFactory;
+
+/**
+ * Normalize a headers object into a plain record with lower-cased names
+ */
+function normalizeHeaders(headers: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (typeof headers !== 'object' || headers === null) {
+    return result;
+  }
+
+  for (const [name, value] of Object.entries(headers as Record<string, unknown>)) {
+    if (value !== undefined && value !== null) {
+      result[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Load axios on first use, so runtimes and bundles using another transport
+ * never load it
+ */
+async function loadAxios(): Promise<AxiosStatic> {
+  return (await import('axios')).default;
+}
+
+/**
+ * Transport backed by axios. axios is loaded when the first request is sent.
+ */
+export class AxiosTransport implements Transport {
+  private readonly options: TransportOptions;
+  private axiosInstance?: AxiosInstance;
+
+  constructor(options: TransportOptions) {
+    this.options = options;
+  }
+
+  async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const axios = await loadAxios();
+    if (!this.axiosInstance) {
+      this.axiosInstance = axios.create({
+        baseURL: this.options.baseURL,
+        timeout: this.options.timeout,
+        headers: this.options.headers,
+      });
+    }
+
+    try {
+      const response = await this.axiosInstance.request<T>({
+        method: request.method,
+        url: request.url,
+        params: request.params,
+        data: request.data,
+        headers: request.headers,
+        timeout: request.timeout,
+        signal: request.signal,
+      });
+      return {
+        status: response.status,
+        headers: normalizeHeaders(response.headers),
+        data: response.data,
+      };
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw new ZiptaxAbortError('Request was aborted.', request.signal.reason);
+      }
+
+      if (!axios.isAxiosError(error)) {
+        throw error;
+      }
+
+      // Network errors (no response received)
+      if (!error.response) {
+        throw new ZiptaxNetworkError(error.message || 'Network request failed', error);
+      }
+
+      return {
+        status: error.response.status,
+        headers: normalizeHeaders(error.response.headers),
+        data: error.response.data as T,
+      };
+    }
+  }
+}
+
+/**
+ * Transport backed by the native fetch API (Node.js 18+, edge runtimes)
+ */
+export class FetchTransport implements Transport {
+  private readonly baseURL: string;
+  private readonly timeout: number;
+  private readonly headers: Record<string, string>;
+
+  constructor(options: TransportOptions) {
+    if (typeof fetch !== 'function') {
+      throw new ZiptaxConfigurationError(
+        "Global fetch is not available in this runtime. Use transport: 'axios' instead."
+      );
+    }
+    this.baseURL = options.baseURL.replace(/\/+$/, '');
+    this.timeout = options.timeout;
+    this.headers = options.headers;
+  }
+
+  async request<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const timeout = request.timeout ?? this.timeout;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    const onAbort = (): void => controller.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    if (request.signal?.aborted) {
+      controller.abort();
+    }
+
+    try {
+      const response = await fetch(this.buildURL(request), {
+        method: request.method,
+        headers: { ...this.headers, ...request.headers },
+        body: request.data === undefined ? undefined : JSON.stringify(request.data),
+        signal: controller.signal,
+      });
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+
+      // The timeout and the caller's signal also cover reading the body
+      return {
+        status: response.status,
+        headers,
+        data: parseBody(await response.text()) as T,
+      };
+    } catch (error) {
+      const cause = error instanceof Error ? error : new Error(String(error));
+      if (request.signal?.aborted) {
+        throw new ZiptaxAbortError('Request was aborted.', request.signal.reason);
+      }
+      if (controller.signal.aborted) {
+        throw new ZiptaxNetworkError(`timeout of ${timeout}ms exceeded`, cause);
+      }
+      throw new ZiptaxNetworkError(cause.message || 'Network request failed', cause);
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Build the absolute request URL, omitting undefined and null query parameters
+   */
+  private buildURL(request: TransportRequest): string {
+    const path = request.url.startsWith('/') ? request.url : `/${request.url}`;
+    const search = new URLSearchParams();
+
+    for (const [key, value] of Object.entries(request.params || {})) {
+      if (value !== undefined && value !== null) {
+        search.append(key, String(value));
+      }
+    }
+
+    const query = search.toString();
+    return `${this.baseURL}${path}${query ? `?${query}` : ''}`;
+  }
+}
+
+/**
+ * Parse a response body as JSON, falling back to the raw text
+ */
+function parseBody(text: string): unknown {
+  if (!text) {
+    return text;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Create a transport from a transport option (default: axios)
+ */
+export function createTransport(
+  option: TransportOption | undefined,
+  options: TransportOptions
+): Transport {
+  if (typeof option === 'function') {
+    return option(options);
+  }
+  if (option === 'fetch') {
+    return new FetchTransport(options);
+  }
+  return new AxiosTransport(options);
+}
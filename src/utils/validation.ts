@@ -3,6 +3,7 @@
  */
 
 import { ZiptaxValidationError } from '../exceptions';
+import { CartLineItem } from '../models';
 
 /**
  * Validate that a value is not empty
@@ -140,3 +141,38 @@ export function validateProductQuery(query: string): void {
     throw new ZiptaxValidationError('Product query exceeds maximum length of 500 characters');
   }
 }
+
+/**
+ * Validate a cart line item's id, price and quantity.
+ *
+ * @param item - Line item to validate
+ * @throws ZiptaxValidationError if itemId is missing, or price or quantity is not a finite
+ *   positive number
+ */
+export function validateCartLineItem(item: CartLineItem): void {
+  validateRequired(item.itemId, 'lineItems[].itemId');
+
+  if (typeof item.price !== 'number' || !Number.isFinite(item.price) || item.price <= 0) {
+    throw new ZiptaxValidationError(
+      'lineItems[].price must be a finite positive number greater than 0'
+    );
+  }
+
+  if (typeof item.quantity !== 'number' || !Number.isFinite(item.quantity) || item.quantity <= 0) {
+    throw new ZiptaxValidationError(
+      'lineItems[].quantity must be a finite positive number greater than 0'
+    );
+  }
+}
+
+/**
+ * Validate a concurrency limit.
+ *
+ * @param concurrency - Maximum number of calls in flight
+ * @throws ZiptaxValidationError if concurrency is not a positive integer
+ */
+export function validateConcurrency(concurrency: number): void {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new ZiptaxValidationError('concurrency must be a positive integer');
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Tests for batch lookup helpers
+ */
+
+import { ZiptaxValidationError } from '../src/exceptions';
+import { mapWithConcurrency, runBatch } from '../src/utils/batch';
+
+describe('mapWithConcurrency', () => {
+  it('should keep input order and limit calls in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      inFlight--;
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should handle an empty list', async () => {
+    const fn = jest.fn();
+
+    expect(await mapWithConcurrency([], 5, fn)).toEqual([]);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
+describe('mapWithConcurrency concurrency', () => {
+  it('should reject a concurrency that is not a positive integer', async () => {
+    const fn = jest.fn();
+
+    for (const concurrency of [NaN, 0, -1, 1.5]) {
+      await expect(mapWithConcurrency([1, 2], concurrency, fn)).rejects.toThrow(
+        new ZiptaxValidationError('concurrency must be a positive integer')
+      );
+    }
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
+describe('runBatch', () => {
+  it('should report per-input results without failing the batch', async () => {
+    const lookup = jest.fn(async (n: number) => {
+      if (n < 0) {
+        throw new Error(`bad ${n}`);
+      }
+      return n * 2;
+    });
+
+    const results = await runBatch([1, -1, 2], String, lookup);
+
+    expect(results).toEqual([
+      { status: 'fulfilled', params: 1, value: 2 },
+      { status: 'rejected', params: -1, error: new Error('bad -1') },
+      { status: 'fulfilled', params: 2, value: 4 },
+    ]);
+  });
+
+  it('should look up identical inputs once', async () => {
+    const lookup = jest.fn(async (input: { id: string }) => input.id.toUpperCase());
+    const inputs = [{ id: 'a' }, { id: 'b' }, { id: 'a' }];
+
+    const results = await runBatch(inputs, (input) => input.id, lookup);
+
+    expect(lookup).toHaveBeenCalledTimes(2);
+    expect(results[2]).toEqual({ status: 'fulfilled', params: inputs[2], value: 'A' });
+  });
+
+  it('should report progress counting every input', async () => {
+    const onProgress = jest.fn();
+
+    await runBatch(
+      ['a', 'a', 'b'],
+      (input) => input,
+      async (input) => {
+        if (input === 'b') {
+          throw new Error('failed');
+        }
+        return input;
+      },
+      { concurrency: 1, onProgress }
+    );
+
+    expect(onProgress.mock.calls).toEqual([
+      [{ completed: 2, failed: 0, total: 3 }],
+      [{ completed: 3, failed: 1, total: 3 }],
+    ]);
+  });
+});
+
+describe('runBatch onProgress', () => {
+  it('should finish the batch when onProgress throws', async () => {
+    const lookup = jest.fn(async (n: number) => n * 2);
+    const onProgress = jest.fn(() => {
+      throw new Error('progress failed');
+    });
+
+    const results = await runBatch([1, 2, 3], String, lookup, { concurrency: 1, onProgress });
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'fulfilled', 'fulfilled']);
+    expect(lookup).toHaveBeenCalledTimes(3);
+    expect(onProgress).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for response caching
+ */
+
+import { createCacheKey, MemoryCacheStore, ResponseCache } from '../src/utils/cache';
+import { ZiptaxAbortError } from '../src/exceptions';
+
+describe('MemoryCacheStore', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const entry = (value: string): { value: string; expiresAt: number } => ({
+    value,
+    expiresAt: Date.now() + 1000,
+  });
+
+  it('should get, set and delete entries', () => {
+    const store = new MemoryCacheStore();
+
+    store.set('a', entry('1'), 1000);
+    expect(store.get('a')?.value).toBe('1');
+
+    store.delete('a');
+    expect(store.get('a')).toBeUndefined();
+  });
+
+  it('should drop entries after their ttl', () => {
+    const store = new MemoryCacheStore();
+    store.set('a', entry('1'), 1000);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(store.get('a')).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+
+  it('should evict the least recently used entry', () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    store.set('a', entry('1'), 1000);
+    store.set('b', entry('2'), 1000);
+    store.get('a');
+
+    store.set('c', entry('3'), 1000);
+
+    expect(store.get('a')).toBeDefined();
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')).toBeDefined();
+  });
+});
+
+describe('createCacheKey', () => {
+  it('should ignore parameter order, case, whitespace and unset values', () => {
+    expect(
+      createCacheKey('/request/v60/', {
+        address: ' 200 Spectrum  Center Dr ',
+        format: 'json',
+        historical: undefined,
+      })
+    ).toBe(createCacheKey('/request/v60/', { format: 'JSON', address: '200 spectrum center dr' }));
+  });
+
+  it('should normalize numeric coordinates', () => {
+    expect(createCacheKey('/v', { lat: '33.650', lng: '-117.7' })).toBe(
+      createCacheKey('/v', { lat: '33.65', lng: '-117.70' })
+    );
+  });
+
+  it('should include historical and taxabilityCode', () => {
+    const base = createCacheKey('/v', { address: 'a' });
+
+    expect(createCacheKey('/v', { address: 'a', historical: '202401' })).not.toBe(base);
+    expect(createCacheKey('/v', { address: 'a', taxabilityCode: '31000' })).not.toBe(base);
+  });
+});
+
+describe('ResponseCache', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should load once and serve fresh entries from the store', async () => {
+    const cache = new ResponseCache({ ttl: 1000 });
+    const load = jest.fn().mockResolvedValue('value');
+
+    await cache.fetch('key', load);
+    const result = await cache.fetch('key', load);
+
+    expect(result).toBe('value');
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reload after the ttl expires', async () => {
+    const cache = new ResponseCache({ ttl: 1000 });
+    const load = jest.fn().mockResolvedValueOnce('old').mockResolvedValue('new');
+
+    await cache.fetch('key', load);
+    jest.advanceTimersByTime(1000);
+
+    expect(await cache.fetch('key', load)).toBe('new');
+  });
+
+  it('should serve stale entries while revalidating in the background', async () => {
+    const cache = new ResponseCache({ ttl: 1000, staleWhileRevalidate: 5000 });
+    const load = jest.fn().mockResolvedValueOnce('old').mockResolvedValue('new');
+
+    await cache.fetch('key', load);
+    jest.advanceTimersByTime(1500);
+
+    expect(await cache.fetch('key', load)).toBe('old');
+    expect(load).toHaveBeenLastCalledWith(true);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(await cache.fetch('key', load)).toBe('new');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the stale entry when revalidation fails', async () => {
+    const cache = new ResponseCache({ ttl: 1000, staleWhileRevalidate: 5000 });
+    const load = jest.fn().mockResolvedValueOnce('old').mockRejectedValue(new Error('down'));
+
+    await cache.fetch('key', load);
+    jest.advanceTimersByTime(1500);
+
+    expect(await cache.fetch('key', load)).toBe('old');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(await cache.fetch('key', load)).toBe('old');
+  });
+
+  it('should return a copy that callers can change without changing the entry', async () => {
+    const cache = new ResponseCache({ ttl: 1000 });
+    const load = jest.fn().mockResolvedValue({ rates: [0.0725] });
+
+    const loaded = await cache.fetch<{ rates: number[] }>('key', load);
+    loaded.rates.push(1);
+    const cached = await cache.fetch<{ rates: number[] }>('key', load);
+    cached.rates[0] = 0;
+
+    expect(await cache.fetch('key', load)).toEqual({ rates: [0.0725] });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share one load between concurrent misses on the same key', async () => {
+    const cache = new ResponseCache({ ttl: 1000 });
+    const load = jest.fn().mockResolvedValue({ rate: 0.0725 });
+
+    const results = await Promise.all([
+      cache.fetch('key', load),
+      cache.fetch('key', load),
+      cache.fetch('key', load),
+    ]);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([{ rate: 0.0725 }, { rate: 0.0725 }, { rate: 0.0725 }]);
+    expect(results[0]).not.toBe(results[1]);
+  });
+
+  it('should load again for a waiting call when the shared load is aborted', async () => {
+    const cache = new ResponseCache({ ttl: 1000 });
+    const aborted = jest.fn().mockRejectedValue(new ZiptaxAbortError('Request was aborted.'));
+    const load = jest.fn().mockResolvedValue('value');
+
+    const first = cache.fetch('key', aborted);
+    const second = cache.fetch('key', load);
+
+    await expect(first).rejects.toThrow(ZiptaxAbortError);
+    expect(await second).toBe('value');
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use a custom store', async () => {
+    const store = { get: jest.fn(), set: jest.fn(), delete: jest.fn() };
+    const cache = new ResponseCache({ store, ttl: 1000, staleWhileRevalidate: 500 });
+
+    await cache.fetch('key', async () => 'value');
+
+    expect(store.get).toHaveBeenCalledWith('key');
+    expect(store.set).toHaveBeenCalledWith(
+      'key',
+      { value: 'value', expiresAt: Date.now() + 1000 },
+      1500
+    );
+  });
+});
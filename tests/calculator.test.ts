@@ -0,0 +1,248 @@
+/**
+ * Tests for offline cart tax calculation
+ */
+
+import { calculateCartOffline, getCartRates, reconcileCartTax } from '../src/utils/calculator';
+import { ZiptaxValidationError } from '../src/exceptions';
+import {
+  CalculateCartResponse,
+  CartItem,
+  TaxCloudCalculateCartResponse,
+  V60PostalCodeResponse,
+  V60Response,
+} from '../src/models';
+import { TypedCartLineItem } from '../src/utils/lines';
+
+function ratesResponse(overrides: Partial<V60Response> = {}): V60Response {
+  return {
+    metadata: {
+      version: 'v60',
+      response: { code: 100, name: 'RESPONSE_CODE_SUCCESS', message: '', definition: '' },
+    },
+    baseRates: [
+      { rate: 0.06, jurType: 'US_STATE_SALES_TAX', jurName: 'CA' },
+      { rate: 0.0175, jurType: 'US_DISTRICT_SALES_TAX', jurName: 'ORANGE' },
+    ],
+    service: { adjustmentType: 'SERVICE_TAXABLE', taxable: 'N', description: '' },
+    shipping: { adjustmentType: 'FREIGHT_TAXABLE', taxable: 'N', description: '' },
+    taxSummaries: [{ rate: 0.0775, taxType: 'SALES_TAX', summaryName: '', displayRates: [] }],
+    addressDetail: { normalizedAddress: '', incorporated: 'true', geoLat: 0, geoLng: 0 },
+    ...overrides,
+  };
+}
+
+const cart: CartItem = {
+  customerId: 'customer-453',
+  currency: { currencyCode: 'USD' },
+  destination: { address: '200 Spectrum Center Drive, Irvine, CA 92618' },
+  origin: { address: '323 Washington Ave N, Minneapolis, MN 55401' },
+  lineItems: [
+    { itemId: 'item-1', price: 10.75, quantity: 1.5 },
+    { itemId: 'item-2', price: 10, quantity: 1 },
+    { itemId: 'shipping', price: 5, quantity: 1 },
+  ],
+};
+
+describe('getCartRates', () => {
+  it('should use the SALES_TAX summary of an address response', () => {
+    expect(
+      getCartRates(ratesResponse({ shipping: { ...ratesResponse().shipping, taxable: 'Y' } }))
+    ).toEqual({ rate: 0.0775, shippingTaxable: true, serviceTaxable: false });
+  });
+
+  it('should fall back to the sum of the jurisdiction rates', () => {
+    expect(getCartRates(ratesResponse({ taxSummaries: undefined })).rate).toBe(0.0775);
+  });
+
+  it('should use the first result of a postal code response', () => {
+    const response = {
+      version: 'v60',
+      rCode: 100,
+      results: [{ taxSales: 0.0725, txbFreight: 'Y', txbService: 'N' }],
+    } as unknown as V60PostalCodeResponse;
+
+    expect(getCartRates(response)).toEqual({
+      rate: 0.0725,
+      shippingTaxable: true,
+      serviceTaxable: false,
+    });
+  });
+
+  it('should reject responses without rates', () => {
+    expect(() => getCartRates(ratesResponse({ taxSummaries: [], baseRates: [] }))).toThrow(
+      ZiptaxValidationError
+    );
+    expect(() => getCartRates({ results: [] } as unknown as V60PostalCodeResponse)).toThrow(
+      'rates response must contain at least 1 postal code result'
+    );
+  });
+});
+
+describe('calculateCartOffline', () => {
+  it('should calculate per-line tax in the calculateCart response shape', () => {
+    const result = calculateCartOffline(ratesResponse(), cart, { shippingItemIds: ['shipping'] });
+
+    expect(result).toEqual({
+      items: [
+        {
+          cartId: '',
+          customerId: 'customer-453',
+          destination: cart.destination,
+          origin: cart.origin,
+          lineItems: [
+            { itemId: 'item-1', price: 10.75, quantity: 1.5, tax: { rate: 0.0775, amount: 1.25 } },
+            { itemId: 'item-2', price: 10, quantity: 1, tax: { rate: 0.0775, amount: 0.78 } },
+            { itemId: 'shipping', price: 5, quantity: 1, tax: { rate: 0, amount: 0 } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should tax shipping and service lines when they are taxable', () => {
+    const rates = ratesResponse({
+      shipping: { ...ratesResponse().shipping, taxable: 'Y' },
+      service: { ...ratesResponse().service, taxable: 'Y' },
+    });
+
+    const result = calculateCartOffline(rates, cart.lineItems, {
+      shippingItemIds: ['shipping'],
+      serviceItemIds: ['item-2'],
+    });
+
+    expect(result.items[0].lineItems.map((line) => line.tax.amount)).toEqual([1.25, 0.78, 0.39]);
+    expect(result.items[0].customerId).toBe('');
+  });
+
+  it('should apply the configured rounding', () => {
+    const result = calculateCartOffline(ratesResponse(), cart.lineItems, {
+      rounding: 'down',
+      decimals: 3,
+    });
+
+    expect(result.items[0].lineItems.map((line) => line.tax.amount)).toEqual([1.249, 0.775, 0.387]);
+  });
+
+  it('should round once per invoice with an invoice-level policy', () => {
+    const lines = [1, 2, 3].map((n) => ({ itemId: `item-${n}`, price: 1, quantity: 1 }));
+
+    const perLine = calculateCartOffline(ratesResponse(), lines);
+    const perInvoice = calculateCartOffline(ratesResponse(), lines, {
+      rounding: { level: 'invoice' },
+    });
+
+    // 3 x round(0.0775) = 0.24, but round(3 x 0.0775) = 0.23
+    expect(perLine.items[0].lineItems.map((line) => line.tax.amount)).toEqual([0.08, 0.08, 0.08]);
+    expect(perInvoice.items[0].lineItems.map((line) => line.tax.amount)).toEqual([
+      0.08, 0.08, 0.07,
+    ]);
+  });
+
+  it('should tax shipping and handling lines by the shipping taxability flag', () => {
+    const lines: TypedCartLineItem[] = [
+      { itemId: 'item-1', price: 10, quantity: 1 },
+      { itemId: 'shipping', price: 5, quantity: 1, kind: 'shipping' },
+      { itemId: 'handling', price: 2, quantity: 1, kind: 'handling' },
+    ];
+    const taxable = ratesResponse({ shipping: { ...ratesResponse().shipping, taxable: 'Y' } });
+
+    expect(
+      calculateCartOffline(ratesResponse(), lines).items[0].lineItems.map((line) => line.tax.amount)
+    ).toEqual([0.78, 0, 0]);
+    expect(
+      calculateCartOffline(taxable, lines).items[0].lineItems.map((line) => line.tax.amount)
+    ).toEqual([0.78, 0.39, 0.16]);
+  });
+
+  it('should allocate discount lines before calculating tax', () => {
+    const result = calculateCartOffline(ratesResponse(), [
+      { itemId: 'item-1', price: 30, quantity: 1 },
+      { itemId: 'item-2', price: 10, quantity: 1 },
+      { itemId: 'SAVE4', price: 4, quantity: 1, kind: 'discount' },
+    ]);
+
+    expect(result.items[0].lineItems).toEqual([
+      { itemId: 'item-1', price: 27, quantity: 1, tax: { rate: 0.0775, amount: 2.09 } },
+      { itemId: 'item-2', price: 9, quantity: 1, tax: { rate: 0.0775, amount: 0.7 } },
+    ]);
+  });
+
+  it('should validate line items', () => {
+    expect(() =>
+      calculateCartOffline(ratesResponse(), [{ itemId: 'item-1', price: 0, quantity: 1 }])
+    ).toThrow('lineItems[].price must be a finite positive number greater than 0');
+  });
+});
+
+describe('reconcileCartTax', () => {
+  const zipTaxResponse: CalculateCartResponse = {
+    items: [
+      {
+        cartId: 'cart-1',
+        customerId: 'customer-453',
+        destination: { address: 'a' },
+        origin: { address: 'b' },
+        lineItems: [1, 2, 3].map((n) => ({
+          itemId: `item-${n}`,
+          price: 1,
+          quantity: 1,
+          tax: { rate: 0.0775, amount: 0.08 },
+        })),
+      },
+    ],
+  };
+
+  it('should spread an invoice-level total across lines and report the adjustments', () => {
+    const { response, reconciliation } = reconcileCartTax(zipTaxResponse, { level: 'invoice' });
+
+    expect(response.items[0].lineItems.map((line) => line.tax.amount)).toEqual([0.08, 0.08, 0.07]);
+    expect(response.items[0].cartId).toBe('cart-1');
+    expect(zipTaxResponse.items[0].lineItems[2].tax.amount).toBe(0.08);
+    expect(reconciliation).toEqual({
+      policy: { level: 'invoice', mode: 'half-up' },
+      returnedTax: 0.24,
+      expectedTax: 0.23,
+      difference: -0.01,
+      adjustments: [{ cartIndex: 0, lineIndex: 2, itemId: 'item-3', before: 0.08, after: 0.07 }],
+    });
+  });
+
+  it('should report no adjustments when the amounts already follow the policy', () => {
+    const { response, reconciliation } = reconcileCartTax(zipTaxResponse, 'half-up');
+
+    expect(response).toEqual(zipTaxResponse);
+    expect(reconciliation.adjustments).toEqual([]);
+    expect(reconciliation.difference).toBe(0);
+  });
+
+  it('should apply the rounding mode per line to TaxCloud responses', () => {
+    const taxCloudResponse = {
+      connectionId: 'connection-1',
+      transactionDate: '2026-01-01T00:00:00Z',
+      items: [
+        {
+          cartId: 'cart-1',
+          customerId: 'customer-453',
+          currency: { currencyCode: 'CAD' },
+          lineItems: [
+            {
+              index: 0,
+              itemId: 'item-1',
+              price: 12.5,
+              quantity: 1,
+              tax: { rate: 0.05, amount: 0.63 },
+            },
+          ],
+        },
+      ],
+    } as unknown as TaxCloudCalculateCartResponse;
+
+    const { response, reconciliation } = reconcileCartTax(taxCloudResponse, 'half-even');
+
+    expect(response.items[0].lineItems[0]).toEqual(
+      expect.objectContaining({ index: 0, tax: { rate: 0.05, amount: 0.62 } })
+    );
+    expect(response.connectionId).toBe('connection-1');
+    expect(reconciliation.difference).toBe(-0.01);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Tests for CartBuilder
+ */
+
+import { ZiptaxValidationError } from '../src/exceptions';
+import { CartBuilder } from '../src/utils/cart-builder';
+import { TypedCartLineItem } from '../src/utils/lines';
+
+const ORIGIN = '323 Washington Ave N, Minneapolis, MN 55401';
+const DESTINATION = '200 Spectrum Center Dr, Irvine, CA 92618';
+
+function validBuilder(): CartBuilder {
+  return new CartBuilder()
+    .customer('customer-453')
+    .currency('USD')
+    .from(ORIGIN)
+    .to(DESTINATION)
+    .addItem({ itemId: 'item-1', price: 10.75, quantity: 2 });
+}
+
+describe('CartBuilder', () => {
+  it('should build a single-cart request', () => {
+    const request = validBuilder()
+      .addItem({ itemId: 'shipping', price: 5, quantity: 1, kind: 'shipping' })
+      .build();
+
+    expect(request).toEqual({
+      items: [
+        {
+          customerId: 'customer-453',
+          currency: { currencyCode: 'USD' },
+          destination: { address: DESTINATION },
+          origin: { address: ORIGIN },
+          lineItems: [
+            { itemId: 'item-1', price: 10.75, quantity: 2 },
+            { itemId: 'shipping', price: 5, quantity: 1, kind: 'shipping' },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should build a cart for calculateCarts', () => {
+    expect(validBuilder().buildItem()).toEqual(validBuilder().build().items[0]);
+  });
+
+  it('should copy line items', () => {
+    const item: TypedCartLineItem = { itemId: 'item-2', price: 3, quantity: 1 };
+    const builder = validBuilder().addItem(item);
+    item.price = 0;
+
+    expect(builder.validate()).toEqual([]);
+    expect(builder.build().items[0].lineItems[1].price).toBe(3);
+  });
+
+  it('should report no issues for a valid cart', () => {
+    expect(validBuilder().validate()).toEqual([]);
+  });
+
+  it('should report every missing field', () => {
+    expect(new CartBuilder().validate()).toEqual([
+      { field: 'customerId', message: 'customerId is required' },
+      { field: 'currency.currencyCode', message: 'currency.currencyCode is required' },
+      { field: 'origin.address', message: 'origin.address is required' },
+      { field: 'destination.address', message: 'destination.address is required' },
+      { field: 'lineItems', message: 'lineItems must contain at least 1 item' },
+    ]);
+  });
+
+  it('should report an unsupported currency', () => {
+    const builder = validBuilder().currency('EUR' as 'USD');
+
+    expect(builder.validate()).toEqual([
+      {
+        field: 'currency.currencyCode',
+        message: "currency.currencyCode must be 'USD' or 'CAD'",
+      },
+    ]);
+  });
+
+  it('should report every invalid line by position', () => {
+    const builder = validBuilder()
+      .addItem({ itemId: 'item-2', price: 0, quantity: 1 })
+      .addItem({ itemId: 'item-3', price: 1, quantity: -1 })
+      .addItem({ itemId: 'item-1', price: 1, quantity: 1 })
+      .addItem({ itemId: 'item-4', price: 1, quantity: 1, kind: 'gift' as 'product' });
+
+    expect(builder.validate().map((issue) => issue.field)).toEqual([
+      'lineItems[1]',
+      'lineItems[2]',
+      'lineItems[3]',
+      'lineItems[4]',
+    ]);
+    expect(builder.validate()[2].message).toBe("lineItems[].itemId 'item-1' is not unique");
+  });
+
+  it('should report discounts that are not less than the product subtotal', () => {
+    const builder = validBuilder().addItem({
+      itemId: 'SAVE25',
+      price: 25,
+      quantity: 1,
+      kind: 'discount',
+    });
+
+    expect(builder.validate()).toEqual([
+      {
+        field: 'lineItems',
+        message: 'discounts must be less than the subtotal of the product lines',
+      },
+    ]);
+  });
+
+  it('should not count discount lines towards the line item limit', () => {
+    const builder = new CartBuilder({ maxLineItems: 1 })
+      .customer('customer-453')
+      .currency('CAD')
+      .from(ORIGIN)
+      .to(DESTINATION)
+      .addItem({ itemId: 'item-1', price: 10, quantity: 1 })
+      .addItem({ itemId: 'SAVE1', price: 1, quantity: 1, kind: 'discount' });
+
+    expect(builder.validate()).toEqual([]);
+    expect(builder.addItem({ itemId: 'item-2', price: 1, quantity: 1 }).validate()).toEqual([
+      { field: 'lineItems', message: 'lineItems must not exceed 1 items' },
+    ]);
+  });
+
+  it('should throw every issue at once from build', () => {
+    const builder = new CartBuilder()
+      .customer('customer-453')
+      .addItem({ itemId: 'item-1', price: 0, quantity: 1 });
+
+    let error: unknown;
+    try {
+      builder.build();
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ZiptaxValidationError);
+    expect((error as ZiptaxValidationError).message).toBe(
+      'Invalid cart (4 issues): currency.currencyCode is required; origin.address is required; ' +
+        'destination.address is required; lineItems[].price must be a finite positive number greater than 0'
+    );
+    expect((error as ZiptaxValidationError).errors).toEqual({
+      'currency.currencyCode': 'currency.currencyCode is required',
+      'origin.address': 'origin.address is required',
+      'destination.address': 'destination.address is required',
+      'lineItems[0]': 'lineItems[].price must be a finite positive number greater than 0',
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for normalized cart results
+ */
+
+import {
+  isTaxCloudCartResponse,
+  isZipTaxCartResponse,
+  normalizeCartResponse,
+} from '../src/utils/cart';
+import {
+  CalculateCartRequest,
+  CalculateCartResponse,
+  TaxCloudCalculateCartResponse,
+} from '../src/models';
+
+const request: CalculateCartRequest = {
+  items: [
+    {
+      customerId: 'customer-453',
+      currency: { currencyCode: 'CAD' },
+      destination: { address: '200 Spectrum Center Dr, Irvine, CA 92618-1905' },
+      origin: { address: '323 Washington Ave N, Minneapolis, MN 55401' },
+      lineItems: [
+        { itemId: 'item-1', price: 10.75, quantity: 1.5, taxabilityCode: 31000 },
+        { itemId: 'item-2', price: 25, quantity: 2 },
+      ],
+    },
+  ],
+};
+
+const zipTaxResponse: CalculateCartResponse = {
+  items: [
+    {
+      cartId: 'cart-1',
+      customerId: 'customer-453',
+      destination: request.items[0].destination,
+      origin: request.items[0].origin,
+      lineItems: [
+        { itemId: 'item-1', price: 10.75, quantity: 1.5, tax: { rate: 0.0775, amount: 1.25 } },
+        { itemId: 'item-2', price: 25, quantity: 2, tax: { rate: 0.0775, amount: 3.88 } },
+      ],
+    },
+  ],
+};
+
+const taxCloudResponse: TaxCloudCalculateCartResponse = {
+  connectionId: 'connection-1',
+  transactionDate: '2026-01-01T00:00:00Z',
+  items: [
+    {
+      cartId: 'cart-2',
+      customerId: 'customer-453',
+      currency: { currencyCode: 'USD' },
+      deliveredBySeller: false,
+      destination: {
+        line1: '200 Spectrum Center Dr',
+        line2: 'Suite 300',
+        city: 'Irvine',
+        state: 'CA',
+        zip: '92618-1905',
+        countryCode: 'US',
+      },
+      origin: {
+        line1: '323 Washington Ave N',
+        city: 'Minneapolis',
+        state: 'MN',
+        zip: '55401',
+        countryCode: 'US',
+      },
+      exemption: { exemptionId: null, isExempt: null },
+      lineItems: [
+        {
+          index: 0,
+          itemId: 'item-1',
+          price: 10.75,
+          quantity: 1.5,
+          tax: { rate: 0.0775, amount: 1.25 },
+          tic: 31000,
+        },
+        {
+          index: 1,
+          itemId: 'item-2',
+          price: 25,
+          quantity: 2,
+          tax: { rate: 0.0775, amount: 3.88 },
+          tic: null,
+        },
+      ],
+    },
+  ],
+};
+
+describe('cart response type guards', () => {
+  it('should tell TaxCloud and ZipTax responses apart', () => {
+    expect(isTaxCloudCartResponse(taxCloudResponse)).toBe(true);
+    expect(isZipTaxCartResponse(taxCloudResponse)).toBe(false);
+    expect(isTaxCloudCartResponse(zipTaxResponse)).toBe(false);
+    expect(isZipTaxCartResponse(zipTaxResponse)).toBe(true);
+  });
+});
+
+describe('normalizeCartResponse', () => {
+  it('should normalize a TaxCloud response', () => {
+    const result = normalizeCartResponse(taxCloudResponse);
+
+    expect(result.backend).toBe('taxcloud');
+    expect(result.transactionDate).toBe('2026-01-01T00:00:00Z');
+    expect(result.raw).toBe(taxCloudResponse);
+    expect(result.items[0].cartId).toBe('cart-2');
+    expect(result.items[0].currency).toBe('USD');
+    expect(result.items[0].destination).toEqual({
+      raw: '200 Spectrum Center Dr, Suite 300, Irvine, CA 92618-1905',
+      structured: taxCloudResponse.items[0].destination,
+    });
+    expect(result.items[0].origin.raw).toBe('323 Washington Ave N, Minneapolis, MN 55401');
+    expect(result.items[0].lineItems).toEqual([
+      {
+        index: 0,
+        itemId: 'item-1',
+        price: 10.75,
+        quantity: 1.5,
+        tic: 31000,
+        tax: { rate: 0.0775, amount: 1.25 },
+      },
+      {
+        index: 1,
+        itemId: 'item-2',
+        price: 25,
+        quantity: 2,
+        tic: null,
+        tax: { rate: 0.0775, amount: 3.88 },
+      },
+    ]);
+  });
+
+  it('should complete a ZipTax response from the request', () => {
+    const result = normalizeCartResponse(zipTaxResponse, {
+      request,
+      transactionDate: '2026-02-01T00:00:00.000Z',
+    });
+
+    expect(result.backend).toBe('ziptax');
+    expect(result.transactionDate).toBe('2026-02-01T00:00:00.000Z');
+    expect(result.raw).toBe(zipTaxResponse);
+    expect(result.items[0].currency).toBe('CAD');
+    expect(result.items[0].destination).toEqual({
+      raw: '200 Spectrum Center Dr, Irvine, CA 92618-1905',
+      structured: {
+        line1: '200 Spectrum Center Dr',
+        city: 'Irvine',
+        state: 'CA',
+        zip: '92618-1905',
+        countryCode: 'US',
+      },
+    });
+    expect(result.items[0].lineItems.map((line) => [line.index, line.itemId, line.tic])).toEqual([
+      [0, 'item-1', 31000],
+      [1, 'item-2', null],
+    ]);
+  });
+
+  it('should default ZipTax currency, TICs and transaction date without a request', () => {
+    const before = Date.now();
+    const result = normalizeCartResponse(zipTaxResponse);
+
+    expect(result.items[0].currency).toBe('USD');
+    expect(result.items[0].lineItems.map((line) => line.tic)).toEqual([null, null]);
+    expect(Date.parse(result.transactionDate)).toBeGreaterThanOrEqual(before);
+  });
+
+  it('should leave the structured address undefined when it cannot be parsed', () => {
+    const response: CalculateCartResponse = {
+      items: [{ ...zipTaxResponse.items[0], origin: { address: 'Warehouse 7' } }],
+    };
+
+    const result = normalizeCartResponse(response);
+
+    expect(result.items[0].origin).toEqual({ raw: 'Warehouse 7', structured: undefined });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for cart chunking
+ */
+
+import { ZiptaxValidationError } from '../src/exceptions';
+import { chunkCartItem, mergeCartChunks } from '../src/utils/chunk';
+import {
+  CalculateCartResponse,
+  CartItem,
+  CartLineItem,
+  TaxCloudCalculateCartResponse,
+} from '../src/models';
+
+function lineItems(count: number, from = 0): CartLineItem[] {
+  return Array.from({ length: count }, (_, i) => ({
+    itemId: `item-${from + i}`,
+    price: 10,
+    quantity: 1,
+  }));
+}
+
+const cart: CartItem = {
+  customerId: 'customer-453',
+  currency: { currencyCode: 'USD' },
+  destination: { address: '200 Spectrum Center Dr, Irvine, CA 92618' },
+  origin: { address: '323 Washington Ave N, Minneapolis, MN 55401' },
+  lineItems: lineItems(600),
+};
+
+describe('chunkCartItem', () => {
+  it('should split a cart into chunks of at most 250 line items', () => {
+    const chunks = chunkCartItem(cart);
+
+    expect(chunks.map((chunk) => chunk.lineItems.length)).toEqual([250, 250, 100]);
+    expect(chunks[1].lineItems[0].itemId).toBe('item-250');
+    expect(chunks.every((chunk) => chunk.customerId === 'customer-453')).toBe(true);
+  });
+
+  it('should use the given chunk size', () => {
+    expect(chunkCartItem(cart, 200).map((chunk) => chunk.lineItems.length)).toEqual([
+      200, 200, 200,
+    ]);
+  });
+
+  it('should keep a small cart whole', () => {
+    const small = { ...cart, lineItems: lineItems(3) };
+
+    expect(chunkCartItem(small)).toEqual([small]);
+  });
+
+  it.each([0, 251, 1.5])('should reject a chunk size of %p', (chunkSize) => {
+    expect(() => chunkCartItem(cart, chunkSize)).toThrow(ZiptaxValidationError);
+  });
+});
+
+describe('mergeCartChunks', () => {
+  const zipTaxChunk = (cartId: string, from: number, count: number): CalculateCartResponse => ({
+    items: [
+      {
+        cartId,
+        customerId: 'customer-453',
+        destination: cart.destination,
+        origin: cart.origin,
+        lineItems: lineItems(count, from).map((line) => ({
+          itemId: line.itemId,
+          price: line.price,
+          quantity: line.quantity,
+          tax: { rate: 0.0775, amount: 0.78 },
+        })),
+      },
+    ],
+  });
+
+  it('should merge ZipTax chunks in order and expose every cartId', () => {
+    const { response, chunks } = mergeCartChunks([
+      zipTaxChunk('cart-1', 0, 2),
+      zipTaxChunk('cart-2', 2, 1),
+    ]);
+
+    expect(response.items).toHaveLength(1);
+    expect(response.items[0].cartId).toBe('cart-1');
+    expect(response.items[0].lineItems.map((line) => line.itemId)).toEqual([
+      'item-0',
+      'item-1',
+      'item-2',
+    ]);
+    expect(chunks).toEqual([
+      { cartId: 'cart-1', start: 0, itemIds: ['item-0', 'item-1'] },
+      { cartId: 'cart-2', start: 2, itemIds: ['item-2'] },
+    ]);
+  });
+
+  it('should renumber TaxCloud line indexes', () => {
+    const taxCloudChunk = (
+      cartId: string,
+      from: number,
+      count: number
+    ): TaxCloudCalculateCartResponse =>
+      ({
+        connectionId: 'connection-1',
+        transactionDate: '2026-01-01T00:00:00Z',
+        items: [
+          {
+            ...zipTaxChunk(cartId, from, count).items[0],
+            currency: { currencyCode: 'USD' },
+            lineItems: zipTaxChunk(cartId, from, count).items[0].lineItems.map((line, index) => ({
+              ...line,
+              index,
+              tic: 0,
+            })),
+          },
+        ],
+      }) as unknown as TaxCloudCalculateCartResponse;
+
+    const { response, chunks } = mergeCartChunks([
+      taxCloudChunk('cart-1', 0, 2),
+      taxCloudChunk('cart-2', 2, 2),
+    ]);
+
+    expect(response.connectionId).toBe('connection-1');
+    expect(response.items[0].lineItems.map((line) => [line.index, line.itemId])).toEqual([
+      [0, 'item-0'],
+      [1, 'item-1'],
+      [2, 'item-2'],
+      [3, 'item-3'],
+    ]);
+    expect(chunks.map((chunk) => chunk.cartId)).toEqual(['cart-1', 'cart-2']);
+  });
+
+  it('should reject missing chunk carts', () => {
+    expect(() => mergeCartChunks([])).toThrow(ZiptaxValidationError);
+    expect(() => mergeCartChunks([{ items: [] }])).toThrow(ZiptaxValidationError);
+  });
+});
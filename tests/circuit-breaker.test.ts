@@ -0,0 +1,217 @@
+/**
+ * Tests for the circuit breaker
+ */
+
+import { CircuitBreaker } from '../src/utils/circuit-breaker';
+import { HTTPClient } from '../src/utils/http';
+import { Transport } from '../src/utils/transport';
+import {
+  ZiptaxAbortError,
+  ZiptaxAPIError,
+  ZiptaxCircuitOpenError,
+  ZiptaxNetworkError,
+  ZiptaxValidationError,
+} from '../src/exceptions';
+
+jest.mock('../src/version', () => ({ SDK_VERSION: '0.2.0-beta' }));
+
+const networkError = new ZiptaxNetworkError('Network error');
+
+function fail(breaker: CircuitBreaker, times: number, error: Error = networkError): void {
+  for (let i = 0; i < times; i++) {
+    breaker.acquire()(error);
+  }
+}
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should open after consecutive failures reach the threshold', () => {
+    const breaker = new CircuitBreaker('ziptax', { failureThreshold: 3 });
+
+    fail(breaker, 2);
+    expect(breaker.state).toBe('closed');
+    fail(breaker, 1);
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should reset the failure count after a success', () => {
+    const breaker = new CircuitBreaker('ziptax', { failureThreshold: 3 });
+
+    fail(breaker, 2);
+    breaker.acquire()();
+    fail(breaker, 2);
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should not count client errors or aborted requests as failures', () => {
+    const breaker = new CircuitBreaker('ziptax', { failureThreshold: 1 });
+
+    fail(breaker, 1, new ZiptaxAPIError('Bad request', 400));
+    fail(breaker, 1, new ZiptaxValidationError('Invalid'));
+    fail(breaker, 1, new ZiptaxAbortError());
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should fail fast while open', () => {
+    const breaker = new CircuitBreaker('taxcloud', { failureThreshold: 1, resetTimeout: 10000 });
+    fail(breaker, 1);
+
+    let error: ZiptaxCircuitOpenError | undefined;
+    try {
+      breaker.acquire();
+    } catch (e) {
+      error = e as ZiptaxCircuitOpenError;
+    }
+
+    expect(error).toBeInstanceOf(ZiptaxCircuitOpenError);
+    expect(error?.backend).toBe('taxcloud');
+    expect(error?.retryAfter).toBe(10);
+  });
+
+  it('should allow limited trial requests once half-open', () => {
+    const breaker = new CircuitBreaker('ziptax', { failureThreshold: 1, resetTimeout: 1000 });
+    fail(breaker, 1);
+
+    jest.advanceTimersByTime(1000);
+    expect(breaker.state).toBe('half-open');
+
+    const release = breaker.acquire();
+    expect(() => breaker.acquire()).toThrow(ZiptaxCircuitOpenError);
+
+    release();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should re-open when a trial request fails', () => {
+    const breaker = new CircuitBreaker('ziptax', { failureThreshold: 1, resetTimeout: 1000 });
+    fail(breaker, 1);
+    jest.advanceTimersByTime(1000);
+
+    fail(breaker, 1);
+
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should require successThreshold trial successes to close', () => {
+    const breaker = new CircuitBreaker('ziptax', {
+      failureThreshold: 1,
+      resetTimeout: 1000,
+      halfOpenMaxCalls: 2,
+      successThreshold: 2,
+    });
+    fail(breaker, 1);
+    jest.advanceTimersByTime(1000);
+
+    const first = breaker.acquire();
+    const second = breaker.acquire();
+    first();
+    expect(breaker.state).toBe('half-open');
+    second();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should ignore results of requests sent before the circuit opened', () => {
+    const breaker = new CircuitBreaker('ziptax', { failureThreshold: 1, resetTimeout: 1000 });
+    const slowRequest = breaker.acquire();
+    fail(breaker, 1);
+    jest.advanceTimersByTime(1000);
+    expect(breaker.state).toBe('half-open');
+
+    slowRequest();
+
+    expect(breaker.state).toBe('half-open');
+  });
+
+  it('should emit state-change events', () => {
+    const onStateChange = jest.fn();
+    const breaker = new CircuitBreaker('ziptax', {
+      failureThreshold: 2,
+      resetTimeout: 1000,
+      onStateChange,
+    });
+    const listener = jest.fn();
+    const unsubscribe = breaker.onStateChange(listener);
+
+    fail(breaker, 2);
+    jest.advanceTimersByTime(1000);
+    breaker.acquire()();
+    unsubscribe();
+    breaker.reset();
+
+    expect(onStateChange.mock.calls.map(([event]) => event)).toEqual([
+      { backend: 'ziptax', from: 'closed', to: 'open', failures: 2 },
+      { backend: 'ziptax', from: 'open', to: 'half-open', failures: 2 },
+      { backend: 'ziptax', from: 'half-open', to: 'closed', failures: 2 },
+    ]);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('HTTPClient circuit breaker', () => {
+  const transportRequest = jest.fn();
+  const transport = (): Transport => ({ request: transportRequest });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should fail fast without calling the transport while open', async () => {
+    transportRequest.mockResolvedValue({ status: 503, headers: {}, data: {} });
+    const onStateChange = jest.fn();
+    const client = new HTTPClient({
+      baseURL: 'https://api.zip-tax.com',
+      apiKey: 'test-api-key',
+      transport,
+      retryOptions: { maxAttempts: 1 },
+      circuitBreaker: { failureThreshold: 2, onStateChange },
+    });
+
+    await expect(client.get('/test')).rejects.toThrow(ZiptaxAPIError);
+    await expect(client.get('/test')).rejects.toThrow(ZiptaxAPIError);
+    await expect(client.get('/test')).rejects.toThrow(ZiptaxCircuitOpenError);
+
+    expect(transportRequest).toHaveBeenCalledTimes(2);
+    expect(client.getCircuitState()).toBe('open');
+    expect(onStateChange).toHaveBeenCalledWith(
+      expect.objectContaining({ backend: 'ziptax', to: 'open' })
+    );
+  });
+
+  it('should not retry once the circuit opens', async () => {
+    jest.useFakeTimers();
+    transportRequest.mockRejectedValue(networkError);
+    const client = new HTTPClient({
+      baseURL: 'https://api.zip-tax.com',
+      apiKey: 'test-api-key',
+      transport,
+      retryOptions: { maxAttempts: 5 },
+      circuitBreaker: { failureThreshold: 2 },
+    });
+
+    const rejection = client.get('/test').catch((e) => e);
+    await jest.runAllTimersAsync();
+
+    expect(await rejection).toBeInstanceOf(ZiptaxCircuitOpenError);
+    expect(transportRequest).toHaveBeenCalledTimes(2);
+    jest.useRealTimers();
+  });
+
+  it('should report no state when the circuit breaker is disabled', () => {
+    const client = new HTTPClient({
+      baseURL: 'https://api.zip-tax.com',
+      apiKey: 'test-api-key',
+      transport,
+    });
+
+    expect(client.getCircuitState()).toBeUndefined();
+  });
+});
@@ -3,11 +3,14 @@
  */
 
 import { ZiptaxClient } from '../src/client';
-import { ZiptaxValidationError } from '../src/exceptions';
+import { ZiptaxConfigurationError, ZiptaxValidationError } from '../src/exceptions';
 import { HTTPClient } from '../src/utils/http';
+import { CartBuilder } from '../src/utils/cart-builder';
+import { LookupInput, LookupResult } from '../src/config';
 import {
   CalculateCartRequest,
   CalculateCartResponse,
+  CartItem,
   ProductCodeSearchResponse,
   ProductCodeRecommendationResponse,
 } from '../src/models';
@@ -168,6 +171,68 @@ describe('ZiptaxClient', () => {
     });
   });
 
+  describe('use', () => {
+    it('should register middleware on the ZipTax HTTP client and return the client', () => {
+      mockHttpClient.use = jest.fn();
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+      const middleware = { onRequest: jest.fn() };
+
+      expect(client.use(middleware)).toBe(client);
+      expect(mockHttpClient.use).toHaveBeenCalledWith(middleware);
+    });
+
+    it('should pass configured middleware to the HTTP client', () => {
+      const middleware = [{ onRequest: jest.fn() }];
+      new ZiptaxClient({ apiKey: 'test-api-key', middleware });
+
+      expect(HTTPClient).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'ziptax', middleware })
+      );
+    });
+  });
+
+  describe('rate limits', () => {
+    it('should pass each backend its own rate limits', () => {
+      new ZiptaxClient({
+        apiKey: 'test-api-key',
+        taxCloudConnectionId: '25eb9b97-5acb-492d-b720-c03e79cf715a',
+        taxCloudAPIKey: 'test-taxcloud-key',
+        rateLimit: { ziptax: { requestsPerSecond: 10 }, taxcloud: { maxConcurrent: 2 } },
+      });
+
+      expect(HTTPClient).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'ziptax', rateLimit: { requestsPerSecond: 10 } })
+      );
+      expect(HTTPClient).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'taxcloud', rateLimit: { maxConcurrent: 2 } })
+      );
+    });
+  });
+
+  describe('getCircuitState', () => {
+    it('should pass circuit breaker settings to the HTTP client', () => {
+      const circuitBreaker = { failureThreshold: 3, onStateChange: jest.fn() };
+      new ZiptaxClient({ apiKey: 'test-api-key', circuitBreaker });
+
+      expect(HTTPClient).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'ziptax', circuitBreaker })
+      );
+    });
+
+    it('should return the ZipTax circuit state', () => {
+      mockHttpClient.getCircuitState = jest.fn().mockReturnValue('open');
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+      expect(client.getCircuitState()).toBe('open');
+    });
+
+    it('should return undefined for TaxCloud without credentials', () => {
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+      expect(client.getCircuitState('taxcloud')).toBeUndefined();
+    });
+  });
+
   describe('getSalesTaxByAddress', () => {
     it('should get tax rates by address', async () => {
       mockHttpClient.get.mockResolvedValue(mockV60Response);
@@ -189,6 +254,26 @@ describe('ZiptaxClient', () => {
       });
     });
 
+    it('should pass per-call request options to the HTTP client', async () => {
+      mockHttpClient.get.mockResolvedValue(mockV60Response);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+      const controller = new AbortController();
+
+      await client.getSalesTaxByAddress(
+        { address: '200 Spectrum Center Drive, Irvine, CA 92618' },
+        { signal: controller.signal, timeout: 2000, headers: { 'X-Trace-Id': 'abc' } }
+      );
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/request/v60/', {
+        signal: controller.signal,
+        timeout: 2000,
+        headers: { 'X-Trace-Id': 'abc' },
+        params: expect.objectContaining({
+          address: '200 Spectrum Center Drive, Irvine, CA 92618',
+        }),
+      });
+    });
+
     it('should throw error for missing address', async () => {
       const client = new ZiptaxClient({ apiKey: 'test-api-key' });
       await expect(client.getSalesTaxByAddress({ address: '' })).rejects.toThrow(
@@ -243,6 +328,115 @@ describe('ZiptaxClient', () => {
     });
   });
 
+  describe('getSalesTaxByAddresses', () => {
+    it('should look up every address and return results in input order', async () => {
+      mockHttpClient.get.mockImplementation(async (_url, config) =>
+        config?.params?.address === 'fail'
+          ? Promise.reject(new Error('Server error'))
+          : mockV60Response
+      );
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+      const results = await client.getSalesTaxByAddresses([
+        { address: '200 Spectrum Center Drive' },
+        { address: 'fail' },
+        { address: '' },
+      ]);
+
+      expect(results[0]).toEqual({
+        status: 'fulfilled',
+        params: { address: '200 Spectrum Center Drive' },
+        value: mockV60Response,
+      });
+      expect(results[1]).toMatchObject({ status: 'rejected', error: new Error('Server error') });
+      expect(results[2]).toMatchObject({ status: 'rejected' });
+      expect((results[2] as { error: Error }).error).toBeInstanceOf(ZiptaxValidationError);
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should de-duplicate identical addresses', async () => {
+      mockHttpClient.get.mockResolvedValue(mockV60Response);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+      const results = await client.getSalesTaxByAddresses([
+        { address: '200 Spectrum Center Drive' },
+        { address: '200 spectrum center drive ' },
+        { address: '200 Spectrum Center Drive', historical: '202401' },
+      ]);
+
+      expect(results.every((result) => result.status === 'fulfilled')).toBe(true);
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should de-duplicate addresses that differ only in defaulted params', async () => {
+      mockHttpClient.get.mockResolvedValue(mockV60Response);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+      await client.getSalesTaxByAddresses([
+        { address: '200 Spectrum Center Drive' },
+        { address: '200 Spectrum Center Drive', countryCode: 'USA', format: 'json' },
+      ]);
+
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass request options to every lookup and report progress', async () => {
+      mockHttpClient.get.mockResolvedValue(mockV60Response);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+      const onProgress = jest.fn();
+
+      await client.getSalesTaxByAddresses([{ address: 'a' }, { address: 'b' }], {
+        concurrency: 1,
+        onProgress,
+        timeout: 5000,
+      });
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/request/v60/', {
+        timeout: 5000,
+        params: expect.objectContaining({ address: 'a' }),
+      });
+      expect(onProgress).toHaveBeenLastCalledWith({ completed: 2, failed: 0, total: 2 });
+    });
+  });
+
+  describe('lookupAll', () => {
+    it('should route each input to the matching lookup method', async () => {
+      mockHttpClient.get.mockImplementation(async (_url, config) =>
+        config?.params?.postalcode ? mockPostalCodeResponse : mockV60Response
+      );
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+      async function* inputs(): AsyncGenerator<LookupInput> {
+        yield { address: '200 Spectrum Center Drive' };
+        yield { lat: '33.65253', lng: '-117.74794' };
+        yield { postalcode: '92694' };
+      }
+
+      const results: LookupResult[] = [];
+      for await (const result of client.lookupAll(inputs(), { concurrency: 1 })) {
+        results.push(result);
+      }
+
+      expect(results.map((result) => result.index)).toEqual([0, 1, 2]);
+      expect(results[1]).toMatchObject({ status: 'fulfilled', value: mockV60Response });
+      expect(results[2]).toMatchObject({ status: 'fulfilled', value: mockPostalCodeResponse });
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/request/v60/', {
+        params: expect.objectContaining({ lat: '33.65253', lng: '-117.74794' }),
+      });
+    });
+
+    it('should yield failed lookups as rejected results', async () => {
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+      const results: LookupResult[] = [];
+      for await (const result of client.lookupAll([{ postalcode: 'abc' }])) {
+        results.push(result);
+      }
+
+      expect(results[0].status).toBe('rejected');
+      expect((results[0] as { error: Error }).error).toBeInstanceOf(ZiptaxValidationError);
+    });
+  });
+
   describe('getSalesTaxByGeoLocation', () => {
     it('should get tax rates by geolocation', async () => {
       mockHttpClient.get.mockResolvedValue(mockV60Response);
@@ -341,6 +535,179 @@ describe('ZiptaxClient', () => {
     });
   });
 
+  describe('response caching', () => {
+    it('should not cache lookups by default', async () => {
+      mockHttpClient.get.mockResolvedValue(mockV60Response);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+      await client.getSalesTaxByAddress({ address: '200 Spectrum Center Drive' });
+      await client.getSalesTaxByAddress({ address: '200 Spectrum Center Drive' });
+
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should serve repeated lookups with equivalent params from the cache', async () => {
+      mockHttpClient.get.mockResolvedValue(mockV60Response);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key', cache: true });
+
+      await client.getSalesTaxByAddress({ address: '200 Spectrum Center Drive' });
+      const result = await client.getSalesTaxByAddress({
+        address: '  200 SPECTRUM   Center Drive ',
+        countryCode: 'USA',
+      });
+
+      expect(result).toEqual(mockV60Response);
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cache historical and taxability code lookups separately', async () => {
+      mockHttpClient.get.mockResolvedValue(mockV60Response);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key', cache: true });
+
+      await client.getSalesTaxByAddress({ address: '200 Spectrum Center Drive' });
+      await client.getSalesTaxByAddress({
+        address: '200 Spectrum Center Drive',
+        historical: '202401',
+      });
+      await client.getSalesTaxByAddress({
+        address: '200 Spectrum Center Drive',
+        taxabilityCode: '31000',
+      });
+
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should cache geolocation and postal code lookups', async () => {
+      mockHttpClient.get
+        .mockResolvedValueOnce(mockV60Response)
+        .mockResolvedValueOnce(mockPostalCodeResponse);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key', cache: true });
+
+      await client.getSalesTaxByGeoLocation({ lat: '33.65253', lng: '-117.74794' });
+      await client.getSalesTaxByGeoLocation({ lat: '33.652530', lng: '-117.74794' });
+      await client.getRatesByPostalCode({ postalcode: '92694' });
+      const result = await client.getRatesByPostalCode({ postalcode: '92694' });
+
+      expect(result).toEqual(mockPostalCodeResponse);
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip the cache for bypass and update it for refresh', async () => {
+      mockHttpClient.get.mockResolvedValue(mockV60Response);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key', cache: true });
+      const params = { address: '200 Spectrum Center Drive' };
+
+      await client.getSalesTaxByAddress(params, { cache: 'bypass' });
+      await client.getSalesTaxByAddress(params, { cache: 'refresh' });
+      await client.getSalesTaxByAddress(params);
+
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(2);
+      expect(mockHttpClient.get).toHaveBeenLastCalledWith('/request/v60/', {
+        params: expect.objectContaining({ address: '200 Spectrum Center Drive' }),
+      });
+    });
+  });
+
+  describe('getRateHistory', () => {
+    it('should look up every month in the range for an address', async () => {
+      mockHttpClient.get.mockResolvedValue(mockV60Response);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+      const history = await client.getRateHistory({
+        address: '200 Spectrum Center Drive',
+        from: '202312',
+        to: '202402',
+      });
+
+      expect(history.series.map((entry) => entry.month)).toEqual(['202312', '202401', '202402']);
+      expect(history.ranges).toEqual([
+        expect.objectContaining({ from: '202312', to: '202402', months: 3, salesTaxRate: 0.0775 }),
+      ]);
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/request/v60/', {
+        params: expect.objectContaining({
+          address: '200 Spectrum Center Drive',
+          historical: '202401',
+        }),
+      });
+    });
+
+    it('should look up a geolocation with per-call options', async () => {
+      mockHttpClient.get.mockResolvedValue(mockV60Response);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+      await client.getRateHistory(
+        { lat: '33.65253', lng: '-117.74794', from: '202401', to: '202401' },
+        { timeout: 1000 }
+      );
+
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/request/v60/', {
+        timeout: 1000,
+        params: expect.objectContaining({ lat: '33.65253', historical: '202401' }),
+      });
+    });
+
+    it('should reject an invalid range without making requests', async () => {
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+      await expect(
+        client.getRateHistory({ address: 'a', from: '202402', to: '202401' })
+      ).rejects.toThrow(ZiptaxValidationError);
+      await expect(
+        client.getRateHistory({ address: 'a', from: '190001', to: '202401' })
+      ).rejects.toThrow(ZiptaxValidationError);
+      expect(mockHttpClient.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('compareRates', () => {
+    it('should look up both months and return the differences', async () => {
+      const later = {
+        ...mockV60Response,
+        shipping: { ...mockV60Response.shipping, taxable: 'Y' as const },
+      };
+      mockHttpClient.get.mockImplementation(async (_url, config) =>
+        config?.params?.historical === '202401' ? later : mockV60Response
+      );
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+      const diff = await client.compareRates({
+        address: '200 Spectrum Center Drive',
+        from: '202301',
+        to: '202401',
+      });
+
+      expect(diff.changed).toBe(true);
+      expect(diff.shipping).toEqual({ before: 'N', after: 'Y' });
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(2);
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/request/v60/', {
+        params: expect.objectContaining({ historical: '202301' }),
+      });
+    });
+
+    it('should validate the months', async () => {
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+      await expect(
+        client.compareRates({ lat: '33.65253', lng: '-117.74794', from: '2023-01', to: '202401' })
+      ).rejects.toThrow(ZiptaxValidationError);
+    });
+  });
+
+  describe('createRateMonitor', () => {
+    it('should create a monitor that looks up rates through the client', async () => {
+      mockHttpClient.get.mockResolvedValue(mockPostalCodeResponse);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+      const monitor = client.createRateMonitor({ locations: [{ postalcode: '92694' }] });
+      const summary = await monitor.check();
+
+      expect(summary).toEqual({ checked: 1, changes: [], errors: [] });
+      expect(mockHttpClient.get).toHaveBeenCalledWith('/request/v60/', {
+        params: { postalcode: '92694', format: 'json' },
+      });
+    });
+  });
+
   describe('getAccountMetrics', () => {
     it('should get account metrics', async () => {
       mockHttpClient.get.mockResolvedValue(mockAccountMetrics);
@@ -402,9 +769,11 @@ describe('ZiptaxClient', () => {
       const result = await client.searchProductCodes('baked goods sold in plastic packaging');
 
       expect(result).toEqual(mockSearchResponse);
-      expect(mockHttpClient.post).toHaveBeenCalledWith('/search/tic', {
-        query: 'baked goods sold in plastic packaging',
-      });
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/search/tic',
+        { query: 'baked goods sold in plastic packaging' },
+        undefined
+      );
     });
 
     it('should POST to /search/tic', async () => {
@@ -413,9 +782,11 @@ describe('ZiptaxClient', () => {
 
       await client.searchProductCodes('test query');
 
-      expect(mockHttpClient.post).toHaveBeenCalledWith('/search/tic', {
-        query: 'test query',
-      });
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/search/tic',
+        { query: 'test query' },
+        undefined
+      );
     });
 
     it('should return correct response structure with multiple results', async () => {
@@ -496,9 +867,11 @@ describe('ZiptaxClient', () => {
       const result = await client.recommendProductCode('baked goods sold in plastic packaging');
 
       expect(result).toEqual(mockRecommendResponse);
-      expect(mockHttpClient.post).toHaveBeenCalledWith('/search/tic/recommend', {
-        query: 'baked goods sold in plastic packaging',
-      });
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/search/tic/recommend',
+        { query: 'baked goods sold in plastic packaging' },
+        undefined
+      );
     });
 
     it('should POST to /search/tic/recommend', async () => {
@@ -507,9 +880,11 @@ describe('ZiptaxClient', () => {
 
       await client.recommendProductCode('test query');
 
-      expect(mockHttpClient.post).toHaveBeenCalledWith('/search/tic/recommend', {
-        query: 'test query',
-      });
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/search/tic/recommend',
+        { query: 'test query' },
+        undefined
+      );
     });
 
     it('should return correct response structure', async () => {
@@ -641,7 +1016,11 @@ describe('ZiptaxClient', () => {
       const result = await client.calculateCart(validCartRequest);
 
       expect(result).toEqual(mockCartResponse);
-      expect(mockHttpClient.post).toHaveBeenCalledWith('/calculate/cart', validCartRequest);
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/calculate/cart',
+        validCartRequest,
+        undefined
+      );
     });
 
     it('should return correct response structure', async () => {
@@ -658,6 +1037,30 @@ describe('ZiptaxClient', () => {
       expect(result.items[0].lineItems[0].tax.amount).toBe(1.45528);
     });
 
+    it('should normalize ZipTax results using the request', async () => {
+      mockHttpClient.post.mockResolvedValue(mockCartResponse);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+      const result = await client.calculateCartNormalized(validCartRequest);
+
+      expect(result.backend).toBe('ziptax');
+      expect(result.raw).toEqual(mockCartResponse);
+      expect(Number.isNaN(Date.parse(result.transactionDate))).toBe(false);
+      expect(result.items[0].currency).toBe('USD');
+      expect(result.items[0].origin.structured).toEqual({
+        line1: '323 Washington Ave N',
+        city: 'Minneapolis',
+        state: 'MN',
+        zip: '55401-2427',
+        countryCode: 'US',
+      });
+      expect(result.items[0].lineItems.map((line) => [line.index, line.tic])).toEqual([
+        [0, 0],
+        [1, null],
+      ]);
+      expect(result.items[0].discounts).toEqual([]);
+    });
+
     it('should throw error when items array is empty', async () => {
       const client = new ZiptaxClient({ apiKey: 'test-api-key' });
       await expect(client.calculateCart({ items: [] })).rejects.toThrow(ZiptaxValidationError);
@@ -927,5 +1330,391 @@ describe('ZiptaxClient', () => {
       const result = await client.calculateCart(request);
       expect(result).toEqual(mockCartResponse);
     });
+
+    it('should send typed lines with TICs applied and discounts allocated', async () => {
+      mockHttpClient.post.mockResolvedValue(mockCartResponse);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+      const cart = validCartRequest.items[0];
+
+      await client.calculateCart(
+        {
+          items: [
+            {
+              ...cart,
+              lineItems: [
+                { itemId: 'item-1', price: 20, quantity: 1, kind: 'product' },
+                { itemId: 'shipping', price: 5, quantity: 1, kind: 'shipping' },
+                { itemId: 'handling', price: 2, quantity: 1, kind: 'handling' },
+                { itemId: 'SAVE2', price: 2, quantity: 1, kind: 'discount' },
+              ],
+            },
+          ],
+        },
+        { lineKindTics: { handling: 11099 } }
+      );
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/calculate/cart',
+        {
+          items: [
+            {
+              ...cart,
+              lineItems: [
+                { itemId: 'item-1', price: 18, quantity: 1 },
+                { itemId: 'shipping', price: 5, quantity: 1, taxabilityCode: 11010 },
+                { itemId: 'handling', price: 2, quantity: 1, taxabilityCode: 11099 },
+              ],
+            },
+          ],
+        },
+        {}
+      );
+    });
+
+    it('should return the discount allocation with normalized results', async () => {
+      mockHttpClient.post.mockResolvedValue(mockCartResponse);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+      const result = await client.calculateCartNormalized({
+        items: [
+          {
+            ...validCartRequest.items[0],
+            lineItems: [
+              { itemId: 'item-1', price: 20, quantity: 1, kind: 'product' },
+              { itemId: 'SAVE2', price: 2, quantity: 1, kind: 'discount' },
+            ],
+          },
+        ],
+      });
+
+      expect(result.items[0].discounts).toEqual([
+        { itemId: 'item-1', originalPrice: 20, price: 18, discount: 2 },
+      ]);
+    });
+
+    it('should accept a request from CartBuilder', async () => {
+      mockHttpClient.post.mockResolvedValue(mockCartResponse);
+      const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+      const cart = validCartRequest.items[0];
+
+      const request = new CartBuilder()
+        .customer(cart.customerId)
+        .currency('USD')
+        .from(cart.origin.address)
+        .to(cart.destination.address)
+        .addItem({ itemId: 'item-1', price: 20, quantity: 1 })
+        .addItem({ itemId: 'shipping', price: 5, quantity: 1, kind: 'shipping' })
+        .build();
+      const result = await client.calculateCart(request);
+
+      expect(result).toEqual(mockCartResponse);
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/calculate/cart',
+        {
+          items: [
+            {
+              ...cart,
+              lineItems: [
+                { itemId: 'item-1', price: 20, quantity: 1 },
+                { itemId: 'shipping', price: 5, quantity: 1, taxabilityCode: 11010 },
+              ],
+            },
+          ],
+        },
+        undefined
+      );
+    });
+
+    describe('pricesIncludeTax', () => {
+      // Clothing over $100 is taxed at 8.875%, cheaper clothing is tax-free
+      const respondWithThresholdRates = async (
+        _url: string,
+        body: unknown
+      ): Promise<CalculateCartResponse> => {
+        const [cart] = (body as CalculateCartRequest).items;
+        return {
+          items: [
+            {
+              ...mockCartResponse.items[0],
+              cartId: `cart-${cart.lineItems[0].price}`,
+              lineItems: cart.lineItems.map((line) => {
+                const rate = line.price > 100 ? 0.08875 : 0;
+                return { ...line, tax: { rate, amount: line.price * line.quantity * rate } };
+              }),
+            },
+          ],
+        };
+      };
+      const grossCart = (price: number): CalculateCartRequest => ({
+        items: [
+          {
+            ...validCartRequest.items[0],
+            lineItems: [
+              { itemId: 'coat', price, quantity: 1 },
+              { itemId: 'scarf', price: 20, quantity: 2 },
+            ],
+          },
+        ],
+      });
+
+      it('should send net prices backed out with the rates and reconcile to the cent', async () => {
+        mockHttpClient.post.mockImplementation(respondWithThresholdRates);
+        const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+        const { response, lines, reconciliation, discardedCartIds } = await client.calculateCart(
+          grossCart(120),
+          { pricesIncludeTax: true }
+        );
+
+        expect(mockHttpClient.post).toHaveBeenCalledTimes(2);
+        expect(mockHttpClient.post).toHaveBeenLastCalledWith(
+          '/calculate/cart',
+          {
+            items: [
+              {
+                ...validCartRequest.items[0],
+                lineItems: [
+                  { itemId: 'coat', price: 110.22, quantity: 1 },
+                  { itemId: 'scarf', price: 20, quantity: 2 },
+                ],
+              },
+            ],
+          },
+          {}
+        );
+        expect(response.items[0].lineItems[0].price).toBe(110.22);
+        expect(lines.map((line) => [line.itemId, line.gross, line.net, line.tax])).toEqual([
+          ['coat', 120, 110.22, 9.78],
+          ['scarf', 40, 40, 0],
+        ]);
+        expect(reconciliation).toEqual({
+          gross: 160,
+          net: 150.22,
+          tax: 9.78,
+          backendTax: 9.78,
+          difference: 0,
+          iterations: 2,
+          converged: true,
+        });
+        expect(response.items[0].cartId).toBe('cart-110.22');
+        expect(discardedCartIds).toEqual(['cart-120']);
+      });
+
+      it('should stop after maxIterations when the rates keep changing', async () => {
+        mockHttpClient.post.mockImplementation(respondWithThresholdRates);
+        const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+        // 105 / 1.08875 = 96.44, which is tax-free, so the rates flip on every call
+        const { reconciliation, discardedCartIds } = await client.calculateCart(grossCart(105), {
+          pricesIncludeTax: true,
+          maxIterations: 4,
+        });
+
+        expect(mockHttpClient.post).toHaveBeenCalledTimes(4);
+        expect(reconciliation.iterations).toBe(4);
+        expect(reconciliation.converged).toBe(false);
+        expect(reconciliation.gross).toBe(reconciliation.net + reconciliation.tax);
+        expect(discardedCartIds).toHaveLength(3);
+      });
+
+      it('should make a single call when nothing is taxed', async () => {
+        mockHttpClient.post.mockImplementation(respondWithThresholdRates);
+        const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+        const { lines, reconciliation, discardedCartIds } = await client.calculateCart(
+          grossCart(50),
+          { pricesIncludeTax: true }
+        );
+
+        expect(mockHttpClient.post).toHaveBeenCalledTimes(1);
+        expect(discardedCartIds).toEqual([]);
+        expect(lines.map((line) => line.net)).toEqual([50, 40]);
+        expect(reconciliation).toMatchObject({ tax: 0, iterations: 1, converged: true });
+      });
+
+      it('should reject an invalid maxIterations', async () => {
+        const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+        await expect(
+          client.calculateCart(grossCart(50), { pricesIncludeTax: true, maxIterations: 1 })
+        ).rejects.toThrow(ZiptaxValidationError);
+        expect(mockHttpClient.post).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('calculateCarts', () => {
+      const sellerCart = (customerId: string): CartItem => ({
+        ...validCartRequest.items[0],
+        customerId,
+      });
+
+      it('should calculate every cart and return results in input order', async () => {
+        mockHttpClient.post.mockImplementation(async (_url, body) => {
+          const { customerId } = (body as CalculateCartRequest).items[0];
+          // Resolve the first cart last to check the order of the results
+          await new Promise((resolve) => setTimeout(resolve, customerId === 'seller-1' ? 10 : 0));
+          return { items: [{ ...mockCartResponse.items[0], cartId: `cart-${customerId}` }] };
+        });
+        const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+        const onProgress = jest.fn();
+
+        const results = await client.calculateCarts(
+          [sellerCart('seller-1'), sellerCart('seller-2'), sellerCart('seller-2')],
+          { concurrency: 3, onProgress }
+        );
+
+        expect(results.map((result) => result.status)).toEqual([
+          'fulfilled',
+          'fulfilled',
+          'fulfilled',
+        ]);
+        expect(
+          results.map((result) => result.status === 'fulfilled' && result.value.items[0].cartId)
+        ).toEqual(['cart-seller-1', 'cart-seller-2', 'cart-seller-2']);
+        expect(mockHttpClient.post).toHaveBeenCalledTimes(3);
+        expect(mockHttpClient.post).toHaveBeenCalledWith(
+          '/calculate/cart',
+          { items: [sellerCart('seller-1')] },
+          {}
+        );
+        expect(onProgress).toHaveBeenLastCalledWith({ completed: 3, failed: 0, total: 3 });
+      });
+
+      it('should report failed carts without failing the others', async () => {
+        mockHttpClient.post.mockImplementation(async (_url, body) => {
+          if ((body as CalculateCartRequest).items[0].customerId === 'seller-2') {
+            throw new Error('Server error');
+          }
+          return mockCartResponse;
+        });
+        const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+        const invalidCart = { ...sellerCart('seller-3'), lineItems: [] };
+
+        const results = await client.calculateCarts([
+          sellerCart('seller-1'),
+          sellerCart('seller-2'),
+          invalidCart,
+        ]);
+
+        expect(results[0]).toEqual({
+          status: 'fulfilled',
+          params: sellerCart('seller-1'),
+          value: mockCartResponse,
+        });
+        expect(results[1].status === 'rejected' && results[1].error.message).toBe('Server error');
+        expect(results[2].status === 'rejected' && results[2].error).toBeInstanceOf(
+          ZiptaxValidationError
+        );
+        expect(mockHttpClient.post).toHaveBeenCalledTimes(2);
+      });
+
+      it('should throw ZiptaxConfigurationError for taxcloud without credentials', async () => {
+        const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+        await expect(
+          client.calculateCarts([sellerCart('seller-1')], { backend: 'taxcloud' })
+        ).rejects.toThrow(ZiptaxConfigurationError);
+        expect(mockHttpClient.post).not.toHaveBeenCalled();
+      });
+
+      it('should point calculateCart callers with many carts to calculateCarts', async () => {
+        const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+        await expect(
+          client.calculateCart({ items: [sellerCart('seller-1'), sellerCart('seller-2')] })
+        ).rejects.toThrow('use calculateCarts for many carts');
+      });
+    });
+
+    describe('calculateCartInChunks', () => {
+      const largeCart = (count: number): CalculateCartRequest => ({
+        items: [
+          {
+            ...validCartRequest.items[0],
+            lineItems: Array.from({ length: count }, (_, i) => ({
+              itemId: `item-${i}`,
+              price: 10,
+              quantity: 1,
+            })),
+          },
+        ],
+      });
+
+      beforeEach(() => {
+        mockHttpClient.post.mockImplementation(async (_url, body) => {
+          const [cart] = (body as CalculateCartRequest).items;
+          return {
+            items: [
+              {
+                ...mockCartResponse.items[0],
+                cartId: `cart-${cart.lineItems[0].itemId}`,
+                lineItems: cart.lineItems.map((line) => ({
+                  itemId: line.itemId,
+                  price: line.price,
+                  quantity: line.quantity,
+                  tax: { rate: 0.0775, amount: 0.78 },
+                })),
+              },
+            ],
+          };
+        });
+      });
+
+      it('should calculate a large cart in chunks and merge the results in order', async () => {
+        const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+        const { response, chunks } = await client.calculateCartInChunks(largeCart(1001));
+
+        expect(mockHttpClient.post).toHaveBeenCalledTimes(5);
+        expect(response.items[0].cartId).toBe('cart-item-0');
+        expect(response.items[0].lineItems).toHaveLength(1001);
+        expect(response.items[0].lineItems[1000].itemId).toBe('item-1000');
+        expect(chunks.map((chunk) => [chunk.cartId, chunk.start, chunk.itemIds.length])).toEqual([
+          ['cart-item-0', 0, 250],
+          ['cart-item-250', 250, 250],
+          ['cart-item-500', 500, 250],
+          ['cart-item-750', 750, 250],
+          ['cart-item-1000', 1000, 1],
+        ]);
+      });
+
+      it('should validate every chunk before sending any', async () => {
+        const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+        const request = largeCart(300);
+        request.items[0].lineItems[299].price = -1;
+
+        await expect(client.calculateCartInChunks(request)).rejects.toThrow(ZiptaxValidationError);
+        expect(mockHttpClient.post).not.toHaveBeenCalled();
+      });
+
+      it('should reject a cart without line items before chunking it', async () => {
+        const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+        const request = {
+          items: [{ ...validCartRequest.items[0], lineItems: undefined }],
+        } as unknown as CalculateCartRequest;
+
+        await expect(client.calculateCartInChunks(request)).rejects.toThrow(
+          new ZiptaxValidationError('lineItems is required')
+        );
+        expect(mockHttpClient.post).not.toHaveBeenCalled();
+      });
+
+      it('should fail if any chunk fails', async () => {
+        mockHttpClient.post.mockRejectedValueOnce(new Error('Server error'));
+        const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+        await expect(
+          client.calculateCartInChunks(largeCart(20), { chunkSize: 10 })
+        ).rejects.toThrow('Server error');
+      });
+
+      it('should point calculateCart callers with large carts to calculateCartInChunks', async () => {
+        const client = new ZiptaxClient({ apiKey: 'test-api-key' });
+
+        await expect(client.calculateCart(largeCart(251))).rejects.toThrow(
+          'use calculateCartInChunks for larger carts'
+        );
+      });
+    });
   });
 });
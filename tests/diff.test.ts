@@ -0,0 +1,124 @@
+/**
+ * Tests for rate diff helpers
+ */
+
+import { diffRates } from '../src/utils/diff';
+import { V60Response } from '../src/models';
+
+function response(overrides: Partial<V60Response> = {}): V60Response {
+  return {
+    metadata: {
+      version: 'v60',
+      response: { code: 100, name: 'RESPONSE_CODE_SUCCESS', message: '', definition: '' },
+    },
+    baseRates: [
+      { rate: 0.06, jurType: 'US_STATE_SALES_TAX', jurName: 'CA' },
+      { rate: 0.01, jurType: 'US_CITY_SALES_TAX', jurName: 'IRVINE' },
+    ],
+    service: { adjustmentType: 'SERVICE_TAXABLE', taxable: 'N', description: '' },
+    shipping: { adjustmentType: 'FREIGHT_TAXABLE', taxable: 'N', description: '' },
+    sourcingRules: { adjustmentType: 'ORIGIN_DESTINATION', description: '', value: 'D' },
+    taxSummaries: [{ rate: 0.07, taxType: 'SALES_TAX', summaryName: '', displayRates: [] }],
+    addressDetail: { normalizedAddress: '', incorporated: 'true', geoLat: 0, geoLng: 0 },
+    ...overrides,
+  };
+}
+
+describe('diffRates', () => {
+  it('should report no changes for identical rates in a different order', () => {
+    const before = response();
+    const after = response({ baseRates: [...before.baseRates!].reverse() });
+
+    const diff = diffRates(before, after);
+
+    expect(diff.changed).toBe(false);
+    expect(diff.baseRates).toEqual({ added: [], removed: [], changed: [] });
+    expect(diff.taxSummaries).toEqual([]);
+    expect(diff.service).toBeUndefined();
+  });
+
+  it('should report added, removed and changed jurisdictions', () => {
+    const after = response({
+      baseRates: [
+        { rate: 0.0625, jurType: 'US_STATE_SALES_TAX', jurName: 'CA' },
+        { rate: 0.0025, jurType: 'US_DISTRICT_SALES_TAX', jurName: 'ORANGE CO LOCAL TAX SL' },
+      ],
+    });
+
+    const diff = diffRates(response(), after);
+
+    expect(diff.changed).toBe(true);
+    expect(diff.baseRates.added).toEqual([after.baseRates![1]]);
+    expect(diff.baseRates.removed).toEqual([
+      { rate: 0.01, jurType: 'US_CITY_SALES_TAX', jurName: 'IRVINE' },
+    ]);
+    expect(diff.baseRates.changed).toEqual([
+      expect.objectContaining({
+        jurType: 'US_STATE_SALES_TAX',
+        jurName: 'CA',
+        before: expect.objectContaining({ rate: 0.06 }),
+        after: expect.objectContaining({ rate: 0.0625 }),
+      }),
+    ]);
+    // 0.0625 - 0.06 is 0.0025000000000000022 in floating point
+    expect(diff.baseRates.changed[0].delta).toBe(0.0025);
+  });
+
+  it('should match repeated jurisdictions in order', () => {
+    const district = { jurType: 'US_DISTRICT_SALES_TAX', jurName: 'DISTRICT' };
+    const before = response({
+      baseRates: [
+        { ...district, rate: 0.001 },
+        { ...district, rate: 0.002 },
+      ],
+    });
+    const after = response({
+      baseRates: [
+        { ...district, rate: 0.001 },
+        { ...district, rate: 0.003 },
+      ],
+    });
+
+    const diff = diffRates(before, after);
+
+    expect(diff.baseRates.added).toEqual([]);
+    expect(diff.baseRates.removed).toEqual([]);
+    expect(diff.baseRates.changed.map((change) => change.after.rate)).toEqual([0.003]);
+  });
+
+  it('should report tax summary changes', () => {
+    const after = response({
+      taxSummaries: [
+        { rate: 0.0725, taxType: 'SALES_TAX', summaryName: '', displayRates: [] },
+        { rate: 0.0725, taxType: 'USE_TAX', summaryName: '', displayRates: [] },
+      ],
+    });
+
+    const diff = diffRates(response(), after);
+
+    expect(diff.taxSummaries).toEqual([
+      { taxType: 'SALES_TAX', before: 0.07, after: 0.0725 },
+      { taxType: 'USE_TAX', after: 0.0725 },
+    ]);
+    expect(diffRates(after, response()).taxSummaries).toEqual([
+      { taxType: 'SALES_TAX', before: 0.0725, after: 0.07 },
+      { taxType: 'USE_TAX', before: 0.0725, after: undefined },
+    ]);
+  });
+
+  it('should report taxability and sourcing changes', () => {
+    const before = response();
+    const after = response({
+      service: { ...before.service, taxable: 'Y' },
+      shipping: { ...before.shipping, taxable: 'Y' },
+      sourcingRules: undefined,
+    });
+
+    const diff = diffRates(before, after);
+
+    expect(diff.changed).toBe(true);
+    expect(diff.service).toEqual({ before: 'N', after: 'Y' });
+    expect(diff.shipping).toEqual({ before: 'N', after: 'Y' });
+    expect(diff.sourcingRules).toEqual({ before: 'D', after: undefined });
+  });
+});
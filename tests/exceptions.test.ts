@@ -9,6 +9,9 @@ import {
   ZiptaxRateLimitError,
   ZiptaxValidationError,
   ZiptaxNetworkError,
+  ZiptaxAbortError,
+  ZiptaxCircuitOpenError,
+  ZiptaxQueueError,
   ZiptaxRetryError,
   ZiptaxConfigurationError,
 } from '../src/exceptions';
@@ -118,6 +121,44 @@ describe('Exception classes', () => {
     });
   });
 
+  describe('ZiptaxAbortError', () => {
+    it('should create error with default message', () => {
+      const error = new ZiptaxAbortError();
+      expect(error.message).toBe('Request was aborted.');
+      expect(error.name).toBe('ZiptaxAbortError');
+      expect(error.reason).toBeUndefined();
+      expect(error).toBeInstanceOf(ZiptaxError);
+    });
+
+    it('should create error with abort reason', () => {
+      const error = new ZiptaxAbortError('Checkout closed', 'user-left');
+      expect(error.message).toBe('Checkout closed');
+      expect(error.reason).toBe('user-left');
+    });
+  });
+
+  describe('ZiptaxCircuitOpenError', () => {
+    it('should create error with backend and retry after', () => {
+      const error = new ZiptaxCircuitOpenError('Circuit open', 'taxcloud', 12);
+      expect(error.message).toBe('Circuit open');
+      expect(error.name).toBe('ZiptaxCircuitOpenError');
+      expect(error.backend).toBe('taxcloud');
+      expect(error.retryAfter).toBe(12);
+      expect(error).toBeInstanceOf(ZiptaxError);
+    });
+  });
+
+  describe('ZiptaxQueueError', () => {
+    it('should create error with backend and reason', () => {
+      const error = new ZiptaxQueueError('Queue full', 'ziptax', 'queue-full');
+      expect(error.message).toBe('Queue full');
+      expect(error.name).toBe('ZiptaxQueueError');
+      expect(error.backend).toBe('ziptax');
+      expect(error.reason).toBe('queue-full');
+      expect(error).toBeInstanceOf(ZiptaxError);
+    });
+  });
+
   describe('ZiptaxRetryError', () => {
     it('should create error with attempts', () => {
       const error = new ZiptaxRetryError('Max retries exceeded', 3);
@@ -133,6 +174,14 @@ describe('Exception classes', () => {
       const error = new ZiptaxRetryError('Max retries exceeded', 3, lastError);
       expect(error.lastError).toBe(lastError);
     });
+
+    it('should create error with attempt history', () => {
+      const lastError = new Error('Last attempt failed');
+      const history = [{ attempt: 1, error: lastError }];
+      const error = new ZiptaxRetryError('Max retries exceeded', 1, lastError, history);
+      expect(error.history).toBe(history);
+      expect(new ZiptaxRetryError('Max retries exceeded', 3).history).toEqual([]);
+    });
   });
 
   describe('ZiptaxConfigurationError', () => {
@@ -0,0 +1,86 @@
+/**
+ * Tests for rate history helpers
+ */
+
+import { buildRateHistory, listMonths, MAX_RATE_HISTORY_MONTHS } from '../src/utils/history';
+import { ZiptaxValidationError } from '../src/exceptions';
+import { V60Response } from '../src/models';
+
+function response(stateRate: number, cityRate: number, totalRate: number): V60Response {
+  return {
+    metadata: {
+      version: 'v60',
+      response: { code: 100, name: 'RESPONSE_CODE_SUCCESS', message: '', definition: '' },
+    },
+    baseRates: [
+      { rate: stateRate, jurType: 'US_STATE_SALES_TAX', jurName: 'CA' },
+      { rate: cityRate, jurType: 'US_CITY_SALES_TAX', jurName: 'IRVINE' },
+    ],
+    service: { adjustmentType: 'SERVICE_TAXABLE', taxable: 'N', description: '' },
+    shipping: { adjustmentType: 'FREIGHT_TAXABLE', taxable: 'N', description: '' },
+    taxSummaries: [
+      { rate: totalRate, taxType: 'SALES_TAX', summaryName: '', displayRates: [] },
+      { rate: totalRate, taxType: 'USE_TAX', summaryName: '', displayRates: [] },
+    ],
+    addressDetail: { normalizedAddress: '', incorporated: 'true', geoLat: 0, geoLng: 0 },
+  };
+}
+
+describe('listMonths', () => {
+  it('should list months across a year boundary', () => {
+    expect(listMonths('202311', '202402')).toEqual(['202311', '202312', '202401', '202402']);
+  });
+
+  it('should return a single month when from equals to', () => {
+    expect(listMonths('202401', '202401')).toEqual(['202401']);
+  });
+
+  it('should reject invalid months and reversed ranges', () => {
+    expect(() => listMonths('202413', '202501')).toThrow(ZiptaxValidationError);
+    expect(() => listMonths('2024-01', '202401')).toThrow(ZiptaxValidationError);
+    expect(() => listMonths('202402', '202401')).toThrow('from must not be after to');
+  });
+
+  it('should reject ranges longer than MAX_RATE_HISTORY_MONTHS', () => {
+    expect(listMonths('201501', '202412')).toHaveLength(MAX_RATE_HISTORY_MONTHS);
+    expect(() => listMonths('190001', '202412')).toThrow(
+      'from and to must not span more than 120 months'
+    );
+  });
+});
+
+describe('buildRateHistory', () => {
+  it('should build a series and collapse identical consecutive rates into ranges', () => {
+    const months = ['202401', '202402', '202403', '202404'];
+    const responses = [
+      response(0.06, 0.01, 0.07),
+      response(0.06, 0.01, 0.07),
+      response(0.06, 0.015, 0.075),
+      response(0.06, 0.01, 0.07),
+    ];
+
+    const history = buildRateHistory(months, responses);
+
+    expect(history.series.map((entry) => [entry.month, entry.salesTaxRate])).toEqual([
+      ['202401', 0.07],
+      ['202402', 0.07],
+      ['202403', 0.075],
+      ['202404', 0.07],
+    ]);
+    expect(history.ranges.map(({ from, to, months: count }) => [from, to, count])).toEqual([
+      ['202401', '202402', 2],
+      ['202403', '202403', 1],
+      ['202404', '202404', 1],
+    ]);
+    expect(history.ranges[1].baseRates[1].rate).toBe(0.015);
+  });
+
+  it('should ignore the order of jurisdictions when comparing rates', () => {
+    const reordered = response(0.06, 0.01, 0.07);
+    reordered.baseRates = [...reordered.baseRates!].reverse();
+
+    const history = buildRateHistory(['202401', '202402'], [response(0.06, 0.01, 0.07), reordered]);
+
+    expect(history.ranges).toHaveLength(1);
+  });
+});
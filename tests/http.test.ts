@@ -4,11 +4,14 @@
 
 import axios from 'axios';
 import { HTTPClient } from '../src/utils/http';
+import { Transport } from '../src/utils/transport';
 import {
+  ZiptaxAbortError,
   ZiptaxAPIError,
   ZiptaxAuthenticationError,
   ZiptaxNetworkError,
   ZiptaxRateLimitError,
+  ZiptaxRetryError,
 } from '../src/exceptions';
 
 jest.mock('axios');
@@ -36,7 +39,14 @@ describe('HTTPClient', () => {
   });
 
   describe('constructor', () => {
-    it('should create axios instance with correct config', () => {
+    it('should create axios instance with correct config on the first request', async () => {
+      mockAxiosInstance.request.mockResolvedValue({ status: 200, headers: {}, data: {} });
+      expect(mockedAxios.create).not.toHaveBeenCalled();
+
+      await httpClient.get('/test');
+      await httpClient.get('/test');
+
+      expect(mockedAxios.create).toHaveBeenCalledTimes(1);
       expect(mockedAxios.create).toHaveBeenCalledWith({
         baseURL: 'https://api.zip-tax.com',
         timeout: 30000,
@@ -48,12 +58,13 @@ describe('HTTPClient', () => {
       });
     });
 
-    it('should use custom timeout if provided', () => {
-      new HTTPClient({
+    it('should use custom timeout if provided', async () => {
+      mockAxiosInstance.request.mockResolvedValue({ status: 200, headers: {}, data: {} });
+      await new HTTPClient({
         baseURL: 'https://api.zip-tax.com',
         apiKey: 'test-api-key',
         timeout: 5000,
-      });
+      }).get('/test');
 
       expect(mockedAxios.create).toHaveBeenCalledWith(expect.objectContaining({ timeout: 5000 }));
     });
@@ -153,7 +164,9 @@ describe('HTTPClient', () => {
       });
       mockedAxios.isAxiosError.mockReturnValue(true);
 
-      await expect(httpClient.get('/test')).rejects.toThrow(ZiptaxRateLimitError);
+      await expect(httpClient.get('/test', { retryOptions: { maxAttempts: 1 } })).rejects.toThrow(
+        ZiptaxRateLimitError
+      );
     });
 
     it('should throw ZiptaxRateLimitError without retry-after header', async () => {
@@ -167,12 +180,14 @@ describe('HTTPClient', () => {
       });
       mockedAxios.isAxiosError.mockReturnValue(true);
 
-      const error = (await httpClient.get('/test').catch((e) => e)) as ZiptaxRateLimitError;
+      const error = (await httpClient
+        .get('/test', { retryOptions: { maxAttempts: 1 } })
+        .catch((e) => e)) as ZiptaxRateLimitError;
       expect(error).toBeInstanceOf(ZiptaxRateLimitError);
       expect(error.retryAfter).toBeUndefined();
     });
 
-    it('should throw ZiptaxNetworkError for network failures', async () => {
+    it('should throw ZiptaxRetryError wrapping ZiptaxNetworkError for network failures', async () => {
       mockAxiosInstance.request.mockRejectedValue({
         isAxiosError: true,
         message: 'Network Error',
@@ -180,7 +195,10 @@ describe('HTTPClient', () => {
       });
       mockedAxios.isAxiosError.mockReturnValue(true);
 
-      await expect(httpClient.get('/test')).rejects.toThrow(ZiptaxNetworkError);
+      const error = (await httpClient.get('/test').catch((e) => e)) as ZiptaxRetryError;
+      expect(error).toBeInstanceOf(ZiptaxRetryError);
+      expect(error.lastError).toBeInstanceOf(ZiptaxNetworkError);
+      expect(error.history).toHaveLength(3);
     });
 
     it('should throw ZiptaxAPIError for other HTTP errors', async () => {
@@ -190,7 +208,9 @@ describe('HTTPClient', () => {
       });
       mockedAxios.isAxiosError.mockReturnValue(true);
 
-      await expect(httpClient.get('/test')).rejects.toThrow(ZiptaxAPIError);
+      await expect(httpClient.get('/test', { retryOptions: { maxAttempts: 1 } })).rejects.toThrow(
+        ZiptaxAPIError
+      );
     });
 
     it('should extract error message from string data', async () => {
@@ -345,4 +365,138 @@ describe('HTTPClient', () => {
       expect(error.responseBody).toEqual(responseData);
     });
   });
+
+  describe('custom transport', () => {
+    const transportRequest = jest.fn();
+    let customClient: HTTPClient;
+
+    beforeEach(() => {
+      customClient = new HTTPClient({
+        baseURL: 'https://api.zip-tax.com',
+        apiKey: 'test-api-key',
+        transport: (): Transport => ({ request: transportRequest }),
+      });
+    });
+
+    it('should delegate requests to the transport', async () => {
+      transportRequest.mockResolvedValue({ status: 200, headers: {}, data: { ok: true } });
+
+      const result = await customClient.get('/test', { params: { key: 'value' } });
+
+      expect(result).toEqual({ ok: true });
+      expect(mockedAxios.create).not.toHaveBeenCalled();
+      expect(transportRequest).toHaveBeenCalledWith({
+        method: 'GET',
+        url: '/test',
+        params: { key: 'value' },
+      });
+    });
+
+    it('should map error statuses the same way for every transport', async () => {
+      transportRequest.mockResolvedValue({
+        status: 429,
+        headers: { 'retry-after': '60' },
+        data: { message: 'Slow down' },
+      });
+
+      const error = (await customClient
+        .get('/test', { retryOptions: { maxAttempts: 1 } })
+        .catch((e) => e)) as ZiptaxRateLimitError;
+      expect(error).toBeInstanceOf(ZiptaxRateLimitError);
+      expect(error.message).toBe('Slow down');
+      expect(error.retryAfter).toBe(60);
+    });
+
+    it('should parse Retry-After given as an HTTP date', async () => {
+      transportRequest.mockResolvedValue({
+        status: 429,
+        headers: { 'retry-after': new Date(Date.now() + 30000).toUTCString() },
+        data: {},
+      });
+
+      const error = (await customClient
+        .get('/test', { retryOptions: { maxAttempts: 1 } })
+        .catch((e) => e)) as ZiptaxRateLimitError;
+      expect(error.retryAfter).toBeGreaterThanOrEqual(29);
+      expect(error.retryAfter).toBeLessThanOrEqual(30);
+    });
+
+    it('should retry rate-limited requests after the Retry-After delay', async () => {
+      jest.useFakeTimers();
+      transportRequest
+        .mockResolvedValueOnce({ status: 429, headers: { 'retry-after': '5' }, data: {} })
+        .mockResolvedValue({ status: 200, headers: {}, data: { ok: true } });
+
+      const promise = customClient.get('/test');
+      await jest.advanceTimersByTimeAsync(4999);
+      expect(transportRequest).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+
+      await expect(promise).resolves.toEqual({ ok: true });
+      expect(transportRequest).toHaveBeenCalledTimes(2);
+      jest.useRealTimers();
+    });
+
+    it('should check the response body for API-level errors', async () => {
+      transportRequest.mockResolvedValue({
+        status: 200,
+        headers: {},
+        data: { metadata: { response: { code: 101, message: 'Invalid API key' } } },
+      });
+
+      await expect(customClient.get('/test')).rejects.toThrow(ZiptaxAuthenticationError);
+    });
+  });
+
+  describe('per-call request options', () => {
+    const transportRequest = jest.fn();
+    let customClient: HTTPClient;
+
+    beforeEach(() => {
+      customClient = new HTTPClient({
+        baseURL: 'https://api.zip-tax.com',
+        apiKey: 'test-api-key',
+        transport: (): Transport => ({ request: transportRequest }),
+      });
+    });
+
+    it('should pass signal, timeout and headers to the transport', async () => {
+      transportRequest.mockResolvedValue({ status: 200, headers: {}, data: 'ok' });
+      const controller = new AbortController();
+
+      await customClient.post(
+        '/test',
+        { a: 1 },
+        { signal: controller.signal, timeout: 1000, headers: { 'X-Trace-Id': 'abc' } }
+      );
+
+      expect(transportRequest).toHaveBeenCalledWith({
+        method: 'POST',
+        url: '/test',
+        data: { a: 1 },
+        signal: controller.signal,
+        timeout: 1000,
+        headers: { 'X-Trace-Id': 'abc' },
+      });
+    });
+
+    it('should apply per-call retry options', async () => {
+      transportRequest.mockResolvedValue({ status: 503, headers: {}, data: {} });
+
+      await expect(customClient.get('/test', { retryOptions: { maxAttempts: 1 } })).rejects.toThrow(
+        ZiptaxAPIError
+      );
+      expect(transportRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw ZiptaxAbortError without sending when already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(customClient.get('/test', { signal: controller.signal })).rejects.toThrow(
+        ZiptaxAbortError
+      );
+      expect(transportRequest).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,154 @@
+/**
+ * Tests for tax-inclusive cart pricing
+ */
+
+import { ZiptaxAPIError } from '../src/exceptions';
+import { getLineRates, reconcileTaxInclusiveCart, toNetPrices } from '../src/utils/inclusive';
+import {
+  CalculateCartRequest,
+  CalculateCartResponse,
+  TaxCloudCalculateCartResponse,
+} from '../src/models';
+
+const grossRequest: CalculateCartRequest = {
+  items: [
+    {
+      customerId: 'customer-453',
+      currency: { currencyCode: 'CAD' },
+      destination: { address: '100 Queen St W, Toronto, ON M5H 2N2' },
+      origin: { address: '100 Queen St W, Toronto, ON M5H 2N2' },
+      lineItems: [
+        { itemId: 'item-1', price: 11.3, quantity: 1 },
+        { itemId: 'item-2', price: 5.65, quantity: 3 },
+        { itemId: 'item-3', price: 4.99, quantity: 1 },
+      ],
+    },
+  ],
+};
+
+function response(rates: number[], amounts: number[]): CalculateCartResponse {
+  return {
+    items: [
+      {
+        cartId: 'cart-1',
+        customerId: 'customer-453',
+        destination: grossRequest.items[0].destination,
+        origin: grossRequest.items[0].origin,
+        lineItems: grossRequest.items[0].lineItems.map((line, i) => ({
+          itemId: line.itemId,
+          price: line.price,
+          quantity: line.quantity,
+          tax: { rate: rates[i], amount: amounts[i] },
+        })),
+      },
+    ],
+  };
+}
+
+describe('getLineRates', () => {
+  it('should return the rate of every line in cart order', () => {
+    expect(getLineRates(response([0.13, 0.13, 0], [0, 0, 0]), 3)).toEqual([0.13, 0.13, 0]);
+  });
+
+  it('should order TaxCloud lines by index', () => {
+    const taxCloudResponse = {
+      connectionId: 'connection-1',
+      transactionDate: '2026-01-01T00:00:00Z',
+      items: [
+        {
+          cartId: 'cart-1',
+          currency: { currencyCode: 'CAD' },
+          origin: { line1: '100 Queen St W', city: 'Toronto', state: 'ON', zip: 'M5H 2N2' },
+          destination: { line1: '100 Queen St W', city: 'Toronto', state: 'ON', zip: 'M5H 2N2' },
+          lineItems: [
+            { index: 1, itemId: 'item-2', price: 1, quantity: 1, tax: { rate: 0.05, amount: 0 } },
+            { index: 0, itemId: 'item-1', price: 1, quantity: 1, tax: { rate: 0.13, amount: 0 } },
+          ],
+        },
+      ],
+    } as unknown as TaxCloudCalculateCartResponse;
+
+    expect(getLineRates(taxCloudResponse, 2)).toEqual([0.13, 0.05]);
+  });
+
+  it('should reject responses missing a line', () => {
+    expect(() => getLineRates(response([0.13, 0.13, 0], [0, 0, 0]), 4)).toThrow(ZiptaxAPIError);
+  });
+});
+
+describe('toNetPrices', () => {
+  it('should back the tax out of each line total', () => {
+    const netRequest = toNetPrices(grossRequest, [0.13, 0.13, 0]);
+
+    expect(netRequest.items[0].lineItems.map((line) => line.price)).toEqual([10, 5, 4.99]);
+    expect(netRequest.items[0].customerId).toBe('customer-453');
+    expect(grossRequest.items[0].lineItems[0].price).toBe(11.3);
+  });
+
+  it('should round the net line total to the cent', () => {
+    const request = {
+      items: [{ ...grossRequest.items[0], lineItems: [{ itemId: 'a', price: 10, quantity: 3 }] }],
+    };
+
+    // 30 / 1.13 = 26.548... -> 26.55, spread over 3 units
+    expect(toNetPrices(request, [0.13]).items[0].lineItems[0].price).toBe(8.85);
+  });
+});
+
+describe('reconcileTaxInclusiveCart', () => {
+  it('should split every line into net and tax that add up to the shelf price', () => {
+    const netRequest = toNetPrices(grossRequest, [0.13, 0.13, 0]);
+
+    const result = reconcileTaxInclusiveCart(
+      grossRequest,
+      netRequest,
+      response([0.13, 0.13, 0], [1.3, 1.95, 0]),
+      2,
+      true
+    );
+
+    expect(result.lines.map((line) => [line.itemId, line.gross, line.net, line.tax])).toEqual([
+      ['item-1', 11.3, 10, 1.3],
+      ['item-2', 16.95, 15, 1.95],
+      ['item-3', 4.99, 4.99, 0],
+    ]);
+    expect(result.lines[1]).toMatchObject({ grossPrice: 5.65, netPrice: 5, rate: 0.13 });
+    expect(result.reconciliation).toEqual({
+      gross: 33.24,
+      net: 29.99,
+      tax: 3.25,
+      backendTax: 3.25,
+      difference: 0,
+      iterations: 2,
+      converged: true,
+    });
+  });
+
+  it("should report differences from the backend's tax amounts", () => {
+    const request = {
+      items: [{ ...grossRequest.items[0], lineItems: [{ itemId: 'a', price: 10, quantity: 1 }] }],
+    };
+    const netRequest = toNetPrices(request, [0.13]);
+
+    const result = reconcileTaxInclusiveCart(
+      request,
+      netRequest,
+      {
+        items: [
+          {
+            ...response([0.13], [0]).items[0],
+            lineItems: [
+              { itemId: 'a', price: 8.85, quantity: 1, tax: { rate: 0.13, amount: 1.16 } },
+            ],
+          },
+        ],
+      },
+      2,
+      true
+    );
+
+    // 10 / 1.13 = 8.849... -> net 8.85 and tax 1.15, but 8.85 x 0.13 = 1.1505 -> 1.16
+    expect(result.lines[0]).toMatchObject({ net: 8.85, tax: 1.15, backendTax: 1.16 });
+    expect(result.reconciliation.difference).toBe(0.01);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for cart line kinds
+ */
+
+import { ZiptaxValidationError } from '../src/exceptions';
+import {
+  prepareCartLines,
+  prepareCartRequest,
+  TypedCalculateCartRequest,
+  TypedCartLineItem,
+} from '../src/utils/lines';
+
+describe('prepareCartLines', () => {
+  it('should map shipping and handling lines to their TICs', () => {
+    const { lineItems, shippingItemIds, discounts } = prepareCartLines([
+      { itemId: 'item-1', price: 10, quantity: 1, kind: 'product' },
+      { itemId: 'item-2', price: 10, quantity: 1, taxabilityCode: 31000 },
+      { itemId: 'shipping', price: 5, quantity: 1, kind: 'shipping' },
+      { itemId: 'handling', price: 2, quantity: 1, kind: 'handling' },
+      { itemId: 'freight', price: 9, quantity: 1, kind: 'shipping', taxabilityCode: 11099 },
+    ]);
+
+    expect(lineItems).toEqual([
+      { itemId: 'item-1', price: 10, quantity: 1 },
+      { itemId: 'item-2', price: 10, quantity: 1, taxabilityCode: 31000 },
+      { itemId: 'shipping', price: 5, quantity: 1, taxabilityCode: 11010 },
+      { itemId: 'handling', price: 2, quantity: 1, taxabilityCode: 11000 },
+      { itemId: 'freight', price: 9, quantity: 1, taxabilityCode: 11099 },
+    ]);
+    expect(shippingItemIds).toEqual(['shipping', 'handling', 'freight']);
+    expect(discounts).toEqual([]);
+  });
+
+  it('should use the given TICs', () => {
+    const { lineItems } = prepareCartLines(
+      [
+        { itemId: 'item-1', price: 10, quantity: 1 },
+        { itemId: 'shipping', price: 5, quantity: 1, kind: 'shipping' },
+      ],
+      { tics: { product: 0, shipping: 11011 } }
+    );
+
+    expect(lineItems.map((line) => line.taxabilityCode)).toEqual([0, 11011]);
+  });
+
+  it('should allocate discounts to product lines pro rata', () => {
+    const { lineItems, discounts } = prepareCartLines([
+      { itemId: 'item-1', price: 20, quantity: 1 },
+      { itemId: 'item-2', price: 10, quantity: 3 },
+      { itemId: 'shipping', price: 5, quantity: 1, kind: 'shipping' },
+      { itemId: 'SAVE5', price: 5, quantity: 1, kind: 'discount' },
+      { itemId: 'SAVE1', price: 0.5, quantity: 2, kind: 'discount' },
+    ]);
+
+    expect(lineItems.map((line) => [line.itemId, line.price])).toEqual([
+      ['item-1', 17.6],
+      ['item-2', 8.8],
+      ['shipping', 5],
+    ]);
+    expect(discounts).toEqual([
+      { itemId: 'item-1', originalPrice: 20, price: 17.6, discount: 2.4 },
+      { itemId: 'item-2', originalPrice: 10, price: 8.8, discount: 3.6 },
+    ]);
+  });
+
+  it('should keep the allocated discounts summing to the discount total', () => {
+    const lines: TypedCartLineItem[] = [1, 2, 3].map((n) => ({
+      itemId: `item-${n}`,
+      price: 1,
+      quantity: 1,
+    }));
+
+    const { discounts } = prepareCartLines([
+      ...lines,
+      { itemId: 'SAVE', price: 0.1, quantity: 1, kind: 'discount' },
+    ]);
+
+    expect(discounts.map((discount) => discount.discount)).toEqual([0.04, 0.03, 0.03]);
+  });
+
+  it('should reject discounts not less than the product subtotal', () => {
+    expect(() =>
+      prepareCartLines([
+        { itemId: 'item-1', price: 10, quantity: 1 },
+        { itemId: 'shipping', price: 5, quantity: 1, kind: 'shipping' },
+        { itemId: 'SAVE10', price: 10, quantity: 1, kind: 'discount' },
+      ])
+    ).toThrow(ZiptaxValidationError);
+  });
+
+  it('should reject unknown kinds and invalid lines', () => {
+    expect(() =>
+      prepareCartLines([
+        { itemId: 'item-1', price: 10, quantity: 1, kind: 'tip' as TypedCartLineItem['kind'] },
+      ])
+    ).toThrow("lineItems[].kind must be 'product', 'shipping', 'handling' or 'discount'");
+    expect(() =>
+      prepareCartLines([{ itemId: 'SAVE', price: -1, quantity: 1, kind: 'discount' }])
+    ).toThrow(ZiptaxValidationError);
+  });
+});
+
+describe('prepareCartRequest', () => {
+  const request: TypedCalculateCartRequest = {
+    items: [
+      {
+        customerId: 'customer-453',
+        currency: { currencyCode: 'CAD' },
+        destination: { address: '200 Spectrum Center Dr, Irvine, CA 92618' },
+        origin: { address: '323 Washington Ave N, Minneapolis, MN 55401' },
+        lineItems: [
+          { itemId: 'item-1', price: 10, quantity: 1 },
+          { itemId: 'SAVE1', price: 1, quantity: 1, kind: 'discount' },
+        ],
+      },
+    ],
+  };
+
+  it('should prepare the lines of every cart', () => {
+    const prepared = prepareCartRequest(request);
+
+    expect(prepared.request.items[0]).toEqual({
+      ...request.items[0],
+      lineItems: [{ itemId: 'item-1', price: 9, quantity: 1 }],
+    });
+    expect(prepared.discounts).toEqual([
+      [{ itemId: 'item-1', originalPrice: 10, price: 9, discount: 1 }],
+    ]);
+  });
+
+  it('should return a request without kinds unchanged', () => {
+    const plain = { items: [{ ...request.items[0], lineItems: [request.items[0].lineItems[0]] }] };
+
+    expect(prepareCartRequest(plain).request).toBe(plain);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for logging utilities
+ */
+
+import {
+  adaptPinoLogger,
+  consoleLogger,
+  redact,
+  REDACTED,
+  resolveLogger,
+  withLogLevel,
+} from '../src/utils/logger';
+
+function createMockLogger(): {
+  debug: jest.Mock;
+  info: jest.Mock;
+  warn: jest.Mock;
+  error: jest.Mock;
+} {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+}
+
+describe('redact', () => {
+  it('should redact credentials, addresses and customer IDs', () => {
+    const result = redact({
+      apiKey: 'secret',
+      'X-API-Key': 'secret',
+      address: '200 Spectrum Center Dr, Irvine, CA 92618',
+      format: 'json',
+      items: [
+        {
+          customerId: 'customer-453',
+          destination: { line1: '323 Washington Ave N', city: 'Minneapolis', state: 'MN' },
+        },
+      ],
+    });
+
+    expect(result).toEqual({
+      apiKey: REDACTED,
+      'X-API-Key': REDACTED,
+      address: REDACTED,
+      format: 'json',
+      items: [
+        {
+          customerId: REDACTED,
+          destination: { line1: REDACTED, city: 'Minneapolis', state: 'MN' },
+        },
+      ],
+    });
+  });
+
+  it('should not modify the original value', () => {
+    const original = { apiKey: 'secret' };
+
+    redact(original);
+
+    expect(original.apiKey).toBe('secret');
+  });
+
+  it('should leave primitives and missing values unchanged', () => {
+    expect(redact('plain')).toBe('plain');
+    expect(redact(undefined)).toBeUndefined();
+    expect(redact({ apiKey: undefined })).toEqual({ apiKey: undefined });
+  });
+
+  it('should handle circular references', () => {
+    const value: Record<string, unknown> = { apiKey: 'secret' };
+    value.self = value;
+
+    expect(redact(value)).toEqual({ apiKey: REDACTED, self: '[Circular]' });
+  });
+});
+
+describe('withLogLevel', () => {
+  it('should drop entries below the configured level', () => {
+    const logger = createMockLogger();
+    const filtered = withLogLevel(logger, 'warn');
+
+    filtered.debug('debug');
+    filtered.info('info');
+    filtered.warn('warn', { a: 1 });
+    filtered.error('error');
+
+    expect(logger.debug).not.toHaveBeenCalled();
+    expect(logger.info).not.toHaveBeenCalled();
+    expect(logger.warn).toHaveBeenCalledWith('warn', { a: 1 });
+    expect(logger.error).toHaveBeenCalledWith('error');
+  });
+});
+
+describe('adaptPinoLogger', () => {
+  it('should pass fields before the message', () => {
+    const pino = createMockLogger();
+    const logger = adaptPinoLogger(pino);
+
+    logger.info('hello', { backend: 'ziptax' });
+    logger.error('failed');
+
+    expect(pino.info).toHaveBeenCalledWith({ backend: 'ziptax' }, 'hello');
+    expect(pino.error).toHaveBeenCalledWith({}, 'failed');
+  });
+});
+
+describe('resolveLogger', () => {
+  it('should return undefined when logging is not configured', () => {
+    expect(resolveLogger({})).toBeUndefined();
+  });
+
+  it('should return undefined for the silent level', () => {
+    expect(resolveLogger({ logger: createMockLogger(), logLevel: 'silent' })).toBeUndefined();
+  });
+
+  it('should use the console logger when logging is enabled', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+    resolveLogger({ enableLogging: true })?.warn('careful', { a: 1 });
+
+    expect(warnSpy).toHaveBeenCalledWith('careful', { a: 1 });
+    warnSpy.mockRestore();
+  });
+
+  it('should prefer a custom logger', () => {
+    const logger = createMockLogger();
+
+    resolveLogger({ logger, enableLogging: true, logLevel: 'info' })?.info('hello');
+
+    expect(logger.info).toHaveBeenCalledWith('hello');
+  });
+});
+
+describe('consoleLogger', () => {
+  it('should write warn to console.warn and every other level to console.error', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+
+    consoleLogger.debug('d');
+    consoleLogger.info('i');
+    consoleLogger.warn('w');
+    consoleLogger.error('e', { a: 1 });
+
+    expect(warnSpy.mock.calls).toEqual([['w', {}]]);
+    expect(errorSpy.mock.calls).toEqual([
+      ['d', {}],
+      ['i', {}],
+      ['e', { a: 1 }],
+    ]);
+    warnSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Tests for the middleware pipeline
+ */
+
+import {
+  applyErrorMiddleware,
+  applyRequestMiddleware,
+  applyResponseMiddleware,
+  createLoggingMiddleware,
+  Middleware,
+  MiddlewareContext,
+} from '../src/utils/middleware';
+import { HTTPClient } from '../src/utils/http';
+import { REDACTED } from '../src/utils/logger';
+import { Transport, TransportRequest, TransportResponse } from '../src/utils/transport';
+import {
+  ZiptaxAPIError,
+  ZiptaxError,
+  ZiptaxNetworkError,
+  ZiptaxRateLimitError,
+  ZiptaxRetryError,
+} from '../src/exceptions';
+
+jest.mock('../src/version', () => ({ SDK_VERSION: '0.2.0-beta' }));
+
+const context: MiddlewareContext = { backend: 'ziptax', attempt: 1 };
+const baseRequest: TransportRequest = { method: 'GET', url: '/test' };
+
+describe('applyRequestMiddleware', () => {
+  it('should run onRequest hooks in registration order', async () => {
+    const calls: string[] = [];
+    const middleware: Middleware[] = [
+      {
+        onRequest: (request): TransportRequest => {
+          calls.push('first');
+          return { ...request, headers: { 'X-First': '1' } };
+        },
+      },
+      {
+        onRequest: (request): TransportRequest => {
+          calls.push('second');
+          return { ...request, headers: { ...request.headers, 'X-Second': '2' } };
+        },
+      },
+    ];
+
+    const result = await applyRequestMiddleware(middleware, baseRequest, context);
+
+    expect(calls).toEqual(['first', 'second']);
+    expect(result.headers).toEqual({ 'X-First': '1', 'X-Second': '2' });
+  });
+
+  it('should keep the current request when a hook returns nothing', async () => {
+    const onRequest = jest.fn();
+
+    const result = await applyRequestMiddleware([{ onRequest }], baseRequest, context);
+
+    expect(result).toBe(baseRequest);
+    expect(onRequest).toHaveBeenCalledWith(baseRequest, context);
+  });
+});
+
+describe('applyResponseMiddleware', () => {
+  it('should run onResponse hooks in reverse registration order', async () => {
+    const calls: string[] = [];
+    const middleware: Middleware[] = [
+      { onResponse: () => void calls.push('first') },
+      {
+        onResponse: async (response): Promise<TransportResponse> => {
+          calls.push('second');
+          return { ...response, data: { modified: true } };
+        },
+      },
+    ];
+
+    const result = await applyResponseMiddleware(
+      middleware,
+      { status: 200, headers: {}, data: {} },
+      context
+    );
+
+    expect(calls).toEqual(['second', 'first']);
+    expect(result.data).toEqual({ modified: true });
+  });
+});
+
+describe('applyErrorMiddleware', () => {
+  it('should allow hooks to replace the error', async () => {
+    const original = new ZiptaxAPIError('Server error', 500);
+    const replacement = new ZiptaxError('Replaced');
+
+    const result = await applyErrorMiddleware(
+      [{ onError: (): ZiptaxError => replacement }, { onError: jest.fn() }],
+      original,
+      context
+    );
+
+    expect(result).toBe(replacement);
+  });
+});
+
+describe('createLoggingMiddleware', () => {
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should log structured request, response and error entries', () => {
+    const middleware = createLoggingMiddleware(logger);
+
+    middleware.onRequest?.({ ...baseRequest, params: { format: 'json' } }, context);
+    middleware.onResponse?.({ status: 200, headers: {}, data: 'ok' }, context);
+    middleware.onError?.(new ZiptaxAPIError('Boom', 500), context);
+
+    expect(logger.debug).toHaveBeenCalledWith('ZipTax request', {
+      backend: 'ziptax',
+      attempt: 1,
+      method: 'GET',
+      url: '/test',
+      params: { format: 'json' },
+    });
+    expect(logger.debug).toHaveBeenCalledWith('ZipTax response', {
+      backend: 'ziptax',
+      attempt: 1,
+      status: 200,
+    });
+    expect(logger.error).toHaveBeenCalledWith('ZipTax request failed', {
+      backend: 'ziptax',
+      attempt: 1,
+      error: 'ZiptaxAPIError',
+      message: 'Boom',
+      statusCode: 500,
+    });
+  });
+
+  it('should not log response bodies', () => {
+    createLoggingMiddleware(logger).onResponse?.(
+      { status: 200, headers: {}, data: { secret: 'body' } },
+      context
+    );
+
+    expect(JSON.stringify(logger.debug.mock.calls)).not.toContain('secret');
+  });
+
+  it('should redact addresses in request params by default', () => {
+    createLoggingMiddleware(logger).onRequest?.(
+      { ...baseRequest, params: { address: '200 Spectrum Center Dr', format: 'json' } },
+      context
+    );
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      'ZipTax request',
+      expect.objectContaining({ params: { address: REDACTED, format: 'json' } })
+    );
+  });
+
+  it('should not redact when redaction is disabled', () => {
+    createLoggingMiddleware(logger, false).onRequest?.(
+      { ...baseRequest, params: { address: '200 Spectrum Center Dr' } },
+      context
+    );
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      'ZipTax request',
+      expect.objectContaining({ params: { address: '200 Spectrum Center Dr' } })
+    );
+  });
+});
+
+describe('HTTPClient middleware', () => {
+  const transportRequest = jest.fn();
+  const transport = (): Transport => ({ request: transportRequest });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should pass the modified request to the transport', async () => {
+    transportRequest.mockResolvedValue({ status: 200, headers: {}, data: { ok: true } });
+    const client = new HTTPClient({
+      baseURL: 'https://api.zip-tax.com',
+      apiKey: 'test-api-key',
+      transport,
+      middleware: [
+        {
+          onRequest: (request): TransportRequest => ({
+            ...request,
+            headers: { Authorization: 'Bearer x' },
+          }),
+        },
+      ],
+    });
+
+    await client.get('/test');
+
+    expect(transportRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ headers: { Authorization: 'Bearer x' } })
+    );
+  });
+
+  it('should let middleware change the returned data', async () => {
+    transportRequest.mockResolvedValue({ status: 200, headers: {}, data: { value: 1 } });
+    const client = new HTTPClient({
+      baseURL: 'https://api.zip-tax.com',
+      apiKey: 'test-api-key',
+      transport,
+    });
+    client.use({ onResponse: (response) => ({ ...response, data: { value: 2 } }) });
+
+    await expect(client.get('/test')).resolves.toEqual({ value: 2 });
+  });
+
+  it('should pass typed errors with backend and attempt to onError', async () => {
+    transportRequest.mockResolvedValue({
+      status: 429,
+      headers: { 'retry-after': '5' },
+      data: {},
+    });
+    const onError = jest.fn();
+    const client = new HTTPClient({
+      baseURL: 'https://api.v3.taxcloud.com',
+      apiKey: 'test-api-key',
+      transport,
+      name: 'taxcloud',
+      middleware: [{ onError }],
+    });
+
+    await expect(client.get('/test', { retryOptions: { maxAttempts: 1 } })).rejects.toThrow(
+      ZiptaxRateLimitError
+    );
+    expect(onError).toHaveBeenCalledWith(expect.any(ZiptaxRateLimitError), {
+      backend: 'taxcloud',
+      attempt: 1,
+    });
+  });
+
+  it('should run middleware on every retry attempt', async () => {
+    jest.useFakeTimers();
+    transportRequest
+      .mockRejectedValueOnce(new ZiptaxNetworkError('Network error'))
+      .mockResolvedValue({ status: 200, headers: {}, data: 'ok' });
+    const onRequest = jest.fn();
+    const client = new HTTPClient({
+      baseURL: 'https://api.zip-tax.com',
+      apiKey: 'test-api-key',
+      transport,
+      middleware: [{ onRequest }],
+    });
+
+    const promise = client.get('/test');
+    await jest.runAllTimersAsync();
+    await promise;
+
+    expect(onRequest).toHaveBeenCalledTimes(2);
+    expect(onRequest.mock.calls[1][1]).toEqual({ backend: 'ziptax', attempt: 2 });
+    jest.useRealTimers();
+  });
+
+  it('should pass the final ZiptaxRetryError to onError after the attempt errors', async () => {
+    transportRequest.mockRejectedValue(new ZiptaxNetworkError('Network error'));
+    const replacement = new ZiptaxError('Tax service unavailable');
+    const onError = jest.fn((error: ZiptaxError, _context: MiddlewareContext) =>
+      error instanceof ZiptaxRetryError ? replacement : undefined
+    );
+    const client = new HTTPClient({
+      baseURL: 'https://api.zip-tax.com',
+      apiKey: 'test-api-key',
+      transport,
+      middleware: [{ onError }],
+    });
+
+    await expect(
+      client.get('/test', { retryOptions: { maxAttempts: 2, initialDelay: 1 } })
+    ).rejects.toBe(replacement);
+    expect(onError.mock.calls.map(([error, hookContext]) => [error.name, hookContext])).toEqual([
+      ['ZiptaxNetworkError', { backend: 'ziptax', attempt: 1 }],
+      ['ZiptaxNetworkError', { backend: 'ziptax', attempt: 2 }],
+      ['ZiptaxRetryError', { backend: 'ziptax', attempt: 2 }],
+    ]);
+  });
+
+  it('should run the logging middleware innermost when a logger is configured', async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    transportRequest.mockResolvedValue({ status: 200, headers: {}, data: 'ok' });
+    const client = new HTTPClient({
+      baseURL: 'https://api.zip-tax.com',
+      apiKey: 'test-api-key',
+      transport,
+      logger,
+      middleware: [
+        { onRequest: (request): TransportRequest => ({ ...request, url: '/rewritten' }) },
+      ],
+    });
+
+    await client.get('/test');
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      'ZipTax request',
+      expect.objectContaining({ url: '/rewritten' })
+    );
+  });
+
+  it('should log to the console when logging is enabled', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+    transportRequest.mockResolvedValue({ status: 200, headers: {}, data: 'ok' });
+    const client = new HTTPClient({
+      baseURL: 'https://api.zip-tax.com',
+      apiKey: 'test-api-key',
+      transport,
+      enableLogging: true,
+    });
+
+    await client.get('/test');
+
+    expect(errorSpy).toHaveBeenCalledWith('ZipTax response', expect.any(Object));
+    errorSpy.mockRestore();
+  });
+});
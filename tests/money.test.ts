@@ -0,0 +1,133 @@
+/**
+ * Tests for exact money handling
+ */
+
+import { Money, refundLineAmounts, sumLineItems } from '../src/utils/money';
+import { ZiptaxValidationError } from '../src/exceptions';
+
+describe('Money', () => {
+  it('should convert API numbers and decimal strings to minor units', () => {
+    expect(Money.of(12.34).minorUnits).toBe(1234);
+    expect(Money.of('0.1').add(0.2).toString()).toBe('0.30');
+    expect(Money.of(1.3100000000000001).toNumber()).toBe(1.31);
+    expect(Money.of('-5').toString()).toBe('-5.00');
+  });
+
+  it('should round fractions of a cent with the given mode', () => {
+    expect(Money.of(1.005).toString()).toBe('1.01');
+    expect(Money.of(1.005, 'USD', 'half-even').toString()).toBe('1.00');
+    expect(Money.of(1.015, 'USD', 'half-even').toString()).toBe('1.02');
+    expect(Money.of(1.001, 'USD', 'up').toString()).toBe('1.01');
+    expect(Money.of(-1.009, 'USD', 'down').toString()).toBe('-1.00');
+  });
+
+  it('should add tax amounts without float drift', () => {
+    const amounts = [0.1, 0.2].map((amount) => Money.of(amount));
+
+    expect(0.1 + 0.2).not.toBe(0.3);
+    expect(Money.sum(amounts).toNumber()).toBe(0.3);
+    expect(Money.sum([], 'CAD')).toEqual(Money.zero('CAD'));
+  });
+
+  it('should multiply and divide with explicit rounding', () => {
+    const price = Money.of(10.75);
+
+    expect(price.multiply(1.5).toString()).toBe('16.13');
+    expect(price.multiply(1.5, 'down').toString()).toBe('16.12');
+    expect(price.multiply(0.0775).toString()).toBe('0.83');
+    expect(Money.of(10).divide(3).toString()).toBe('3.33');
+    expect(() => price.divide(0)).toThrow('divisor must not be zero');
+  });
+
+  it('should allocate without losing a cent', () => {
+    const parts = Money.of(10).allocate([1, 1, 1]);
+
+    expect(parts.map((part) => part.toString())).toEqual(['3.34', '3.33', '3.33']);
+    expect(Money.of(-0.05).allocate([3, 1]).map(String)).toEqual(['-0.04', '-0.01']);
+    expect(Money.of(1).allocate([0.5, 0, 0.25]).map(String)).toEqual(['0.67', '0.00', '0.33']);
+    expect(() => Money.of(1).allocate([0, 0])).toThrow(ZiptaxValidationError);
+  });
+
+  it('should round CAD to the nearest nickel for cash', () => {
+    expect(Money.of(1.02, 'CAD').roundForCash().toString()).toBe('1.00');
+    expect(Money.of(1.03, 'CAD').roundForCash().toString()).toBe('1.05');
+    expect(Money.of(1.08, 'CAD').roundForCash().toString()).toBe('1.10');
+    expect(Money.of(1.03, 'USD').roundForCash().toString()).toBe('1.03');
+  });
+
+  it('should reject mixed currencies and invalid input', () => {
+    expect(() => Money.of(1, 'USD').add(Money.of(1, 'CAD'))).toThrow(
+      'currency mismatch: cannot combine USD and CAD'
+    );
+    expect(() => Money.of('abc')).toThrow(ZiptaxValidationError);
+    expect(() => Money.of(NaN)).toThrow('amount must be a finite number');
+    expect(() => Money.fromMinorUnits(1.5)).toThrow(ZiptaxValidationError);
+  });
+
+  it('should compare and serialize amounts', () => {
+    const amount = Money.fromMinorUnits(-131, 'CAD');
+
+    expect(amount.compare(Money.zero('CAD'))).toBe(-1);
+    expect(amount.equals(Money.of(-1.31, 'CAD'))).toBe(true);
+    expect(amount.isNegative()).toBe(true);
+    expect(amount.negate().toString()).toBe('1.31');
+    expect(JSON.stringify({ amount })).toBe('{"amount":-1.31}');
+  });
+});
+
+describe('sumLineItems', () => {
+  it('should total cart, order or refund lines exactly', () => {
+    const totals = sumLineItems([
+      { price: 10.75, quantity: 1.5, tax: { amount: 1.25 } },
+      { price: 0.1, quantity: 3, tax: { amount: 0.02 } },
+      { price: 5, quantity: 1 },
+    ]);
+
+    expect(totals.subtotal.toString()).toBe('21.43');
+    expect(totals.tax.toString()).toBe('1.27');
+    expect(totals.total.toString()).toBe('22.70');
+  });
+});
+
+describe('sumLineItems fractional prices', () => {
+  it('should round price x quantity once per line, not the unit price', () => {
+    const totals = sumLineItems([
+      { price: 9.72333333333, quantity: 3 },
+      { price: 9.73, quantity: 1 },
+    ]);
+
+    expect(totals.subtotal.toString()).toBe('38.90');
+  });
+});
+
+describe('sumLineItems rounding', () => {
+  it('should round the subtotal once with an invoice-level policy', () => {
+    const lines = [1, 2, 3].map(() => ({ price: 0.333, quantity: 1 }));
+
+    expect(sumLineItems(lines).subtotal.toString()).toBe('0.99');
+    expect(sumLineItems(lines, 'USD', { level: 'invoice' }).subtotal.toString()).toBe('1.00');
+  });
+});
+
+describe('refundLineAmounts', () => {
+  const line = { price: 10, quantity: 3, tax: { amount: 2.33 } };
+
+  it('should pro-rate the tax of a partial refund', () => {
+    const first = refundLineAmounts(line, 1);
+    const rest = refundLineAmounts({ ...line, quantity: 2, tax: { amount: 1.55 } }, 2);
+
+    expect(first.subtotal.toString()).toBe('10.00');
+    expect(first.tax.toString()).toBe('0.78');
+    expect(first.total.toString()).toBe('10.78');
+    expect(first.tax.add(rest.tax).toString()).toBe('2.33');
+  });
+
+  it('should refund the whole tax for the whole quantity', () => {
+    expect(refundLineAmounts(line, 3).tax.toString()).toBe('2.33');
+  });
+
+  it('should reject quantities outside the line', () => {
+    expect(() => refundLineAmounts(line, 4)).toThrow(ZiptaxValidationError);
+    expect(() => refundLineAmounts(line, 0)).toThrow(ZiptaxValidationError);
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Tests for the rate change monitor
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  compareSnapshots,
+  JsonFileSnapshotStore,
+  MemorySnapshotStore,
+  RateChangeEvent,
+  RateMonitor,
+  RateMonitorClient,
+  RateSnapshot,
+  snapshotFromPostalCodeResponse,
+  snapshotFromResponse,
+} from '../src/utils/monitor';
+import { V60PostalCodeResponse, V60PostalCodeResult, V60Response } from '../src/models';
+
+function addressResponse(cityRate = 0.01, shippingTaxable: 'Y' | 'N' = 'N'): V60Response {
+  return {
+    metadata: {
+      version: 'v60',
+      response: { code: 100, name: 'RESPONSE_CODE_SUCCESS', message: '', definition: '' },
+    },
+    baseRates: [
+      { rate: 0.06, jurType: 'US_STATE_SALES_TAX', jurName: 'CA' },
+      { rate: cityRate, jurType: 'US_CITY_SALES_TAX', jurName: 'IRVINE' },
+    ],
+    service: { adjustmentType: 'SERVICE_TAXABLE', taxable: 'N', description: '' },
+    shipping: { adjustmentType: 'FREIGHT_TAXABLE', taxable: shippingTaxable, description: '' },
+    sourcingRules: { adjustmentType: 'ORIGIN_DESTINATION', description: '', value: 'D' },
+    addressDetail: { normalizedAddress: '', incorporated: 'true', geoLat: 0, geoLng: 0 },
+  };
+}
+
+function postalCodeResult(overrides: Partial<V60PostalCodeResult> = {}): V60PostalCodeResult {
+  return {
+    geoPostalCode: '92694',
+    geoCity: 'LADERA RANCH',
+    geoCounty: 'ORANGE',
+    geoState: 'CA',
+    taxSales: 0.0775,
+    taxUse: 0.0775,
+    txbService: 'N',
+    txbFreight: 'N',
+    stateSalesTax: 0.06,
+    stateUseTax: 0.06,
+    citySalesTax: 0,
+    cityUseTax: 0,
+    cityTaxCode: '',
+    countySalesTax: 0.0025,
+    countyUseTax: 0.0025,
+    countyTaxCode: '',
+    districtSalesTax: 0.015,
+    districtUseTax: 0.015,
+    district1Code: '37',
+    district1SalesTax: 0.005,
+    district1UseTax: 0.005,
+    district2Code: '30',
+    district2SalesTax: 0.01,
+    district2UseTax: 0.01,
+    district3Code: '',
+    district3SalesTax: 0,
+    district3UseTax: 0,
+    district4Code: '',
+    district4SalesTax: 0,
+    district4UseTax: 0,
+    district5Code: '',
+    district5SalesTax: 0,
+    district5UseTax: 0,
+    originDestination: 'D',
+    ...overrides,
+  };
+}
+
+function postalCodeResponse(results: V60PostalCodeResult[]): V60PostalCodeResponse {
+  return {
+    version: 'v60',
+    rCode: 100,
+    results,
+    addressDetail: { normalizedAddress: '', incorporated: '', geoLat: 0, geoLng: 0 },
+  };
+}
+
+function snapshot(overrides: Partial<RateSnapshot> = {}): RateSnapshot {
+  return {
+    checkedAt: '2026-01-01T00:00:00.000Z',
+    rates: { 'US_STATE_SALES_TAX|CA': 0.06 },
+    serviceTaxable: 'N',
+    shippingTaxable: 'N',
+    sourcing: 'D',
+    ...overrides,
+  };
+}
+
+function mockClient(): jest.Mocked<RateMonitorClient> {
+  return {
+    getSalesTaxByAddress: jest.fn().mockResolvedValue(addressResponse()),
+    getRatesByPostalCode: jest.fn().mockResolvedValue(postalCodeResponse([postalCodeResult()])),
+  };
+}
+
+describe('snapshots', () => {
+  it('should build a snapshot from an address response', () => {
+    const result = snapshotFromResponse(addressResponse(), new Date('2026-01-01T00:00:00Z'));
+
+    expect(result).toEqual({
+      checkedAt: '2026-01-01T00:00:00.000Z',
+      rates: { 'US_STATE_SALES_TAX|CA': 0.06, 'US_CITY_SALES_TAX|IRVINE': 0.01 },
+      serviceTaxable: 'N',
+      shippingTaxable: 'N',
+      sourcing: 'D',
+    });
+  });
+
+  it('should build a snapshot from a postal code response', () => {
+    const response = postalCodeResponse([
+      postalCodeResult(),
+      postalCodeResult({ geoCity: 'MISSION VIEJO', citySalesTax: 0.001 }),
+    ]);
+
+    const result = snapshotFromPostalCodeResponse(response);
+
+    expect(result.rates).toEqual({
+      'STATE|CA': 0.06,
+      'COUNTY|ORANGE': 0.0025,
+      'CITY|LADERA RANCH': 0,
+      'CITY|MISSION VIEJO': 0.001,
+      'DISTRICT|37': 0.005,
+      'DISTRICT|30': 0.01,
+    });
+    expect(result.shippingTaxable).toBe('N');
+    expect(result.sourcing).toBe('D');
+  });
+
+  it('should list rate, taxability and sourcing changes', () => {
+    const previous = snapshot({ rates: { 'US_STATE_SALES_TAX|CA': 0.06, 'OLD|X': 0.01 } });
+    const current = snapshot({
+      rates: { 'US_STATE_SALES_TAX|CA': 0.0625, 'NEW|Y': 0.02 },
+      shippingTaxable: 'Y',
+      sourcing: 'O',
+    });
+
+    expect(compareSnapshots(previous, current)).toEqual([
+      { type: 'rate', jurisdiction: 'US_STATE_SALES_TAX|CA', before: 0.06, after: 0.0625 },
+      { type: 'rate', jurisdiction: 'OLD|X', before: 0.01, after: undefined },
+      { type: 'rate', jurisdiction: 'NEW|Y', before: undefined, after: 0.02 },
+      { type: 'taxability', field: 'shipping', before: 'N', after: 'Y' },
+      { type: 'sourcing', before: 'D', after: 'O' },
+    ]);
+    expect(compareSnapshots(previous, { ...previous, checkedAt: 'later' })).toEqual([]);
+  });
+});
+
+describe('RateMonitor', () => {
+  it('should store a baseline on the first check without emitting events', async () => {
+    const client = mockClient();
+    const onChange = jest.fn();
+    const store = new MemorySnapshotStore();
+    const monitor = new RateMonitor(client, {
+      locations: [{ id: 'hq', address: '200 Spectrum Center Drive' }, { postalcode: '92694' }],
+      store,
+      onChange,
+    });
+
+    const summary = await monitor.check();
+
+    expect(summary).toEqual({ checked: 2, changes: [], errors: [] });
+    expect(onChange).not.toHaveBeenCalled();
+    expect(store.get('hq')?.rates['US_CITY_SALES_TAX|IRVINE']).toBe(0.01);
+    expect(client.getSalesTaxByAddress).toHaveBeenCalledWith(
+      { address: '200 Spectrum Center Drive', taxabilityCode: undefined, countryCode: undefined },
+      { cache: 'refresh' }
+    );
+    expect(client.getRatesByPostalCode).toHaveBeenCalledWith(
+      { postalcode: '92694' },
+      { cache: 'refresh' }
+    );
+  });
+
+  it('should run every listener and resolve when a listener throws', async () => {
+    const client = mockClient();
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const monitor = new RateMonitor(client, { locations: [{ id: 'hq', address: 'a' }], logger });
+    const events: RateChangeEvent[] = [];
+    monitor.onChange(() => {
+      throw new Error('listener failed');
+    });
+    monitor.onChange((event) => events.push(event));
+    monitor.onError(() => {
+      throw new Error('error listener failed');
+    });
+    await monitor.check();
+
+    client.getSalesTaxByAddress.mockResolvedValue(addressResponse(0.015, 'Y'));
+    const summary = await monitor.check();
+
+    expect(events).toHaveLength(1);
+    expect(summary.errors).toHaveLength(1);
+    expect(summary.errors[0].id).toBe('hq');
+    expect(summary.errors[0].error.message).toBe('listener failed');
+    expect(logger.error).toHaveBeenCalledWith('Rate monitor error listener threw', {
+      id: 'hq',
+      error: 'error listener failed',
+    });
+  });
+
+  it('should emit a change event when rates differ from the stored snapshot', async () => {
+    const client = mockClient();
+    const monitor = new RateMonitor(client, { locations: [{ id: 'hq', address: 'a' }] });
+    const events: RateChangeEvent[] = [];
+    monitor.onChange((event) => events.push(event));
+    await monitor.check();
+
+    client.getSalesTaxByAddress.mockResolvedValue(addressResponse(0.015, 'Y'));
+    const summary = await monitor.check();
+
+    expect(events).toEqual(summary.changes);
+    expect(events).toHaveLength(1);
+    expect(events[0].id).toBe('hq');
+    expect(events[0].changes).toEqual([
+      { type: 'rate', jurisdiction: 'US_CITY_SALES_TAX|IRVINE', before: 0.01, after: 0.015 },
+      { type: 'taxability', field: 'shipping', before: 'N', after: 'Y' },
+    ]);
+
+    // The new snapshot becomes the baseline
+    expect((await monitor.check()).changes).toEqual([]);
+  });
+
+  it('should report lookup failures per location without rejecting', async () => {
+    const client = mockClient();
+    client.getRatesByPostalCode.mockRejectedValue(new Error('Server error'));
+    const onError = jest.fn();
+    const monitor = new RateMonitor(client, {
+      locations: [{ address: 'a' }, { postalcode: '92694' }],
+      onError,
+    });
+
+    const summary = await monitor.check();
+
+    expect(summary.checked).toBe(2);
+    expect(summary.errors).toHaveLength(1);
+    expect(summary.errors[0].error.message).toBe('Server error');
+    expect(onError).toHaveBeenCalledWith(summary.errors[0]);
+  });
+
+  it('should derive stable ids and support unwatch', () => {
+    const monitor = new RateMonitor(mockClient());
+
+    const id = monitor.watch({ address: '  200 Spectrum Center Drive ' });
+
+    expect(monitor.watch({ address: '200 spectrum center drive' })).toBe(id);
+    expect(monitor.watched).toEqual([id]);
+    expect(monitor.unwatch(id)).toBe(true);
+    expect(monitor.watched).toEqual([]);
+  });
+
+  it('should check on a schedule until stopped', async () => {
+    jest.useFakeTimers();
+    try {
+      const client = mockClient();
+      const monitor = new RateMonitor(client, { locations: [{ address: 'a' }], interval: 1000 });
+
+      monitor.start();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(client.getSalesTaxByAddress).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(client.getSalesTaxByAddress).toHaveBeenCalledTimes(2);
+
+      monitor.stop();
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(client.getSalesTaxByAddress).toHaveBeenCalledTimes(2);
+      expect(monitor.started).toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('JsonFileSnapshotStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ziptax-snapshots-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should treat a missing file as empty', async () => {
+    const store = new JsonFileSnapshotStore(path.join(directory, 'missing.json'));
+
+    expect(await store.get('hq')).toBeUndefined();
+  });
+
+  it('should persist snapshots across store instances', async () => {
+    const file = path.join(directory, 'snapshots.json');
+    const store = new JsonFileSnapshotStore(file);
+
+    await Promise.all([store.set('hq', snapshot()), store.set('warehouse', snapshot())]);
+    await store.delete('warehouse');
+
+    const reopened = new JsonFileSnapshotStore(file);
+    expect(await reopened.get('hq')).toEqual(snapshot());
+    expect(await reopened.get('warehouse')).toBeUndefined();
+    expect(await fs.readdir(directory)).toEqual(['snapshots.json']);
+  });
+
+  it('should read a corrupt file again on the next call', async () => {
+    const file = path.join(directory, 'snapshots.json');
+    await fs.writeFile(file, '{"hq": {');
+    const store = new JsonFileSnapshotStore(file);
+
+    await expect(store.get('hq')).rejects.toThrow(SyntaxError);
+
+    await fs.writeFile(file, JSON.stringify({ hq: snapshot() }));
+    expect(await store.get('hq')).toEqual(snapshot());
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for the client-side rate and concurrency limiter
+ */
+
+import { RateLimiter } from '../src/utils/rate-limiter';
+import { HTTPClient } from '../src/utils/http';
+import { Transport, TransportResponse } from '../src/utils/transport';
+import { ZiptaxAbortError, ZiptaxConfigurationError, ZiptaxQueueError } from '../src/exceptions';
+
+jest.mock('../src/version', () => ({ SDK_VERSION: '0.2.0-beta' }));
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should allow requests immediately when no limits are set', async () => {
+    const limiter = new RateLimiter('ziptax');
+
+    const releases = await Promise.all([limiter.acquire(), limiter.acquire()]);
+
+    expect(releases).toHaveLength(2);
+    expect(limiter.inFlight).toBe(2);
+  });
+
+  it('should queue requests beyond maxConcurrent until a slot is released', async () => {
+    const limiter = new RateLimiter('ziptax', { maxConcurrent: 1 });
+    const release = await limiter.acquire();
+    const started = jest.fn();
+
+    const second = limiter.acquire().then(started);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).not.toHaveBeenCalled();
+    expect(limiter.pending).toBe(1);
+
+    release();
+    await second;
+    expect(started).toHaveBeenCalled();
+    expect(limiter.inFlight).toBe(1);
+  });
+
+  it('should ignore repeated releases of the same slot', async () => {
+    const limiter = new RateLimiter('ziptax', { maxConcurrent: 2 });
+    const release = await limiter.acquire();
+    await limiter.acquire();
+
+    release();
+    release();
+
+    expect(limiter.inFlight).toBe(1);
+  });
+
+  it('should allow a burst and then pace requests at requestsPerSecond', async () => {
+    const limiter = new RateLimiter('ziptax', { requestsPerSecond: 2, burst: 2 });
+    const started: number[] = [];
+    const start = Date.now();
+
+    const calls = [1, 2, 3, 4].map((n) =>
+      limiter.acquire().then((release) => {
+        started.push(n);
+        release();
+        return Date.now() - start;
+      })
+    );
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([1, 2]);
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(await Promise.all(calls)).toEqual([0, 0, 500, 1000]);
+  });
+
+  it('should reject with ZiptaxQueueError when the queue is full', async () => {
+    const limiter = new RateLimiter('taxcloud', { maxConcurrent: 1, maxQueueSize: 1 });
+    await limiter.acquire();
+    void limiter.acquire();
+
+    const error = (await limiter.acquire().catch((e) => e)) as ZiptaxQueueError;
+
+    expect(error).toBeInstanceOf(ZiptaxQueueError);
+    expect(error.reason).toBe('queue-full');
+    expect(error.backend).toBe('taxcloud');
+  });
+
+  it('should reject a requestsPerSecond that is not a positive number', () => {
+    for (const requestsPerSecond of [0, -1, NaN, Infinity]) {
+      expect(() => new RateLimiter('ziptax', { requestsPerSecond })).toThrow(
+        ZiptaxConfigurationError
+      );
+    }
+  });
+
+  it('should reject a maxConcurrent or maxQueueSize that is not a positive integer', () => {
+    for (const value of [0, -1, 1.5, NaN, Infinity]) {
+      expect(() => new RateLimiter('ziptax', { maxConcurrent: value })).toThrow(
+        'rateLimit.maxConcurrent for ziptax must be a positive integer'
+      );
+      expect(() => new RateLimiter('ziptax', { maxQueueSize: value })).toThrow(
+        'rateLimit.maxQueueSize for ziptax must be a positive integer'
+      );
+    }
+  });
+
+  it('should reject a queueTimeout that is not a positive number', () => {
+    for (const queueTimeout of [0, -1, NaN, Infinity]) {
+      expect(() => new RateLimiter('ziptax', { queueTimeout })).toThrow(ZiptaxConfigurationError);
+    }
+  });
+
+  it('should reject with ZiptaxQueueError after the queue timeout', async () => {
+    const limiter = new RateLimiter('ziptax', { maxConcurrent: 1, queueTimeout: 500 });
+    await limiter.acquire();
+
+    const rejection = limiter.acquire().catch((e) => e);
+    await jest.advanceTimersByTimeAsync(500);
+    const error = (await rejection) as ZiptaxQueueError;
+
+    expect(error).toBeInstanceOf(ZiptaxQueueError);
+    expect(error.reason).toBe('queue-timeout');
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('should remove a queued call when its signal aborts', async () => {
+    const limiter = new RateLimiter('ziptax', { maxConcurrent: 1 });
+    await limiter.acquire();
+    const controller = new AbortController();
+
+    const rejection = limiter.acquire(controller.signal).catch((e) => e);
+    controller.abort();
+
+    expect(await rejection).toBeInstanceOf(ZiptaxAbortError);
+    expect(limiter.pending).toBe(0);
+  });
+});
+
+describe('HTTPClient rate limiting', () => {
+  it('should limit the number of requests in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const transport = (): Transport => ({
+      request: async <T>(): Promise<TransportResponse<T>> => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return { status: 200, headers: {}, data: 'ok' as T };
+      },
+    });
+    const client = new HTTPClient({
+      baseURL: 'https://api.zip-tax.com',
+      apiKey: 'test-api-key',
+      transport,
+      rateLimit: { maxConcurrent: 2 },
+    });
+
+    await Promise.all([1, 2, 3, 4, 5].map(() => client.get('/test')));
+
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should release the slot when a request fails', async () => {
+    const transportRequest = jest
+      .fn()
+      .mockResolvedValueOnce({ status: 400, headers: {}, data: {} })
+      .mockResolvedValue({ status: 200, headers: {}, data: 'ok' });
+    const client = new HTTPClient({
+      baseURL: 'https://api.zip-tax.com',
+      apiKey: 'test-api-key',
+      transport: (): Transport => ({ request: transportRequest }),
+      rateLimit: { maxConcurrent: 1, queueTimeout: 100 },
+    });
+
+    await expect(client.get('/test')).rejects.toThrow();
+    await expect(client.get('/test')).resolves.toBe('ok');
+  });
+});
@@ -2,8 +2,14 @@
  * Tests for retry logic
  */
 
-import { retryWithBackoff } from '../src/utils/retry';
-import { ZiptaxNetworkError, ZiptaxAPIError } from '../src/exceptions';
+import { retryWithBackoff, RetryBudget } from '../src/utils/retry';
+import {
+  ZiptaxNetworkError,
+  ZiptaxAPIError,
+  ZiptaxAbortError,
+  ZiptaxRateLimitError,
+  ZiptaxRetryError,
+} from '../src/exceptions';
 
 describe('retryWithBackoff', () => {
   beforeEach(() => {
@@ -78,12 +84,37 @@ describe('retryWithBackoff', () => {
     // Run timers and wait for rejection
     const rejection = promise.catch((e) => e);
     await jest.runAllTimersAsync();
-    const result = await rejection;
+    const result = (await rejection) as ZiptaxRetryError;
 
-    expect(result).toEqual(error);
+    expect(result).toBeInstanceOf(ZiptaxRetryError);
+    expect(result.attempts).toBe(2);
+    expect(result.lastError).toBe(error);
     expect(fn).toHaveBeenCalledTimes(2);
   });
 
+  it('should record every failed attempt in the ZiptaxRetryError history', async () => {
+    const first = new ZiptaxNetworkError('Error 1');
+    const second = new ZiptaxAPIError('Error 2', 503);
+    const fn = jest.fn().mockRejectedValueOnce(first).mockRejectedValueOnce(second);
+
+    const rejection = retryWithBackoff(fn, { maxAttempts: 2, initialDelay: 500 }).catch((e) => e);
+    await jest.runAllTimersAsync();
+    const result = (await rejection) as ZiptaxRetryError;
+
+    expect(result.message).toBe('Maximum retry attempts (2) exceeded: Error 2');
+    expect(result.history).toEqual([
+      { attempt: 1, error: first, delay: 500 },
+      { attempt: 2, error: second },
+    ]);
+  });
+
+  it('should rethrow the bare error when retries are disabled', async () => {
+    const error = new ZiptaxNetworkError('Network error');
+    const fn = jest.fn().mockRejectedValue(error);
+
+    await expect(retryWithBackoff(fn, { maxAttempts: 1 })).rejects.toBe(error);
+  });
+
   it('should use exponential backoff', async () => {
     const fn = jest
       .fn()
@@ -142,4 +173,180 @@ describe('retryWithBackoff', () => {
     expect(fn).toHaveBeenCalledTimes(1);
     expect(shouldRetry).toHaveBeenCalledWith(error, 1);
   });
+
+  it('should throw ZiptaxAbortError without calling fn when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fn = jest.fn().mockResolvedValue('success');
+
+    await expect(retryWithBackoff(fn, {}, controller.signal)).rejects.toThrow(ZiptaxAbortError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should cancel a pending backoff sleep when aborted', async () => {
+    const controller = new AbortController();
+    const fn = jest.fn().mockRejectedValue(new ZiptaxNetworkError('Network error'));
+
+    const promise = retryWithBackoff(
+      fn,
+      { maxAttempts: 3, initialDelay: 60000 },
+      controller.signal
+    );
+    const rejection = promise.catch((e) => e);
+    await jest.advanceTimersByTimeAsync(0);
+    controller.abort();
+    const result = await rejection;
+
+    expect(result).toBeInstanceOf(ZiptaxAbortError);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should not retry once the signal has aborted', async () => {
+    const controller = new AbortController();
+    const error = new ZiptaxNetworkError('Network error');
+    const fn = jest.fn().mockImplementation(async () => {
+      controller.abort();
+      throw error;
+    });
+
+    const rejection = retryWithBackoff(fn, { maxAttempts: 3 }, controller.signal).catch((e) => e);
+    await jest.runAllTimersAsync();
+
+    expect(await rejection).toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  describe('Retry-After', () => {
+    it('should retry rate-limited requests after the Retry-After delay', async () => {
+      const fn = jest
+        .fn()
+        .mockRejectedValueOnce(new ZiptaxRateLimitError('Slow down', 20))
+        .mockResolvedValue('success');
+
+      const promise = retryWithBackoff(fn, { maxAttempts: 3 });
+      await jest.advanceTimersByTimeAsync(19999);
+      expect(fn).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+
+      await expect(promise).resolves.toBe('success');
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back to backoff when Retry-After is missing or ignored', async () => {
+      const fn = jest
+        .fn()
+        .mockRejectedValueOnce(new ZiptaxRateLimitError('Slow down', 20))
+        .mockResolvedValue('success');
+
+      const promise = retryWithBackoff(fn, { respectRetryAfter: false, initialDelay: 100 });
+      await jest.advanceTimersByTimeAsync(100);
+
+      await expect(promise).resolves.toBe('success');
+    });
+
+    it('should give up when Retry-After exceeds maxRetryAfter', async () => {
+      const error = new ZiptaxRateLimitError('Slow down', 120);
+      const fn = jest.fn().mockRejectedValue(error);
+
+      const result = (await retryWithBackoff(fn, { maxRetryAfter: 60000 }).catch(
+        (e) => e
+      )) as ZiptaxRetryError;
+
+      expect(result).toBeInstanceOf(ZiptaxRetryError);
+      expect(result.message).toContain('exceeds maxRetryAfter');
+      expect(result.lastError).toBe(error);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('jitter', () => {
+    let randomSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      randomSpy = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    });
+
+    afterEach(() => {
+      randomSpy.mockRestore();
+    });
+
+    const delaysFor = async (
+      options: Parameters<typeof retryWithBackoff>[1]
+    ): Promise<number[]> => {
+      const fn = jest.fn().mockRejectedValue(new ZiptaxNetworkError('Network error'));
+      const rejection = retryWithBackoff(fn, {
+        maxAttempts: 4,
+        initialDelay: 1000,
+        ...options,
+      }).catch((e) => e);
+      await jest.runAllTimersAsync();
+      const error = (await rejection) as ZiptaxRetryError;
+      return error.history.slice(0, -1).map((entry) => entry.delay as number);
+    };
+
+    it('should not add jitter by default', async () => {
+      expect(await delaysFor({})).toEqual([1000, 2000, 4000]);
+    });
+
+    it('should apply full jitter', async () => {
+      expect(await delaysFor({ jitter: 'full' })).toEqual([500, 1000, 2000]);
+    });
+
+    it('should apply equal jitter', async () => {
+      expect(await delaysFor({ jitter: 'equal' })).toEqual([750, 1500, 3000]);
+    });
+
+    it('should apply decorrelated jitter capped at maxDelay', async () => {
+      expect(await delaysFor({ jitter: 'decorrelated', maxDelay: 4000 })).toEqual([
+        2000, 3500, 4000,
+      ]);
+    });
+  });
+
+  describe('retry budget', () => {
+    it('should give up when the budget is exhausted', async () => {
+      const budget = new RetryBudget({ minRetries: 1, ratio: 0 });
+      const fn = jest.fn().mockRejectedValue(new ZiptaxNetworkError('Network error'));
+
+      const rejection = retryWithBackoff(fn, { maxAttempts: 5, budget }).catch((e) => e);
+      await jest.runAllTimersAsync();
+      const result = (await rejection) as ZiptaxRetryError;
+
+      expect(result).toBeInstanceOf(ZiptaxRetryError);
+      expect(result.message).toBe('Retry budget exhausted: Network error');
+      expect(result.attempts).toBe(2);
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+  });
+});
+
+describe('RetryBudget', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should allow minRetries plus a ratio of recent requests', () => {
+    const budget = new RetryBudget({ minRetries: 1, ratio: 0.5 });
+    budget.recordRequest();
+    budget.recordRequest();
+
+    expect(budget.available()).toBe(2);
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(false);
+  });
+
+  it('should release retries once they leave the window', () => {
+    const budget = new RetryBudget({ minRetries: 1, ratio: 0, windowMs: 1000 });
+
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(false);
+    jest.advanceTimersByTime(1001);
+    expect(budget.tryAcquire()).toBe(true);
+  });
 });
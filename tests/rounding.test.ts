@@ -0,0 +1,38 @@
+/**
+ * Tests for rounding helpers
+ */
+
+import { resolveRoundingPolicy, roundAmount } from '../src/utils/rounding';
+
+describe('roundAmount', () => {
+  it('should round halves according to the mode', () => {
+    expect(roundAmount(0.775)).toBe(0.78);
+    expect(roundAmount(1.005)).toBe(1.01);
+    expect(roundAmount(1.005, 2, 'half-even')).toBe(1);
+    expect(roundAmount(1.015, 2, 'half-even')).toBe(1.02);
+    expect(roundAmount(1.001, 2, 'up')).toBe(1.01);
+    expect(roundAmount(1.009, 2, 'down')).toBe(1);
+  });
+
+  it('should round negative amounts symmetrically', () => {
+    expect(roundAmount(-0.775)).toBe(-0.78);
+    expect(roundAmount(-1.009, 2, 'down')).toBe(-1);
+    expect(Object.is(roundAmount(-0.001), 0)).toBe(true);
+  });
+
+  it('should support other precisions', () => {
+    expect(roundAmount(1.2345, 3)).toBe(1.235);
+    expect(roundAmount(12.5, 0, 'half-even')).toBe(12);
+  });
+});
+
+describe('resolveRoundingPolicy', () => {
+  it('should default to half-up line-level rounding', () => {
+    expect(resolveRoundingPolicy()).toEqual({ level: 'line', mode: 'half-up' });
+    expect(resolveRoundingPolicy('half-even')).toEqual({ level: 'line', mode: 'half-even' });
+    expect(resolveRoundingPolicy({ level: 'invoice' })).toEqual({
+      level: 'invoice',
+      mode: 'half-up',
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for cart shadow comparison
+ */
+
+import { NormalizedCartLineItem, NormalizedCartResponse } from '../src/utils/cart';
+import { compareCartResults } from '../src/utils/shadow';
+
+function result(
+  backend: 'ziptax' | 'taxcloud',
+  lines: Array<[string, number, number]>
+): NormalizedCartResponse {
+  const lineItems = lines.map(
+    ([itemId, rate, amount], index): NormalizedCartLineItem => ({
+      index,
+      itemId,
+      price: 10,
+      quantity: 1,
+      tic: null,
+      tax: { rate, amount },
+    })
+  );
+  const address = { raw: '200 Spectrum Center Dr, Irvine, CA 92618' };
+  return {
+    backend,
+    items: [
+      {
+        cartId: `${backend}-cart`,
+        customerId: 'customer-453',
+        currency: 'USD',
+        origin: address,
+        destination: address,
+        lineItems,
+        discounts: [],
+      },
+    ],
+    transactionDate: '2026-01-01T00:00:00Z',
+    raw: { items: [] },
+  };
+}
+
+describe('compareCartResults', () => {
+  it('should report lines whose rate differs', () => {
+    const comparison = compareCartResults(
+      result('ziptax', [
+        ['item-1', 0.0775, 0.78],
+        ['item-2', 0.0775, 0.78],
+      ]),
+      result('taxcloud', [
+        ['item-1', 0.0775, 0.78],
+        ['item-2', 0.0725, 0.73],
+      ])
+    );
+
+    expect(comparison).toEqual({
+      differences: [
+        {
+          cartIndex: 0,
+          index: 1,
+          itemId: 'item-2',
+          primary: { rate: 0.0775, amount: 0.78 },
+          shadow: { rate: 0.0725, amount: 0.73 },
+          rateDelta: -0.005,
+          amountDelta: -0.05,
+        },
+      ],
+      unmatchedItemIds: [],
+    });
+  });
+
+  it('should ignore differences within the tolerances', () => {
+    const primary = result('ziptax', [['item-1', 0.09025, 1.45528]]);
+    const shadow = result('taxcloud', [['item-1', 0.0903, 1.46]]);
+
+    expect(compareCartResults(primary, shadow).differences).toHaveLength(1);
+    expect(compareCartResults(primary, shadow, { rateTolerance: 0.0001 }).differences).toHaveLength(
+      0
+    );
+    expect(
+      compareCartResults(primary, shadow, { rateTolerance: 0.0001, amountTolerance: 0.001 })
+        .differences
+    ).toHaveLength(1);
+  });
+
+  it('should match lines by itemId and report unmatched lines', () => {
+    const comparison = compareCartResults(
+      result('ziptax', [
+        ['item-1', 0.0775, 0.78],
+        ['item-2', 0.0775, 0.78],
+      ]),
+      result('taxcloud', [
+        ['item-3', 0.0775, 0.78],
+        ['item-1', 0.0775, 0.78],
+      ])
+    );
+
+    expect(comparison.differences).toEqual([]);
+    expect(comparison.unmatchedItemIds).toEqual(['item-2', 'item-3']);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for streaming lookup helpers
+ */
+
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { LookupResult } from '../src/config';
+import { V60Response } from '../src/models';
+import { createConcurrentTransform, createLookupStream } from '../src/node';
+import { LookupMethods, mapConcurrentUnordered } from '../src/utils/stream';
+
+const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('mapConcurrentUnordered', () => {
+  it('should yield results in completion order', async () => {
+    const results = await collect(
+      mapConcurrentUnordered([30, 5, 15], 3, async (ms, index) => {
+        await delay(ms);
+        return index;
+      })
+    );
+
+    expect(results).toEqual([1, 2, 0]);
+  });
+
+  it('should pull from an async source only when a slot is free', async () => {
+    let pulled = 0;
+    let maxInFlight = 0;
+    let inFlight = 0;
+    async function* source(): AsyncGenerator<number> {
+      for (let i = 0; i < 10; i++) {
+        pulled++;
+        yield i;
+      }
+    }
+
+    const results = await collect(
+      mapConcurrentUnordered(source(), 2, async (item) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        expect(pulled - item).toBeLessThanOrEqual(2);
+        await delay(1);
+        inFlight--;
+        return item;
+      })
+    );
+
+    expect(results.sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should stop the source when the consumer breaks early', async () => {
+    let closed = false;
+    async function* source(): AsyncGenerator<number> {
+      try {
+        for (let i = 0; ; i++) {
+          yield i;
+        }
+      } finally {
+        closed = true;
+      }
+    }
+
+    for await (const result of mapConcurrentUnordered(source(), 2, async (item) => item)) {
+      if (result >= 3) {
+        break;
+      }
+    }
+
+    expect(closed).toBe(true);
+  });
+});
+
+describe('createConcurrentTransform', () => {
+  it('should transform every chunk with bounded concurrency', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const output: number[] = [];
+
+    await pipeline(
+      Readable.from([1, 2, 3, 4, 5, 6]),
+      createConcurrentTransform(2, async (item: number) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delay(2);
+        inFlight--;
+        return item * 10;
+      }),
+      new Writable({
+        objectMode: true,
+        write(chunk: number, _encoding, callback): void {
+          output.push(chunk);
+          callback();
+        },
+      })
+    );
+
+    expect(output.sort((a, b) => a - b)).toEqual([10, 20, 30, 40, 50, 60]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should destroy the stream when the function rejects', async () => {
+    const transform = createConcurrentTransform(2, async () => {
+      throw new Error('boom');
+    });
+
+    await expect(
+      pipeline(Readable.from([1]), transform, new Writable({ objectMode: true, write: jest.fn() }))
+    ).rejects.toThrow('boom');
+  });
+});
+
+describe('createLookupStream', () => {
+  it('should emit a result for each input written', async () => {
+    const client: LookupMethods = {
+      getSalesTaxByAddress: jest.fn().mockResolvedValue({} as V60Response),
+      getSalesTaxByGeoLocation: jest.fn().mockResolvedValue({} as V60Response),
+      getRatesByPostalCode: jest.fn().mockRejectedValue(new Error('boom')),
+    };
+    const stream = createLookupStream(client, { concurrency: 2 });
+
+    stream.write({ address: 'a' });
+    stream.write({ lat: '33.65253', lng: '-117.74794' });
+    stream.write({ postalcode: '92618' });
+    stream.end();
+
+    const results = (await collect<LookupResult>(stream)).sort((a, b) => a.index - b.index);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected']);
+    expect(client.getSalesTaxByAddress).toHaveBeenCalledWith({ address: 'a' }, {});
+    expect(client.getRatesByPostalCode).toHaveBeenCalledWith({ postalcode: '92618' }, {});
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for cart summaries
+ */
+
+import { summarizeCart } from '../src/utils/summary';
+import {
+  CalculateCartRequest,
+  CalculateCartResponse,
+  TaxCloudCalculateCartResponse,
+} from '../src/models';
+
+const request: CalculateCartRequest = {
+  items: [
+    {
+      customerId: 'customer-453',
+      currency: { currencyCode: 'USD' },
+      destination: { address: '200 Spectrum Center Drive, Irvine, CA 92618' },
+      origin: { address: '323 Washington Ave N, Minneapolis, MN 55401' },
+      lineItems: [
+        { itemId: 'item-1', price: 10.75, quantity: 1.5, taxabilityCode: 31000 },
+        { itemId: 'item-2', price: 0.1, quantity: 3, taxabilityCode: 31000 },
+        { itemId: 'item-3', price: 20, quantity: 1 },
+      ],
+    },
+  ],
+};
+
+const zipTaxResponse: CalculateCartResponse = {
+  items: [
+    {
+      cartId: 'cart-1',
+      customerId: 'customer-453',
+      destination: request.items[0].destination,
+      origin: request.items[0].origin,
+      lineItems: [
+        { itemId: 'item-1', price: 10.75, quantity: 1.5, tax: { rate: 0.0775, amount: 1.25 } },
+        { itemId: 'item-2', price: 0.1, quantity: 3, tax: { rate: 0.0775, amount: 0.02 } },
+        { itemId: 'item-3', price: 20, quantity: 1, tax: { rate: 0, amount: 0 } },
+      ],
+    },
+  ],
+};
+
+const taxCloudResponse = {
+  connectionId: 'connection-1',
+  transactionDate: '2026-01-01T00:00:00Z',
+  items: [
+    {
+      cartId: 'cart-1',
+      customerId: 'customer-453',
+      currency: { currencyCode: 'CAD' },
+      lineItems: zipTaxResponse.items[0].lineItems.map((line, index) => ({
+        ...line,
+        index,
+        tic: index < 2 ? 31000 : 0,
+      })),
+    },
+  ],
+} as unknown as TaxCloudCalculateCartResponse;
+
+describe('summarizeCart', () => {
+  it('should total a ZipTax response exactly', () => {
+    const summary = summarizeCart(zipTaxResponse, { request });
+
+    expect(summary.currency).toBe('USD');
+    expect(summary.lineCount).toBe(3);
+    expect(summary.subtotal.toString()).toBe('36.43');
+    expect(summary.tax.toString()).toBe('1.27');
+    expect(summary.total.toString()).toBe('37.70');
+    expect(summary.effectiveRate).toBeCloseTo(127 / 3643);
+  });
+
+  it('should group lines by TIC and by rate', () => {
+    const summary = summarizeCart(zipTaxResponse, { request });
+
+    expect(summary.byTic.map((group) => [group.tic, group.itemIds, group.tax.toNumber()])).toEqual([
+      [31000, ['item-1', 'item-2'], 1.27],
+      [null, ['item-3'], 0],
+    ]);
+    expect(
+      summary.byRate.map((group) => [group.rate, group.itemIds, group.subtotal.toNumber()])
+    ).toEqual([
+      [0.0775, ['item-1', 'item-2'], 16.43],
+      [0, ['item-3'], 20],
+    ]);
+  });
+
+  it('should report unknown TICs for a ZipTax response without the request', () => {
+    expect(summarizeCart(zipTaxResponse).byTic.map((group) => group.tic)).toEqual([null]);
+  });
+
+  it('should summarize a TaxCloud response the same way', () => {
+    const summary = summarizeCart(taxCloudResponse);
+    const zipTaxSummary = summarizeCart(zipTaxResponse, { request });
+
+    expect(summary.currency).toBe('CAD');
+    expect(summary.total.toNumber()).toBe(zipTaxSummary.total.toNumber());
+    expect(summary.byTic.map((group) => [group.tic, group.itemIds])).toEqual([
+      [31000, ['item-1', 'item-2']],
+      [0, ['item-3']],
+    ]);
+  });
+
+  it('should handle an empty cart', () => {
+    const summary = summarizeCart({ items: [] });
+
+    expect(summary.total.isZero()).toBe(true);
+    expect(summary.effectiveRate).toBe(0);
+    expect(summary.byRate).toEqual([]);
+  });
+});
@@ -5,8 +5,11 @@
 import { ZiptaxClient } from '../src/client';
 import { ZiptaxConfigurationError, ZiptaxValidationError } from '../src/exceptions';
 import { HTTPClient } from '../src/utils/http';
+import { CalculateCartOptions } from '../src/utils/cart';
+import { CartShadowErrorEvent, CartShadowEvent } from '../src/utils/shadow';
 import {
   CalculateCartRequest,
+  CalculateCartResponse,
   TaxCloudCalculateCartResponse,
   CreateOrderRequest,
   CreateOrderFromCartRequest,
@@ -164,7 +167,8 @@ describe('ZiptaxClient - TaxCloud Orders', () => {
       expect(result).toEqual(mockOrderResponse);
       expect(mockTaxCloudHttpClient.post).toHaveBeenCalledWith(
         '/tax/connections/25eb9b97-5acb-492d-b720-c03e79cf715a/orders',
-        createRequest
+        createRequest,
+        undefined
       );
     });
 
@@ -233,7 +237,8 @@ describe('ZiptaxClient - TaxCloud Orders', () => {
 
       expect(result).toEqual(mockOrderResponse);
       expect(mockTaxCloudHttpClient.get).toHaveBeenCalledWith(
-        '/tax/connections/25eb9b97-5acb-492d-b720-c03e79cf715a/orders/test-order-123'
+        '/tax/connections/25eb9b97-5acb-492d-b720-c03e79cf715a/orders/test-order-123',
+        undefined
       );
     });
 
@@ -270,7 +275,8 @@ describe('ZiptaxClient - TaxCloud Orders', () => {
       expect(result).toEqual(updatedResponse);
       expect(mockTaxCloudHttpClient.patch).toHaveBeenCalledWith(
         '/tax/connections/25eb9b97-5acb-492d-b720-c03e79cf715a/orders/test-order-123',
-        updateRequest
+        updateRequest,
+        undefined
       );
     });
 
@@ -314,7 +320,8 @@ describe('ZiptaxClient - TaxCloud Orders', () => {
       expect(result).toEqual(mockRefundResponse);
       expect(mockTaxCloudHttpClient.post).toHaveBeenCalledWith(
         '/tax/connections/25eb9b97-5acb-492d-b720-c03e79cf715a/orders/refunds/test-order-123',
-        refundRequest
+        refundRequest,
+        undefined
       );
     });
 
@@ -341,7 +348,8 @@ describe('ZiptaxClient - TaxCloud Orders', () => {
       expect(result).toEqual(mockRefundResponse);
       expect(mockTaxCloudHttpClient.post).toHaveBeenCalledWith(
         '/tax/connections/25eb9b97-5acb-492d-b720-c03e79cf715a/orders/refunds/test-order-123',
-        {}
+        {},
+        undefined
       );
     });
 
@@ -368,7 +376,8 @@ describe('ZiptaxClient - TaxCloud Orders', () => {
       expect(result).toEqual(mockOrderResponse);
       expect(mockTaxCloudHttpClient.post).toHaveBeenCalledWith(
         '/tax/connections/25eb9b97-5acb-492d-b720-c03e79cf715a/carts/orders',
-        request
+        request,
+        undefined
       );
     });
 
@@ -407,17 +416,44 @@ describe('ZiptaxClient - TaxCloud Orders', () => {
   });
 
   describe('getConfig', () => {
-    it('should return configuration including TaxCloud credentials', () => {
+    it('should return configuration with redacted TaxCloud credentials', () => {
       const config = client.getConfig();
 
       expect(config).toMatchObject({
+        apiKey: '[REDACTED]',
+        taxCloudConnectionId: '25eb9b97-5acb-492d-b720-c03e79cf715a',
+        taxCloudAPIKey: '[REDACTED]',
+      });
+    });
+
+    it('should return clear-text credentials when redaction is disabled', () => {
+      const unredactedClient = new ZiptaxClient({
         apiKey: 'test-api-key',
         taxCloudConnectionId: '25eb9b97-5acb-492d-b720-c03e79cf715a',
         taxCloudAPIKey: 'test-taxcloud-key',
+        redact: false,
+      });
+
+      expect(unredactedClient.getConfig()).toMatchObject({
+        apiKey: 'test-api-key',
+        taxCloudAPIKey: 'test-taxcloud-key',
       });
     });
   });
 
+  describe('use', () => {
+    it('should register middleware on both the ZipTax and TaxCloud HTTP clients', () => {
+      mockHttpClient.use = jest.fn();
+      mockTaxCloudHttpClient.use = jest.fn();
+      const middleware = { onRequest: jest.fn() };
+
+      client.use(middleware);
+
+      expect(mockHttpClient.use).toHaveBeenCalledWith(middleware);
+      expect(mockTaxCloudHttpClient.use).toHaveBeenCalledWith(middleware);
+    });
+  });
+
   describe('calculateCart - TaxCloud routing', () => {
     const validCartRequest: CalculateCartRequest = {
       items: [
@@ -514,7 +550,8 @@ describe('ZiptaxClient - TaxCloud Orders', () => {
 
       expect(mockTaxCloudHttpClient.post).toHaveBeenCalledWith(
         '/tax/connections/25eb9b97-5acb-492d-b720-c03e79cf715a/carts',
-        expect.any(Object)
+        expect.any(Object),
+        undefined
       );
     });
 
@@ -645,7 +682,11 @@ describe('ZiptaxClient - TaxCloud Orders', () => {
 
       await clientWithoutTaxCloud.calculateCart(validCartRequest);
 
-      expect(mockHttpClient.post).toHaveBeenCalledWith('/calculate/cart', validCartRequest);
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/calculate/cart',
+        validCartRequest,
+        undefined
+      );
     });
 
     it('should return TaxCloudCalculateCartResponse structure', async () => {
@@ -664,5 +705,285 @@ describe('ZiptaxClient - TaxCloud Orders', () => {
       expect(result.items[0].lineItems).toHaveLength(2);
       expect(result.items[0].lineItems[0].tic).toBe(0);
     });
+
+    it('should normalize TaxCloud results', async () => {
+      mockTaxCloudHttpClient.post = jest.fn().mockResolvedValue(mockTaxCloudCartResponse);
+
+      const result = await client.calculateCartNormalized(validCartRequest);
+
+      expect(result.backend).toBe('taxcloud');
+      expect(result.transactionDate).toBe('2024-01-15T09:30:00Z');
+      expect(result.items[0].destination.raw).toBe('200 Spectrum Center Dr, Irvine, CA 92618-1905');
+      expect(result.items[0].lineItems[1]).toEqual({
+        index: 1,
+        itemId: 'item-2',
+        price: 25.0,
+        quantity: 2.0,
+        tic: 0,
+        tax: { amount: 4.52, rate: 0.0903 },
+      });
+    });
+
+    describe('backend option', () => {
+      const mockZipTaxCartResponse: CalculateCartResponse = {
+        items: [
+          {
+            cartId: 'ziptax-cart-id',
+            customerId: 'customer-453',
+            destination: { address: '200 Spectrum Center Dr, Irvine, CA 92618-1905' },
+            origin: { address: '323 Washington Ave N, Minneapolis, MN 55401-2427' },
+            lineItems: [],
+          },
+        ],
+      };
+
+      it('should route to ZipTax when backend is ziptax, even with TaxCloud configured', async () => {
+        mockHttpClient.post = jest.fn().mockResolvedValue(mockZipTaxCartResponse);
+        mockTaxCloudHttpClient.post = jest.fn();
+
+        const result = await client.calculateCart(validCartRequest, { backend: 'ziptax' });
+
+        expect(result.items[0].cartId).toBe('ziptax-cart-id');
+        expect(mockHttpClient.post).toHaveBeenCalledWith('/calculate/cart', validCartRequest, {});
+        expect(mockTaxCloudHttpClient.post).not.toHaveBeenCalled();
+      });
+
+      it('should route to TaxCloud when backend is taxcloud', async () => {
+        mockTaxCloudHttpClient.post = jest.fn().mockResolvedValue(mockTaxCloudCartResponse);
+        mockHttpClient.post = jest.fn();
+
+        const result = await client.calculateCart(validCartRequest, {
+          backend: 'taxcloud',
+          timeout: 5000,
+        });
+
+        expect(result.connectionId).toBe('25eb9b97-5acb-492d-b720-c03e79cf715a');
+        expect(mockTaxCloudHttpClient.post).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.any(Object),
+          { timeout: 5000 }
+        );
+        expect(mockHttpClient.post).not.toHaveBeenCalled();
+      });
+
+      it('should route as configured when backend is auto', async () => {
+        mockTaxCloudHttpClient.post = jest.fn().mockResolvedValue(mockTaxCloudCartResponse);
+
+        await client.calculateCart(validCartRequest, { backend: 'auto' });
+
+        expect(mockTaxCloudHttpClient.post).toHaveBeenCalled();
+      });
+
+      it('should throw ZiptaxConfigurationError for taxcloud without credentials', async () => {
+        const clientWithoutTaxCloud = new ZiptaxClient({ apiKey: 'test-api-key' });
+        mockHttpClient.post = jest.fn();
+
+        await expect(
+          clientWithoutTaxCloud.calculateCart(validCartRequest, { backend: 'taxcloud' })
+        ).rejects.toThrow(ZiptaxConfigurationError);
+        expect(mockHttpClient.post).not.toHaveBeenCalled();
+      });
+
+      it('should reject an unknown backend', async () => {
+        await expect(
+          client.calculateCart(validCartRequest, {
+            backend: 'other' as unknown as CalculateCartOptions['backend'],
+          })
+        ).rejects.toThrow(ZiptaxValidationError);
+      });
+
+      it('should pass the backend option through calculateCartNormalized', async () => {
+        mockHttpClient.post = jest.fn().mockResolvedValue(mockZipTaxCartResponse);
+
+        const result = await client.calculateCartNormalized(validCartRequest, {
+          backend: 'ziptax',
+        });
+
+        expect(result.backend).toBe('ziptax');
+        expect(result.items[0].cartId).toBe('ziptax-cart-id');
+      });
+    });
+
+    describe('shadow option', () => {
+      const mockZipTaxCartResponse: CalculateCartResponse = {
+        items: [
+          {
+            cartId: 'ziptax-cart-id',
+            customerId: 'customer-453',
+            destination: { address: '200 Spectrum Center Dr, Irvine, CA 92618-1905' },
+            origin: { address: '323 Washington Ave N, Minneapolis, MN 55401-2427' },
+            lineItems: [
+              {
+                itemId: 'item-1',
+                price: 10.75,
+                quantity: 1.5,
+                tax: { rate: 0.0903, amount: 1.46 },
+              },
+              { itemId: 'item-2', price: 25.0, quantity: 2.0, tax: { rate: 0.0775, amount: 3.88 } },
+            ],
+          },
+        ],
+      };
+
+      it('should return the primary result and report shadow differences', async () => {
+        mockHttpClient.post = jest.fn().mockResolvedValue(mockZipTaxCartResponse);
+        mockTaxCloudHttpClient.post = jest.fn().mockResolvedValue(mockTaxCloudCartResponse);
+        let resolveEvent: (event: CartShadowEvent) => void = () => undefined;
+        const event = new Promise<CartShadowEvent>((resolve) => {
+          resolveEvent = resolve;
+        });
+
+        const result = await client.calculateCart(validCartRequest, {
+          backend: 'ziptax',
+          shadow: { onDifference: resolveEvent },
+        });
+        const difference = await event;
+
+        expect(result).toEqual(mockZipTaxCartResponse);
+        expect(difference.primaryBackend).toBe('ziptax');
+        expect(difference.shadowBackend).toBe('taxcloud');
+        expect(difference.differences).toEqual([
+          {
+            cartIndex: 0,
+            index: 1,
+            itemId: 'item-2',
+            primary: { rate: 0.0775, amount: 3.88 },
+            shadow: { rate: 0.0903, amount: 4.52 },
+            rateDelta: 0.0128,
+            amountDelta: 0.64,
+          },
+        ]);
+        expect(difference.unmatchedItemIds).toEqual([]);
+      });
+
+      it('should not report results within the tolerances', async () => {
+        mockHttpClient.post = jest.fn().mockResolvedValue(mockZipTaxCartResponse);
+        mockTaxCloudHttpClient.post = jest.fn().mockResolvedValue(mockTaxCloudCartResponse);
+        const onDifference = jest.fn();
+
+        await client.calculateCart(validCartRequest, {
+          backend: 'taxcloud',
+          shadow: { rateTolerance: 0.02, amountTolerance: 1, onDifference },
+        });
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(mockHttpClient.post).toHaveBeenCalledWith('/calculate/cart', validCartRequest, {});
+        expect(onDifference).not.toHaveBeenCalled();
+      });
+
+      it('should report shadow failures without affecting the primary result', async () => {
+        mockTaxCloudHttpClient.post = jest.fn().mockResolvedValue(mockTaxCloudCartResponse);
+        mockHttpClient.post = jest.fn().mockRejectedValue(new Error('ZipTax unavailable'));
+        const onDifference = jest.fn();
+        let resolveError: (event: CartShadowErrorEvent) => void = () => undefined;
+        const errorEvent = new Promise<CartShadowErrorEvent>((resolve) => {
+          resolveError = resolve;
+        });
+
+        const result = await client.calculateCart(validCartRequest, {
+          shadow: { onDifference, onError: resolveError },
+        });
+        const { error, shadowBackend } = await errorEvent;
+
+        expect(result).toEqual(mockTaxCloudCartResponse);
+        expect(shadowBackend).toBe('ziptax');
+        expect(error.message).toBe('ZipTax unavailable');
+        expect(onDifference).not.toHaveBeenCalled();
+      });
+
+      it('should report missing TaxCloud credentials as a shadow failure', async () => {
+        const clientWithoutTaxCloud = new ZiptaxClient({ apiKey: 'test-api-key' });
+        mockHttpClient.post = jest.fn().mockResolvedValue(mockZipTaxCartResponse);
+        const errorEvent = new Promise<CartShadowErrorEvent>((resolve) => {
+          void clientWithoutTaxCloud.calculateCart(validCartRequest, {
+            shadow: { onError: resolve },
+          });
+        });
+
+        expect((await errorEvent).error).toBeInstanceOf(ZiptaxConfigurationError);
+      });
+
+      it('should not report anything when the primary call fails', async () => {
+        mockTaxCloudHttpClient.post = jest.fn().mockRejectedValue(new Error('TaxCloud down'));
+        mockHttpClient.post = jest.fn().mockRejectedValue(new Error('ZipTax down'));
+        const onDifference = jest.fn();
+        const onError = jest.fn();
+
+        await expect(
+          client.calculateCart(validCartRequest, { shadow: { onDifference, onError } })
+        ).rejects.toThrow('TaxCloud down');
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(onDifference).not.toHaveBeenCalled();
+        expect(onError).not.toHaveBeenCalled();
+      });
+
+      it('should shadow a cart calculated in chunks once', async () => {
+        mockHttpClient.post = jest.fn().mockImplementation(async (_url, body) => {
+          const [line] = (body as CalculateCartRequest).items[0].lineItems;
+          const [cart] = mockZipTaxCartResponse.items;
+          return {
+            items: [
+              { ...cart, lineItems: cart.lineItems.filter(({ itemId }) => itemId === line.itemId) },
+            ],
+          };
+        });
+        mockTaxCloudHttpClient.post = jest.fn().mockRejectedValue(new Error('TaxCloud down'));
+        const onError = jest.fn();
+        const errorEvent = new Promise<CartShadowErrorEvent>((resolve) => {
+          onError.mockImplementation(resolve);
+        });
+
+        const { response } = await client.calculateCartInChunks(validCartRequest, {
+          backend: 'ziptax',
+          chunkSize: 1,
+          shadow: { onError },
+        });
+        const { request } = await errorEvent;
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(response.items[0].lineItems).toHaveLength(2);
+        expect(mockTaxCloudHttpClient.post).toHaveBeenCalledTimes(2);
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect(request.items[0].lineItems).toHaveLength(2);
+      });
+
+      it('should send the chunked shadow cart with the same request options', async () => {
+        mockHttpClient.post = jest.fn().mockResolvedValue(mockZipTaxCartResponse);
+        mockTaxCloudHttpClient.post = jest.fn().mockResolvedValue(mockTaxCloudCartResponse);
+        const onDifference = jest.fn();
+        const headers = { 'X-Request-Id': 'checkout-1' };
+
+        await client.calculateCartInChunks(validCartRequest, {
+          backend: 'ziptax',
+          headers,
+          shadow: { onDifference },
+        });
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(mockHttpClient.post).toHaveBeenCalledWith('/calculate/cart', expect.anything(), {
+          headers,
+        });
+        expect(mockTaxCloudHttpClient.post).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.anything(),
+          { headers }
+        );
+      });
+
+      it('should not surface errors thrown by the callbacks', async () => {
+        mockTaxCloudHttpClient.post = jest.fn().mockResolvedValue(mockTaxCloudCartResponse);
+        mockHttpClient.post = jest.fn().mockRejectedValue(new Error('ZipTax down'));
+        const onError = jest.fn(() => {
+          throw new Error('callback failed');
+        });
+
+        const result = await client.calculateCart(validCartRequest, { shadow: { onError } });
+        await new Promise((resolve) => setImmediate(resolve));
+
+        expect(result).toEqual(mockTaxCloudCartResponse);
+        expect(onError).toHaveBeenCalledTimes(1);
+      });
+    });
   });
 });
@@ -0,0 +1,318 @@
+/**
+ * Tests for HTTP transports
+ */
+
+import axios from 'axios';
+import {
+  AxiosTransport,
+  FetchTransport,
+  createTransport,
+  Transport,
+  TransportOptions,
+} from '../src/utils/transport';
+import { ZiptaxAbortError, ZiptaxConfigurationError, ZiptaxNetworkError } from '../src/exceptions';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const transportOptions: TransportOptions = {
+  baseURL: 'https://api.zip-tax.com/',
+  timeout: 5000,
+  headers: { 'X-API-Key': 'test-api-key', 'Content-Type': 'application/json' },
+};
+
+function mockFetchResponse(
+  status: number,
+  body: string,
+  headers: Record<string, string> = {}
+): Pick<Response, 'status' | 'headers' | 'text'> {
+  return {
+    status,
+    headers: new Headers(headers),
+    text: jest.fn().mockResolvedValue(body),
+  };
+}
+
+describe('FetchTransport', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should build URL with query params and omit undefined values', async () => {
+    fetchMock.mockResolvedValue(mockFetchResponse(200, '{"ok":true}'));
+    const transport = new FetchTransport(transportOptions);
+
+    await transport.request({
+      method: 'GET',
+      url: '/request/v60/',
+      params: { address: '200 Spectrum Center Dr', historical: undefined, format: 'json' },
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.zip-tax.com/request/v60/?address=200+Spectrum+Center+Dr&format=json',
+      expect.objectContaining({
+        method: 'GET',
+        headers: transportOptions.headers,
+        body: undefined,
+      })
+    );
+  });
+
+  it('should send JSON body and merge per-request headers', async () => {
+    fetchMock.mockResolvedValue(mockFetchResponse(200, '{}'));
+    const transport = new FetchTransport(transportOptions);
+
+    await transport.request({
+      method: 'POST',
+      url: 'search/tic',
+      data: { query: 'bread' },
+      headers: { 'X-Trace-Id': 'abc' },
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.zip-tax.com/search/tic',
+      expect.objectContaining({
+        method: 'POST',
+        headers: { ...transportOptions.headers, 'X-Trace-Id': 'abc' },
+        body: '{"query":"bread"}',
+      })
+    );
+  });
+
+  it('should parse JSON responses and lower-case headers', async () => {
+    fetchMock.mockResolvedValue(
+      mockFetchResponse(200, '{"result":"ok"}', { 'Content-Type': 'application/json' })
+    );
+    const transport = new FetchTransport(transportOptions);
+
+    const response = await transport.request({ method: 'GET', url: '/test' });
+
+    expect(response).toEqual({
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      data: { result: 'ok' },
+    });
+  });
+
+  it('should fall back to text for non-JSON responses', async () => {
+    fetchMock.mockResolvedValue(mockFetchResponse(400, 'Bad Request Error'));
+    const transport = new FetchTransport(transportOptions);
+
+    const response = await transport.request({ method: 'GET', url: '/test' });
+
+    expect(response.status).toBe(400);
+    expect(response.data).toBe('Bad Request Error');
+  });
+
+  it('should resolve error statuses instead of rejecting', async () => {
+    fetchMock.mockResolvedValue(
+      mockFetchResponse(429, '{"message":"Rate limit exceeded"}', { 'Retry-After': '30' })
+    );
+    const transport = new FetchTransport(transportOptions);
+
+    const response = await transport.request({ method: 'GET', url: '/test' });
+
+    expect(response.status).toBe(429);
+    expect(response.headers['retry-after']).toBe('30');
+  });
+
+  it('should throw ZiptaxNetworkError when fetch rejects', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+    const transport = new FetchTransport(transportOptions);
+
+    await expect(transport.request({ method: 'GET', url: '/test' })).rejects.toThrow(
+      ZiptaxNetworkError
+    );
+  });
+
+  it('should throw ZiptaxNetworkError on timeout', async () => {
+    fetchMock.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+    const transport = new FetchTransport({ ...transportOptions, timeout: 10 });
+
+    await expect(transport.request({ method: 'GET', url: '/test' })).rejects.toThrow(
+      'timeout of 10ms exceeded'
+    );
+  });
+
+  it('should use the per-request timeout', async () => {
+    fetchMock.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+    const transport = new FetchTransport(transportOptions);
+
+    await expect(transport.request({ method: 'GET', url: '/test', timeout: 5 })).rejects.toThrow(
+      'timeout of 5ms exceeded'
+    );
+  });
+
+  it('should throw ZiptaxAbortError when the request signal aborts', async () => {
+    fetchMock.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+    const controller = new AbortController();
+    const transport = new FetchTransport(transportOptions);
+
+    const promise = transport.request({ method: 'GET', url: '/test', signal: controller.signal });
+    controller.abort();
+
+    await expect(promise).rejects.toThrow(ZiptaxAbortError);
+  });
+
+  describe('reading the body', () => {
+    // Resolves the headers at once, then reads the body until the fetch signal aborts
+    const stallBody = (_url: string, init: RequestInit): Promise<unknown> =>
+      Promise.resolve({
+        status: 200,
+        headers: new Headers(),
+        text: () =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+          }),
+      });
+
+    it('should apply the timeout while reading the body', async () => {
+      fetchMock.mockImplementation(stallBody);
+      const transport = new FetchTransport({ ...transportOptions, timeout: 10 });
+
+      await expect(transport.request({ method: 'GET', url: '/test' })).rejects.toThrow(
+        'timeout of 10ms exceeded'
+      );
+    });
+
+    it('should throw ZiptaxAbortError when the signal aborts while reading the body', async () => {
+      fetchMock.mockImplementation(stallBody);
+      const controller = new AbortController();
+      const transport = new FetchTransport(transportOptions);
+
+      const promise = transport.request({ method: 'GET', url: '/test', signal: controller.signal });
+      await Promise.resolve();
+      controller.abort();
+
+      await expect(promise).rejects.toThrow(ZiptaxAbortError);
+    });
+
+    it('should throw ZiptaxNetworkError when reading the body fails', async () => {
+      fetchMock.mockResolvedValue({
+        status: 200,
+        headers: new Headers(),
+        text: jest.fn().mockRejectedValue(new TypeError('terminated')),
+      });
+      const transport = new FetchTransport(transportOptions);
+
+      const error = await transport.request({ method: 'GET', url: '/test' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ZiptaxNetworkError);
+      expect(error.message).toBe('terminated');
+    });
+  });
+
+  it('should throw ZiptaxConfigurationError when fetch is unavailable', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (global as any).fetch = undefined;
+
+    expect(() => new FetchTransport(transportOptions)).toThrow(ZiptaxConfigurationError);
+  });
+});
+
+describe('createTransport', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockedAxios.create.mockReturnValue({ request: jest.fn() } as any);
+  });
+
+  it('should default to the axios transport', async () => {
+    const request = jest.fn().mockResolvedValue({ status: 200, headers: {}, data: 'ok' });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockedAxios.create.mockReturnValue({ request } as any);
+    const transport = createTransport(undefined, transportOptions);
+    expect(transport).toBeInstanceOf(AxiosTransport);
+    expect(mockedAxios.create).not.toHaveBeenCalled();
+
+    await transport.request({ method: 'GET', url: '/test' });
+
+    expect(mockedAxios.create).toHaveBeenCalledWith(transportOptions);
+  });
+
+  it('should create the fetch transport', () => {
+    expect(createTransport('fetch', transportOptions)).toBeInstanceOf(FetchTransport);
+  });
+
+  it('should pass per-request signal and timeout to axios', async () => {
+    const request = jest.fn().mockResolvedValue({ status: 200, headers: {}, data: 'ok' });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockedAxios.create.mockReturnValue({ request } as any);
+    const controller = new AbortController();
+
+    await new AxiosTransport(transportOptions).request({
+      method: 'GET',
+      url: '/test',
+      timeout: 100,
+      signal: controller.signal,
+    });
+
+    expect(request).toHaveBeenCalledWith(
+      expect.objectContaining({ timeout: 100, signal: controller.signal })
+    );
+  });
+
+  it('should throw ZiptaxAbortError when an axios request is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const request = jest.fn().mockRejectedValue(new Error('canceled'));
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockedAxios.create.mockReturnValue({ request } as any);
+
+    await expect(
+      new AxiosTransport(transportOptions).request({
+        method: 'GET',
+        url: '/test',
+        signal: controller.signal,
+      })
+    ).rejects.toThrow(ZiptaxAbortError);
+  });
+
+  it('should call a custom transport factory with the transport options', () => {
+    const custom: Transport = { request: jest.fn() };
+    const factory = jest.fn().mockReturnValue(custom);
+
+    expect(createTransport(factory, transportOptions)).toBe(custom);
+    expect(factory).toHaveBeenCalledWith(transportOptions);
+  });
+});
+
+describe('root entry point', () => {
+  it('should not load axios or Node built-ins until they are used', async () => {
+    const loaded: string[] = [];
+    await jest.isolateModulesAsync(async () => {
+      for (const name of ['axios', 'fs', 'stream']) {
+        jest.doMock(name, () => {
+          loaded.push(name);
+          return {};
+        });
+      }
+      await import('../src');
+    });
+
+    expect(loaded).toEqual([]);
+  });
+});